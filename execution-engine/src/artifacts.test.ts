@@ -0,0 +1,93 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ArtifactStore, globToRegExp } from './artifacts';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.csv', 'out.csv', true],
+    ['*.csv', 'data/out.csv', false],
+    ['**/*.csv', 'out.csv', true],
+    ['**/*.csv', 'data/2024/out.csv', true],
+    ['plots/**', 'plots/a/b.png', true],
+    ['report-?.json', 'report-1.json', true],
+    ['report-?.json', 'report-10.json', false],
+    ['./out.txt', 'out.txt', true],
+    ['a+b.txt', 'a+b.txt', true]
+  ])('%s matches %s: %s', (pattern, file, expected) => {
+    expect(globToRegExp(pattern).test(file)).toBe(expected);
+  });
+
+  it.each(['/etc/*', '../*', 'data/../../x', ''])('rejects %j', pattern => {
+    expect(() => globToRegExp(pattern)).toThrow('relative to the project');
+  });
+});
+
+describe('ArtifactStore', () => {
+  let root: string;
+  let workspace: string;
+  let store: ArtifactStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'artifacts-'));
+    workspace = path.join(root, 'workspace');
+    await fs.outputFile(path.join(workspace, 'out.txt'), 'hello');
+    await fs.outputFile(path.join(workspace, 'plots', 'big.png'), Buffer.alloc(64));
+    await fs.outputFile(path.join(workspace, '.codecontext', 'secret.txt'), 'harness');
+    store = new ArtifactStore({ directory: path.join(root, 'store'), limits: { maxFiles: 20, maxFileBytes: 32, maxTotalBytes: 1024 } });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    store.shutdown();
+    await fs.remove(root);
+    jest.restoreAllMocks();
+  });
+
+  it('returns matching files inline and lists the ones over the limits', async () => {
+    const artifacts = await store.collect(workspace, ['**/*'], 'run-1');
+
+    expect(artifacts).toEqual([
+      { path: 'out.txt', size: 5, mimeType: 'text/plain', content: Buffer.from('hello').toString('base64') },
+      { path: 'plots/big.png', size: 64, mimeType: 'image/png', skipped: 'larger than 32 bytes' }
+    ]);
+  });
+
+  it('stores downloadable artifacts under the execution id', async () => {
+    const [artifact] = await store.collect(workspace, ['out.txt'], 'run-1', 'download');
+
+    expect(artifact.url).toBe('/artifacts/run-1/out.txt');
+    const stored = await store.resolve('run-1', 'out.txt');
+    expect(stored).toBe(path.join(root, 'store', 'run-1', 'out.txt'));
+    expect(await fs.readFile(stored!, 'utf8')).toBe('hello');
+  });
+
+  it('serves downloads only to the caller that stored them and keeps the id theirs', async () => {
+    await store.collect(workspace, ['out.txt'], 'run-1', 'download', 'alice');
+
+    expect(await store.resolve('run-1', 'out.txt', 'alice')).toBeDefined();
+    expect(await store.resolve('run-1', 'out.txt', 'bob')).toBeUndefined();
+    expect(await store.resolve('run-1', 'out.txt', null)).toBeUndefined();
+
+    await fs.outputFile(path.join(workspace, 'out.txt'), 'overwritten');
+    const [artifact] = await store.collect(workspace, ['out.txt'], 'run-1', 'download', 'bob');
+    expect(artifact.skipped).toBe('execution id holds artifacts of another caller');
+    expect(artifact.url).toBeUndefined();
+    expect(await fs.readFile((await store.resolve('run-1', 'out.txt', 'alice'))!, 'utf8')).toBe('hello');
+  });
+
+  it('never writes outside the store, whatever the execution id', async () => {
+    for (const executionId of ['../escaped', '..', 'a/b', '']) {
+      await expect(store.collect(workspace, ['out.txt'], executionId, 'download')).rejects.toThrow('Invalid execution id');
+    }
+    expect(await fs.readdir(root)).toEqual(['workspace']);
+  });
+
+  it('resolves nothing outside a stored execution', async () => {
+    await store.collect(workspace, ['out.txt'], 'run-1', 'download');
+
+    expect(await store.resolve('run-1', '../run-1/out.txt')).toBeUndefined();
+    expect(await store.resolve('..', 'store/run-1/out.txt')).toBeUndefined();
+    expect(await store.resolve('run-1', 'missing.txt')).toBeUndefined();
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * 🗂️ Artifacts
+ *
+ * Files a program writes (plots, CSV, JSON reports) would be lost with its
+ * workspace. A request lists glob patterns, relative to the project root,
+ * and matching files are collected before cleanup: inline as base64, or
+ * copied to the artifact store and served from a download URL until they
+ * expire.
+ *
+ * Patterns support `*` and `?` within a path segment and `**` across
+ * segments. Only regular files are collected (symlinks could point outside
+ * the workspace), and the engine's reserved directory is never searched.
+ * Files over the per-file cap, or past the count or total caps, are listed
+ * with the reason they were skipped instead of their contents.
+ *
+ * Execution ids are chosen by callers, so they are no secret: downloads are
+ * kept with the caller that ran the execution and served only to them, and
+ * an id stays with the caller that first stored artifacts under it.
+ */
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TEST_DIR } from './testRunner';
+
+export type ArtifactDelivery = 'inline' | 'download';
+
+export interface Artifact {
+  path: string; // relative to the project root
+  size: number;
+  mimeType: string;
+  content?: string; // base64, when delivered inline
+  url?: string; // when delivered through the download endpoint
+  skipped?: string; // why the file wasn't returned
+}
+
+export interface ArtifactLimits {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface ArtifactStoreOptions {
+  directory: string; // where downloadable artifacts are kept
+  retention: number; // ms before downloadable artifacts are deleted
+  limits: ArtifactLimits;
+}
+
+export const DEFAULT_ARTIFACT_STORE_OPTIONS: ArtifactStoreOptions = {
+  directory: path.join(os.tmpdir(), 'codecontext-artifacts'),
+  retention: 60 * 60 * 1000,
+  limits: {
+    maxFiles: 20,
+    maxFileBytes: 5 * 1024 * 1024,
+    maxTotalBytes: 20 * 1024 * 1024
+  }
+};
+
+// Execution ids name directories of the store and segments of download URLs
+export const EXECUTION_ID_PATTERN = /^[\w-]+$/;
+
+// Next to an execution's directory; ids can't contain a dot, so it never is one
+const CALLER_FILE_SUFFIX = '.caller';
+
+// Stop walking huge trees (node_modules, build output) early
+const MAX_SCANNED_ENTRIES = 10000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.htm': 'text/html',
+  '.html': 'text/html',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip'
+};
+
+export class ArtifactStore {
+  private options: ArtifactStoreOptions;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: Partial<ArtifactStoreOptions> = {}) {
+    this.options = {
+      ...DEFAULT_ARTIFACT_STORE_OPTIONS,
+      ...options,
+      limits: { ...DEFAULT_ARTIFACT_STORE_OPTIONS.limits, ...options.limits }
+    };
+
+    this.sweepTimer = setInterval(() => this.removeExpired(), Math.min(this.options.retention, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Collect the files in `workspaceDir` matching `patterns`. Downloadable
+   * artifacts are copied out under `executionId`, since the workspace is
+   * about to be removed, and kept for `caller`.
+   */
+  async collect(
+    workspaceDir: string,
+    patterns: string[],
+    executionId: string,
+    delivery: ArtifactDelivery = 'inline',
+    caller?: string
+  ): Promise<Artifact[]> {
+    const matchers = patterns.map(pattern => globToRegExp(pattern));
+    const owned = delivery === 'download' ? await this.claim(executionId, caller) : true;
+    const files = (await this.listFiles(workspaceDir))
+      .filter(file => matchers.some(matcher => matcher.test(file)));
+
+    const { maxFiles, maxFileBytes, maxTotalBytes } = this.options.limits;
+    const artifacts: Artifact[] = [];
+    let totalBytes = 0;
+
+    for (const file of files) {
+      const source = path.join(workspaceDir, ...file.split('/'));
+      const size = (await fs.lstat(source)).size;
+      const artifact: Artifact = { path: file, size, mimeType: mimeTypeOf(file) };
+      artifacts.push(artifact);
+
+      if (artifacts.length > maxFiles) {
+        artifact.skipped = `more than ${maxFiles} artifacts`;
+      } else if (size > maxFileBytes) {
+        artifact.skipped = `larger than ${maxFileBytes} bytes`;
+      } else if (totalBytes + size > maxTotalBytes) {
+        artifact.skipped = `artifacts exceed ${maxTotalBytes} bytes in total`;
+      } else if (!owned) {
+        artifact.skipped = 'execution id holds artifacts of another caller';
+      } else if (delivery === 'download') {
+        await fs.copy(source, this.storedPath(executionId, file));
+        artifact.url = `/artifacts/${encodeURIComponent(executionId)}/${file.split('/').map(encodeURIComponent).join('/')}`;
+        totalBytes += size;
+      } else {
+        artifact.content = (await fs.readFile(source)).toString('base64');
+        totalBytes += size;
+      }
+    }
+
+    if (artifacts.length > 0) {
+      console.log(`🗂️  Collected ${artifacts.filter(artifact => !artifact.skipped).length}/${artifacts.length} artifact(s) for ${executionId}`);
+    }
+    return artifacts;
+  }
+
+  /**
+   * Absolute path of a stored artifact, or undefined if it doesn't exist
+   * (or has expired), or was stored for another caller than `caller` (null:
+   * stored without one; left out: any caller).
+   */
+  async resolve(executionId: string, file: string, caller?: string | null): Promise<string | undefined> {
+    if (!EXECUTION_ID_PATTERN.test(executionId) || file.split('/').some(segment => segment === '..' || segment === '')) {
+      return undefined;
+    }
+    if (caller !== undefined && (await this.ownerOf(executionId)) !== caller) {
+      return undefined;
+    }
+
+    const stored = this.storedPath(executionId, file);
+    const stat = await fs.lstat(stored).catch(() => undefined);
+    return stat && stat.isFile() ? stored : undefined;
+  }
+
+  shutdown(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Record `caller` as the owner of `executionId`'s artifacts, unless
+   * another caller already is. Returns whether `caller` owns them.
+   */
+  private async claim(executionId: string, caller?: string): Promise<boolean> {
+    const file = this.callerFile(executionId);
+    if (await fs.pathExists(file)) {
+      return (await this.ownerOf(executionId)) === (caller ?? null);
+    }
+    await fs.outputJson(file, { caller: caller ?? null });
+    return true;
+  }
+
+  // undefined when nothing was stored under the id
+  private async ownerOf(executionId: string): Promise<string | null | undefined> {
+    const owner = await fs.readJson(this.callerFile(executionId)).catch(() => undefined);
+    return owner ? owner.caller : undefined;
+  }
+
+  private callerFile(executionId: string): string {
+    if (!EXECUTION_ID_PATTERN.test(executionId)) {
+      throw new Error(`Invalid execution id for artifacts: ${JSON.stringify(executionId)}`);
+    }
+    return path.join(this.options.directory, `${executionId}${CALLER_FILE_SUFFIX}`);
+  }
+
+  /**
+   * Where an artifact is kept. Throws unless that is inside the store.
+   */
+  private storedPath(executionId: string, file: string): string {
+    if (!EXECUTION_ID_PATTERN.test(executionId)) {
+      throw new Error(`Invalid execution id for artifacts: ${JSON.stringify(executionId)}`);
+    }
+
+    const root = path.resolve(this.options.directory, executionId);
+    const stored = path.resolve(root, ...file.split('/'));
+    const relative = path.relative(root, stored);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Artifact path escapes the artifact store: ${file}`);
+    }
+    return stored;
+  }
+
+  /**
+   * Regular files under `root`, relative and with posix separators.
+   */
+  private async listFiles(root: string): Promise<string[]> {
+    const files: string[] = [];
+    const pending = [''];
+    let scanned = 0;
+
+    while (pending.length > 0 && scanned < MAX_SCANNED_ENTRIES) {
+      const relative = pending.shift()!;
+      const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true }).catch(() => []);
+
+      for (const entry of entries) {
+        if (++scanned > MAX_SCANNED_ENTRIES) break;
+        const file = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && file !== TEST_DIR) {
+          pending.push(file);
+        } else if (entry.isFile()) {
+          files.push(file);
+        }
+      }
+    }
+
+    return files.sort();
+  }
+
+  private async removeExpired(): Promise<void> {
+    const cutoff = Date.now() - this.options.retention;
+    const entries = await fs.readdir(this.options.directory).catch(() => [] as string[]);
+
+    for (const entry of entries) {
+      const directory = path.join(this.options.directory, entry);
+      const stat = await fs.stat(directory).catch(() => undefined);
+      if (stat && stat.mtimeMs < cutoff) {
+        await fs.remove(directory).catch(() => undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Match a relative path against a glob pattern.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (!normalized || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new Error(`Artifact patterns must be relative to the project: ${pattern}`);
+  }
+
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      // `**/` matches zero or more directories, a trailing `**` everything below
+      if (normalized[i + 2] === '/') {
+        source += '(?:[^/]+/)*';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function mimeTypeOf(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
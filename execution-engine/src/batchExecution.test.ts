@@ -0,0 +1,98 @@
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { applyParameters, expandMatrix, runBatch, summarizeBatch, BatchRun } from './batchExecution';
+
+const result = (id: string, overrides: Partial<ExecutionResult> = {}): ExecutionResult =>
+  ({ id, success: true, output: '', errors: [], exitCode: 0, executionTime: 10, memoryUsage: 0, ...overrides });
+
+describe('expandMatrix', () => {
+  it('takes a list of sets as it is', () => {
+    expect(expandMatrix([{ stdin: '1' }, { stdin: '2', args: ['-v'] }], 10)).toEqual([{ stdin: '1' }, { stdin: '2', args: ['-v'] }]);
+  });
+
+  it('combines per-parameter values in order', () => {
+    expect(expandMatrix({ stdin: ['1', '2'], args: [[], ['-v']] }, 10)).toEqual([
+      { stdin: '1', args: [] },
+      { stdin: '1', args: ['-v'] },
+      { stdin: '2', args: [] },
+      { stdin: '2', args: ['-v'] }
+    ]);
+  });
+
+  it.each([
+    [{ stdin: ['1', '2', '3'], args: [[], ['-v']] }, 'expands to 6 sets (maximum 5)'],
+    [[{ stdin: '1' }, { stdin: '2' }, { stdin: '3' }, { stdin: '4' }, { stdin: '5' }, { stdin: '6' }], 'has 6 sets (maximum 5)'],
+    [{ stdin: [] }, '"stdin" must be a non-empty list'],
+    [[], 'Batch matrix is empty'],
+    [[{ stdin: 1 }], 'Batch set 0: "stdin" must be a string'],
+    [[{}, { env: { DEBUG: true } }], 'Batch set 1: "env" must map names to strings'],
+    [undefined, 'Batch needs a matrix of parameter sets']
+  ])('rejects %j', (matrix, message) => {
+    expect(() => expandMatrix(matrix as never, 5)).toThrow(message);
+  });
+});
+
+describe('applyParameters', () => {
+  it('merges the set over the base request under its own id', () => {
+    const base: ExecutionRequest = {
+      id: 'batch',
+      language: 'python',
+      code: 'print(input())',
+      stdin: 'base',
+      projectContext: { projectId: 'p', workingDirectory: '.', installedPackages: [], environmentVariables: { A: '1', B: '1' } }
+    };
+
+    const request = applyParameters(base, { args: ['-v'], env: { B: '2' } }, 'batch-3');
+
+    expect(request).toMatchObject({ id: 'batch-3', stdin: 'base', args: ['-v'] });
+    expect(request.projectContext!.environmentVariables).toEqual({ A: '1', B: '2' });
+    expect(base.projectContext!.environmentVariables).toEqual({ A: '1', B: '1' });
+  });
+});
+
+describe('runBatch', () => {
+  it('keeps matrix order, bounds parallelism and reports failures per set', async () => {
+    let running = 0;
+    let peak = 0;
+    const execute = async (request: ExecutionRequest): Promise<ExecutionResult> => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, request.stdin === '1' ? 20 : 1));
+      running--;
+      if (request.stdin === '3') {
+        throw new Error('Execution batch-2 is already running');
+      }
+      return result(request.id, { output: request.stdin });
+    };
+
+    const batch = await runBatch('batch', { id: 'batch', language: 'python', code: '' },
+      [{ stdin: '1' }, { stdin: '2' }, { stdin: '3' }, { stdin: '4' }], execute, 2);
+
+    expect(peak).toBe(2);
+    expect(batch.runs.map(run => [run.index, run.result.id, run.result.output])).toEqual([
+      [0, 'batch-0', '1'], [1, 'batch-1', '2'], [2, 'batch-2', ''], [3, 'batch-3', '4']
+    ]);
+    expect(batch.runs[2].result).toMatchObject({ success: false, errors: ['Execution batch-2 is already running'] });
+    expect(batch.summary).toMatchObject({ total: 4, passed: 3, failed: 1 });
+  });
+});
+
+describe('summarizeBatch', () => {
+  it('counts outcomes, timing and distinct outputs', () => {
+    const runs: BatchRun[] = [
+      result('0', { output: 'yes', executionTime: 30 }),
+      result('1', { output: 'no', executionTime: 10, cached: true }),
+      result('2', { output: 'yes', executionTime: 20, success: false, status: 'timed-out' })
+    ].map((run, index) => ({ index, parameters: {}, result: run }));
+
+    expect(summarizeBatch(runs, 50)).toEqual({
+      total: 3,
+      passed: 2,
+      failed: 1,
+      statuses: { completed: 2, 'timed-out': 1 },
+      cached: 1,
+      wallTime: 50,
+      timing: { min: 10, max: 30, mean: 20, median: 20, p95: 30 },
+      distinctOutputs: [{ output: 'yes', count: 2, sets: [0, 2] }, { output: 'no', count: 1, sets: [1] }]
+    });
+  });
+});
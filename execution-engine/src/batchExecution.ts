@@ -0,0 +1,216 @@
+/**
+ * 🧮 Batch Execution
+ *
+ * Runs one snippet against many inputs. A batch is a base ExecutionRequest
+ * and a matrix of parameter sets, each of which may set environment
+ * variables (merged over the base's), stdin and command-line arguments.
+ * The matrix is either a list of sets, or one list of values per parameter,
+ * whose every combination becomes a set:
+ *
+ *   { "matrix": [{ "stdin": "1" }, { "stdin": "2", "args": ["-v"] }] }
+ *   { "matrix": { "stdin": ["1", "2"], "args": [[], ["-v"]] } }   -> 4 sets
+ *
+ * Sets run with bounded parallelism, each as a request of its own (with
+ * its own id, so one can be cancelled), and the batch returns their
+ * results in matrix order plus a summary: outcome counts, the distribution
+ * of execution times and the distinct outputs with the sets producing them.
+ */
+
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { ExecutionStatus } from './executionTracker';
+
+export interface BatchParameterSet {
+  name?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+  args?: string[];
+}
+
+// One list of values per parameter; sets are their cartesian product
+export interface BatchParameterAxes {
+  env?: Record<string, string>[];
+  stdin?: string[];
+  args?: string[][];
+}
+
+export interface BatchRequest {
+  base: ExecutionRequest;
+  matrix: BatchParameterSet[] | BatchParameterAxes;
+  concurrency?: number; // sets running at once, within the server maximum
+}
+
+export interface BatchOptions {
+  maxSets: number;
+  concurrency: number; // when the batch doesn't ask for less
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  maxSets: 100,
+  concurrency: 4
+};
+
+export interface BatchRun {
+  index: number;
+  name?: string;
+  parameters: BatchParameterSet;
+  result: ExecutionResult;
+}
+
+export interface BatchSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  statuses: Partial<Record<ExecutionStatus, number>>;
+  cached: number;
+  wallTime: number; // ms for the whole batch
+  timing: { min: number; max: number; mean: number; median: number; p95: number }; // executionTime, ms
+  distinctOutputs: Array<{ output: string; count: number; sets: number[] }>; // most common first
+}
+
+export interface BatchResult {
+  id: string;
+  runs: BatchRun[];
+  summary: BatchSummary;
+}
+
+/**
+ * The parameter sets of a matrix, in order. Throws on a malformed matrix.
+ */
+export function expandMatrix(matrix: BatchParameterSet[] | BatchParameterAxes, maxSets: number): BatchParameterSet[] {
+  let sets: BatchParameterSet[];
+  if (Array.isArray(matrix)) {
+    sets = matrix;
+  } else if (matrix && typeof matrix === 'object') {
+    const axes = (['env', 'stdin', 'args'] as const).filter(axis => matrix[axis] !== undefined);
+    for (const axis of axes) {
+      if (!Array.isArray(matrix[axis]) || matrix[axis]!.length === 0) {
+        throw new Error(`Batch matrix "${axis}" must be a non-empty list`);
+      }
+    }
+    const size = axes.reduce((product, axis) => product * matrix[axis]!.length, 1);
+    if (size > maxSets) {
+      throw new Error(`Batch matrix expands to ${size} sets (maximum ${maxSets})`);
+    }
+
+    sets = axes.reduce<BatchParameterSet[]>((combinations, axis) =>
+      combinations.flatMap(set => (matrix[axis] as unknown[]).map(value => ({ ...set, [axis]: value }))),
+    [{}]);
+  } else {
+    throw new Error('Batch needs a matrix of parameter sets');
+  }
+
+  if (sets.length === 0) {
+    throw new Error('Batch matrix is empty');
+  }
+  if (sets.length > maxSets) {
+    throw new Error(`Batch has ${sets.length} sets (maximum ${maxSets})`);
+  }
+  sets.forEach(validateSet);
+  return sets;
+}
+
+/**
+ * The request a set runs as: the base with the set's parameters applied.
+ */
+export function applyParameters(base: ExecutionRequest, set: BatchParameterSet, id: string): ExecutionRequest {
+  const request: ExecutionRequest = { ...base, id };
+  if (set.stdin !== undefined) request.stdin = set.stdin;
+  if (set.args !== undefined) request.args = set.args;
+  if (set.env) {
+    const context = base.projectContext ||
+      { projectId: '', workingDirectory: '.', installedPackages: [], environmentVariables: {} };
+    request.projectContext = {
+      ...context,
+      environmentVariables: { ...context.environmentVariables, ...set.env }
+    };
+  }
+  return request;
+}
+
+/**
+ * Run every set of a batch through `execute`, at most `concurrency` at a time.
+ */
+export async function runBatch(
+  id: string,
+  base: ExecutionRequest,
+  sets: BatchParameterSet[],
+  execute: (request: ExecutionRequest) => Promise<ExecutionResult>,
+  concurrency: number
+): Promise<BatchResult> {
+  const startTime = Date.now();
+  const runs: BatchRun[] = new Array(sets.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < sets.length) {
+      const index = next++;
+      const parameters = sets[index];
+      const request = applyParameters(base, parameters, `${id}-${index}`);
+      let result: ExecutionResult;
+      try {
+        result = await execute(request);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result = { id: request.id, success: false, output: '', errors: [message], exitCode: 1, executionTime: 0, memoryUsage: 0 };
+      }
+      runs[index] = { index, name: parameters.name, parameters, result };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, sets.length)) }, worker));
+  return { id, runs, summary: summarizeBatch(runs, Date.now() - startTime) };
+}
+
+export function summarizeBatch(runs: BatchRun[], wallTime: number): BatchSummary {
+  const statuses: Partial<Record<ExecutionStatus, number>> = {};
+  const outputs: Map<string, number[]> = new Map();
+
+  for (const run of runs) {
+    const status = run.result.status || (run.result.success ? 'completed' : 'failed');
+    statuses[status] = (statuses[status] || 0) + 1;
+    outputs.set(run.result.output, [...(outputs.get(run.result.output) || []), run.index]);
+  }
+
+  const times = runs.map(run => run.result.executionTime).sort((a, b) => a - b);
+  const passed = runs.filter(run => run.result.success).length;
+
+  return {
+    total: runs.length,
+    passed,
+    failed: runs.length - passed,
+    statuses,
+    cached: runs.filter(run => run.result.cached).length,
+    wallTime,
+    timing: {
+      min: times[0],
+      max: times[times.length - 1],
+      mean: Math.round(times.reduce((sum, time) => sum + time, 0) / times.length),
+      median: percentile(times, 50),
+      p95: percentile(times, 95)
+    },
+    distinctOutputs: Array.from(outputs.entries())
+      .map(([output, sets]) => ({ output, count: sets.length, sets }))
+      .sort((a, b) => b.count - a.count)
+  };
+}
+
+function validateSet(set: BatchParameterSet, index: number): void {
+  if (!set || typeof set !== 'object') {
+    throw new Error(`Batch set ${index} must be an object`);
+  }
+  if (set.stdin !== undefined && typeof set.stdin !== 'string') {
+    throw new Error(`Batch set ${index}: "stdin" must be a string`);
+  }
+  if (set.args !== undefined && !(Array.isArray(set.args) && set.args.every(arg => typeof arg === 'string'))) {
+    throw new Error(`Batch set ${index}: "args" must be a list of strings`);
+  }
+  if (set.env !== undefined &&
+      !(set.env && typeof set.env === 'object' && Object.values(set.env).every(value => typeof value === 'string'))) {
+    throw new Error(`Batch set ${index}: "env" must map names to strings`);
+  }
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
@@ -0,0 +1,136 @@
+import Docker from 'dockerode';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { ContainerPool, ContainerPoolOptions } from './containerPool';
+
+// Just enough of a Docker container for the pool: inspect, exec and remove
+class FakeContainer {
+  running = true;
+  removed = false;
+  commands: string[][] = [];
+  hold?: Promise<void>; // inspect waits for this
+
+  async inspect() {
+    await this.hold;
+    return { State: { Running: this.running } };
+  }
+
+  async exec({ Cmd }: { Cmd: string[] }) {
+    this.commands.push(Cmd);
+    return {
+      start: async () => {
+        const stream = new PassThrough();
+        stream.end();
+        return stream;
+      },
+      inspect: async () => ({ ExitCode: 0 })
+    };
+  }
+
+  async remove() {
+    this.removed = true;
+  }
+}
+
+describe('ContainerPool', () => {
+  let sandboxDir: string;
+  let created: FakeContainer[];
+  let pool: ContainerPool;
+
+  const createPool = async (options: Partial<ContainerPoolOptions> = {}) => {
+    pool = new ContainerPool(sandboxDir, async () => {
+      const container = new FakeContainer();
+      created.push(container);
+      return container as unknown as Docker.Container;
+    }, { languages: ['python'], minIdle: 1, maxSize: 2, healthCheckInterval: 60 * 60 * 1000, acquireTimeout: 1000, ...options });
+    await pool.start();
+    return pool;
+  };
+
+  beforeEach(async () => {
+    sandboxDir = await fs.mkdtemp(path.join(os.tmpdir(), 'container-pool-'));
+    created = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await pool.shutdown();
+    await fs.remove(sandboxDir);
+    jest.restoreAllMocks();
+  });
+
+  it('starts minIdle containers and reuses a released one after wiping it', async () => {
+    await createPool({ scratch: ['/tmp', '/home/runner'] });
+    expect(pool.getStatus()).toEqual({ python: { idle: 1, busy: 0 } });
+
+    const first = await pool.acquire('python');
+    await fs.writeFile(path.join(first.directory, 'main.py'), 'print(1)');
+    await pool.release(first);
+    const second = await pool.acquire('python');
+
+    expect(second).toBe(first);
+    expect(second.uses).toBe(2);
+    expect(await fs.readdir(second.directory)).toEqual([]);
+
+    const reset = created[0].commands.find(cmd => cmd[0] === 'sh')![2];
+    expect(reset).toContain('find /workspace -mindepth 1 -delete');
+    expect(reset).toContain('find /tmp -mindepth 1 -delete');
+    expect(reset).toContain('find /home/runner -mindepth 1 -delete');
+  });
+
+  it('recycles a container once it has served maxUses runs', async () => {
+    await createPool({ maxUses: 1 });
+
+    const first = await pool.acquire('python');
+    await pool.release(first);
+    const second = await pool.acquire('python');
+
+    expect(second).not.toBe(first);
+    expect(created[0].removed).toBe(true);
+  });
+
+  it('makes acquire wait for a release when the pool is full', async () => {
+    await createPool({ maxSize: 1 });
+
+    const first = await pool.acquire('python');
+    const waiting = pool.acquire('python');
+    await pool.release(first);
+
+    expect(await waiting).toBe(first);
+  });
+
+  it('keeps acquire and a sweep from handing out the same container', async () => {
+    await createPool({ minIdle: 2 });
+    const [checked, other] = created;
+
+    // The sweep stops on the least recently used container's health check
+    let finishCheck!: () => void;
+    checked.hold = new Promise(resolve => { finishCheck = resolve; });
+    pool['idle'].get('python')!.forEach(pooled => {
+      pooled.lastUsed = pooled.container as unknown as FakeContainer === checked ? 1 : 2;
+    });
+    const sweep = pool['sweep']();
+
+    const acquired = await pool.acquire('python');
+    checked.hold = undefined;
+    finishCheck();
+    await sweep;
+
+    expect(acquired.container).toBe(other);
+    expect(pool.getStatus()).toEqual({ python: { idle: 1, busy: 1 } });
+    expect(pool['idle'].get('python')!.map(pooled => pooled.container)).toEqual([checked]);
+  });
+
+  it('destroys unhealthy idle containers on a sweep and starts replacements', async () => {
+    await createPool();
+    created[0].running = false;
+
+    await pool['sweep']();
+
+    expect(created[0].removed).toBe(true);
+    expect(created).toHaveLength(2);
+    expect(pool.getStatus()).toEqual({ python: { idle: 1, busy: 0 } });
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * ♨️ Container Pool
+ *
+ * Keeps pre-started, idle containers per language so executions can `exec`
+ * into a warm container instead of paying for create/start/remove on every
+ * run. Each pooled container owns a host directory bound to the workspace;
+ * on return the workspace and scratch mounts are wiped and stray processes
+ * killed before the container is handed to the next tenant. Nothing else is
+ * wiped, so a container whose root filesystem is writable must be recycled
+ * after every run (maxUses 1). A container that can't be proven clean and
+ * healthy is destroyed instead of reused.
+ */
+
+import Docker from 'dockerode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SupportedLanguage } from './executionEngine';
+import { CONTAINER_WORKSPACE } from './workspace';
+
+export interface ContainerPoolOptions {
+  languages: SupportedLanguage[]; // languages to keep warm containers for
+  maxSize: number; // per language, idle + busy
+  minIdle: number; // per language, started ahead of demand
+  idleTimeout: number; // ms an idle container above minIdle is kept
+  maxUses: number; // tenants served before a container is recycled
+  healthCheckInterval: number; // ms between health/eviction sweeps
+  acquireTimeout: number; // ms to wait for a container when the pool is full
+  scratch: string[]; // writable mounts besides the workspace, wiped between tenants
+}
+
+export const DEFAULT_POOL_OPTIONS: ContainerPoolOptions = {
+  languages: ['javascript', 'typescript', 'python', 'go', 'rust'],
+  maxSize: 4,
+  minIdle: 1,
+  idleTimeout: 5 * 60 * 1000,
+  maxUses: 50,
+  healthCheckInterval: 30 * 1000,
+  acquireTimeout: 30 * 1000,
+  scratch: ['/tmp']
+};
+
+export interface PooledContainer {
+  id: string;
+  language: SupportedLanguage;
+  container: Docker.Container;
+  directory: string; // host directory bound to the workspace
+  createdAt: number;
+  lastUsed: number;
+  uses: number;
+  tainted: boolean; // set when a run could not be finished cleanly
+}
+
+// Creates a started container whose main process just keeps it alive
+export type PooledContainerFactory = (language: SupportedLanguage, directory: string) => Promise<Docker.Container>;
+
+// One-time preparation of a fresh container (e.g. installing a compiler)
+export type PooledContainerWarmup = (language: SupportedLanguage, container: Docker.Container) => Promise<void>;
+
+interface Waiter {
+  resolve: (pooled: PooledContainer) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Run as root inside the container between tenants
+function resetScript(scratch: string[]): string {
+  return [
+    'kill -9 -1 2>/dev/null',
+    ...[CONTAINER_WORKSPACE, ...scratch].map(directory => `find ${directory} -mindepth 1 -delete`),
+    `[ -z "$(ls -A ${CONTAINER_WORKSPACE})" ]`
+  ].join('; ');
+}
+
+export class ContainerPool {
+  private poolDir: string;
+  private options: ContainerPoolOptions;
+  private factory: PooledContainerFactory;
+  private warmup?: PooledContainerWarmup;
+  private idle: Map<SupportedLanguage, PooledContainer[]> = new Map();
+  private busy: Map<string, PooledContainer> = new Map();
+  private starting: Map<SupportedLanguage, number> = new Map();
+  private checking: Set<PooledContainer> = new Set(); // taken out of idle by a sweep
+  private waiters: Map<SupportedLanguage, Waiter[]> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    sandboxDir: string,
+    factory: PooledContainerFactory,
+    options: Partial<ContainerPoolOptions> = {},
+    warmup?: PooledContainerWarmup
+  ) {
+    this.poolDir = path.join(sandboxDir, 'pool');
+    this.factory = factory;
+    this.warmup = warmup;
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+  }
+
+  supports(language: SupportedLanguage): boolean {
+    return !this.closed && this.options.languages.includes(language);
+  }
+
+  /**
+   * Start minIdle containers per language and begin periodic sweeps.
+   */
+  async start(): Promise<void> {
+    await fs.ensureDir(this.poolDir);
+
+    await Promise.all(this.options.languages.map(language => this.fillToMinimum(language)));
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => console.warn('⚠️  Pool sweep failed:', error));
+    }, this.options.healthCheckInterval);
+    this.sweepTimer.unref();
+
+    console.log(`♨️  Container pool ready (${this.options.languages.join(', ')})`);
+  }
+
+  async acquire(language: SupportedLanguage): Promise<PooledContainer> {
+    if (!this.supports(language)) {
+      throw new Error(`Container pool does not serve ${language}`);
+    }
+
+    const idle = this.idle.get(language) || [];
+    while (idle.length > 0) {
+      const pooled = idle.pop()!;
+      if (await this.isHealthy(pooled)) {
+        return this.markBusy(pooled);
+      }
+      await this.destroy(pooled);
+    }
+
+    if (this.size(language) < this.options.maxSize) {
+      return this.markBusy(await this.createPooled(language));
+    }
+
+    // Pool is full: wait for a release
+    return new Promise<PooledContainer>((resolve, reject) => {
+      const waiters = this.waiters.get(language) || [];
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const queue = this.waiters.get(language) || [];
+          this.waiters.set(language, queue.filter(entry => entry !== waiter));
+          reject(new Error(`Timed out waiting for a pooled ${language} container`));
+        }, this.options.acquireTimeout)
+      };
+      waiters.push(waiter);
+      this.waiters.set(language, waiters);
+    });
+  }
+
+  /**
+   * Take a container back. It is reset and health-checked before anyone
+   * else can get it; if either fails it is destroyed and replaced.
+   */
+  async release(pooled: PooledContainer): Promise<void> {
+    pooled.lastUsed = Date.now();
+
+    // Still counted as busy while resetting so the pool can't overgrow
+    const reusable = !this.closed && !pooled.tainted && pooled.uses < this.options.maxUses &&
+      await this.reset(pooled) && await this.isHealthy(pooled);
+    this.busy.delete(pooled.id);
+
+    if (!reusable) {
+      await this.destroy(pooled);
+      if (!this.closed) {
+        await this.fillToMinimum(pooled.language);
+      }
+      this.serveWaiter(pooled.language);
+      return;
+    }
+
+    this.makeAvailable(pooled);
+  }
+
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+
+    for (const waiters of this.waiters.values()) {
+      for (const waiter of waiters) {
+        clearTimeout(waiter.timer);
+        waiter.reject(new Error('Container pool is shutting down'));
+      }
+    }
+    this.waiters.clear();
+
+    const all = [...Array.from(this.idle.values()).flat(), ...this.busy.values(), ...this.checking];
+    this.idle.clear();
+    this.busy.clear();
+    this.checking.clear();
+    await Promise.all(all.map(pooled => this.destroy(pooled)));
+  }
+
+  getStatus(): Record<string, { idle: number; busy: number }> {
+    const status: Record<string, { idle: number; busy: number }> = {};
+    for (const language of this.options.languages) {
+      status[language] = {
+        idle: (this.idle.get(language) || []).length,
+        busy: Array.from(this.busy.values()).filter(pooled => pooled.language === language).length
+      };
+    }
+    return status;
+  }
+
+  private async createPooled(language: SupportedLanguage): Promise<PooledContainer> {
+    const id = uuidv4();
+    const directory = path.join(this.poolDir, id);
+    await fs.ensureDir(directory);
+
+    this.starting.set(language, (this.starting.get(language) || 0) + 1);
+    try {
+      const container = await this.factory(language, directory);
+      if (this.warmup) {
+        try {
+          await this.warmup(language, container);
+        } catch (error) {
+          console.warn(`⚠️  Warm-up failed for pooled ${language} container:`, error);
+        }
+      }
+
+      const now = Date.now();
+      return { id, language, container, directory, createdAt: now, lastUsed: now, uses: 0, tainted: false };
+    } catch (error) {
+      await fs.remove(directory).catch(() => undefined);
+      throw error;
+    } finally {
+      this.starting.set(language, (this.starting.get(language) || 1) - 1);
+    }
+  }
+
+  private markBusy(pooled: PooledContainer): PooledContainer {
+    pooled.uses++;
+    pooled.lastUsed = Date.now();
+    this.busy.set(pooled.id, pooled);
+    return pooled;
+  }
+
+  private size(language: SupportedLanguage): number {
+    const busy = [...this.busy.values(), ...this.checking].filter(pooled => pooled.language === language).length;
+    return (this.idle.get(language) || []).length + busy + (this.starting.get(language) || 0);
+  }
+
+  /**
+   * Hand a clean container to the next waiter, or park it as idle.
+   */
+  private makeAvailable(pooled: PooledContainer): void {
+    const waiter = this.nextWaiter(pooled.language);
+    if (waiter) {
+      waiter.resolve(this.markBusy(pooled));
+      return;
+    }
+
+    const idle = this.idle.get(pooled.language) || [];
+    idle.push(pooled);
+    this.idle.set(pooled.language, idle);
+  }
+
+  private async fillToMinimum(language: SupportedLanguage): Promise<void> {
+    const idle = this.idle.get(language) || [];
+    this.idle.set(language, idle);
+
+    while (idle.length < this.options.minIdle && this.size(language) < this.options.maxSize) {
+      try {
+        idle.push(await this.createPooled(language));
+      } catch (error) {
+        console.warn(`⚠️  Could not start pooled ${language} container:`, error);
+        return;
+      }
+    }
+  }
+
+  private nextWaiter(language: SupportedLanguage): Waiter | undefined {
+    const waiter = (this.waiters.get(language) || []).shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+    }
+    return waiter;
+  }
+
+  /**
+   * A slot freed up by a destroyed container goes to the next waiter.
+   */
+  private serveWaiter(language: SupportedLanguage): void {
+    const waiter = this.nextWaiter(language);
+    if (!waiter) return;
+
+    this.acquire(language).then(waiter.resolve, waiter.reject);
+  }
+
+  /**
+   * Wipe everything the previous tenant could have left behind.
+   */
+  private async reset(pooled: PooledContainer): Promise<boolean> {
+    try {
+      const exitCode = await this.execQuiet(pooled.container, ['sh', '-c', resetScript(this.options.scratch)]);
+
+      // Belt and braces: the host side of the bind mount must be empty too
+      await fs.emptyDir(pooled.directory);
+      const leftovers = await fs.readdir(pooled.directory);
+
+      return exitCode === 0 && leftovers.length === 0;
+    } catch (error) {
+      console.warn('⚠️  Could not reset pooled container:', error);
+      return false;
+    }
+  }
+
+  private async isHealthy(pooled: PooledContainer): Promise<boolean> {
+    try {
+      const info = await pooled.container.inspect();
+      if (!info.State.Running) {
+        return false;
+      }
+      return await this.execQuiet(pooled.container, ['true']) === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async execQuiet(container: Docker.Container, cmd: string[]): Promise<number | null> {
+    const exec = await container.exec({ Cmd: cmd, User: 'root', AttachStdout: true, AttachStderr: true });
+    const stream = await exec.start({ hijack: true, stdin: false });
+
+    await new Promise<void>((resolve) => {
+      stream.on('end', () => resolve());
+      stream.on('error', () => resolve());
+      stream.resume();
+    });
+
+    const info = await exec.inspect();
+    return info.ExitCode;
+  }
+
+  /**
+   * Evict idle containers past their timeout (down to minIdle) and replace
+   * unhealthy ones. Each container is taken out of idle while it is checked,
+   * so acquire and release keep working on the live list meanwhile.
+   */
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+
+    for (const language of this.options.languages) {
+      // Least recently used first, so those are the ones evicted
+      const candidates = [...(this.idle.get(language) || [])].sort((a, b) => a.lastUsed - b.lastUsed);
+
+      for (const pooled of candidates) {
+        const idle = this.idle.get(language) || [];
+        const index = idle.indexOf(pooled);
+        if (this.closed || index === -1) continue; // acquired since
+
+        const expired = now - pooled.lastUsed > this.options.idleTimeout && idle.length > this.options.minIdle;
+        idle.splice(index, 1);
+        this.checking.add(pooled);
+
+        const healthy = !expired && await this.isHealthy(pooled);
+        if (!this.checking.delete(pooled)) continue; // shut down meanwhile
+
+        if (healthy) {
+          this.makeAvailable(pooled);
+        } else {
+          await this.destroy(pooled);
+          this.serveWaiter(language);
+        }
+      }
+
+      if (!this.closed) {
+        await this.fillToMinimum(language);
+      }
+    }
+  }
+
+  private async destroy(pooled: PooledContainer): Promise<void> {
+    try {
+      await pooled.container.remove({ force: true });
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        console.warn('⚠️  Could not remove pooled container:', error);
+      }
+    }
+    await fs.remove(pooled.directory).catch(() => undefined);
+  }
+}
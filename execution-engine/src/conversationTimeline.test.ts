@@ -0,0 +1,84 @@
+import { buildTimeline } from './conversationTimeline';
+import { ExecutionMemory } from './memoryIntegration';
+
+const attempt = (id: string, time: number, code: string, success: boolean, overrides: Partial<ExecutionMemory> = {}): ExecutionMemory => ({
+  executionId: id,
+  projectId: 'project',
+  timestamp: new Date(time),
+  request: { id, language: 'python', code },
+  result: { id, success, output: success ? 'ok' : '', errors: [], exitCode: success ? 0 : 1, executionTime: 10, memoryUsage: 0 },
+  aiAssistant: 'claude',
+  learningData: {
+    codePatterns: [],
+    errorPatterns: [],
+    performanceInsights: [],
+    successFactors: { workingPatterns: [], optimalDependencies: [], bestPractices: [], avoidedPitfalls: [] }
+  },
+  ...overrides
+});
+
+describe('buildTimeline', () => {
+  it('orders attempts oldest first and diffs each against the one before', () => {
+    const failed = attempt('first', 1000, 'print(totl)', false, {
+      learningData: {
+        ...attempt('first', 1000, '', false).learningData,
+        errorPatterns: [1, 2].map(() => ({
+          errorType: 'NameError',
+          errorMessage: "NameError: name 'totl' is not defined",
+          signature: 'NameError: name <id> is not defined',
+          codeContext: '',
+          frequency: 1,
+          solutions: [],
+          preventionTips: []
+        }))
+      }
+    });
+    const fixed = attempt('second', 2000, 'print(total)', true);
+
+    const timeline = buildTimeline('conversation', [fixed, failed]);
+
+    expect(timeline.attempts.map(entry => [entry.attempt, entry.executionId])).toEqual([[1, 'first'], [2, 'second']]);
+    expect(timeline.attempts[0]).toMatchObject({
+      outcome: { success: false, status: 'failed', exitCode: 1, errors: ['NameError: name <id> is not defined'] },
+      changes: undefined
+    });
+    expect(timeline.attempts[1].changes!.code).toMatchObject({ changed: true, added: 1, removed: 1 });
+    expect(timeline.attempts[1].changes!.comparison.exitCode).toEqual({ before: 1, after: 0, changed: true });
+    expect(timeline.summary).toEqual({
+      attempts: 2,
+      successes: 1,
+      failures: 1,
+      firstAttemptAt: new Date(1000),
+      lastAttemptAt: new Date(2000),
+      resolved: true,
+      lastSuccessfulExecutionId: 'second'
+    });
+  });
+
+  it('lists the files added, removed and edited between attempts', () => {
+    const before = attempt('before', 1000, 'import lib', false, { request: { id: 'before', language: 'python', code: 'import lib', files: { 'lib.py': 'x = 1', 'old.py': '' } } });
+    const after = attempt('after', 2000, 'import lib', false, { request: { id: 'after', language: 'python', code: 'import lib', files: { 'lib.py': 'x = 2', 'new.py': '' } } });
+
+    const { attempts, summary } = buildTimeline('conversation', [before, after], true);
+
+    expect(attempts[1].changes!.files).toEqual({ added: ['new.py'], removed: ['old.py'], changed: ['lib.py'] });
+    expect(attempts[1].changes!.code.changed).toBe(false);
+    expect(summary).toMatchObject({ resolved: false, lastSuccessfulExecutionId: undefined });
+  });
+
+  it('breaks timestamp ties by execution id and reports truncation', () => {
+    const timeline = buildTimeline('conversation', [attempt('b', 1000, '', true), attempt('a', 1000, '', true)], true);
+
+    expect(timeline.attempts.map(entry => entry.executionId)).toEqual(['a', 'b']);
+    expect(timeline.truncated).toBe(true);
+  });
+
+  it('describes a conversation without attempts', () => {
+    expect(buildTimeline('empty', [])).toEqual({
+      conversationId: 'empty',
+      attempts: [],
+      truncated: false,
+      summary: { attempts: 0, successes: 0, failures: 0, firstAttemptAt: undefined, lastAttemptAt: undefined, resolved: false, lastSuccessfulExecutionId: undefined }
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * 🧵 Conversation Timeline
+ *
+ * An assistant fixing code runs it, reads the result and runs it again.
+ * Requests that name their `conversationId` (and `aiAssistant`) are linked
+ * to that conversation in execution memory, and the conversation's
+ * timeline replays those attempts in order: what each one ran, how it went,
+ * and what changed since the attempt before it — a line diff of the code,
+ * the files added, removed or edited, and the comparison of the two
+ * results (see differentialExecution.ts). A new conversation can read the
+ * timeline of an earlier one and carry on from its last attempt.
+ */
+
+import { SupportedLanguage } from './executionEngine';
+import { compareExecutions, diffLines, ExecutionComparison, TextDiff } from './differentialExecution';
+import { ExecutionStatus } from './executionTracker';
+import { ExecutionMemory } from './memoryIntegration';
+
+export interface AttemptOutcome {
+  success: boolean;
+  status: ExecutionStatus;
+  exitCode: number;
+  executionTime: number;
+  output: string;
+  errors: string[]; // error signatures
+}
+
+export interface AttemptChanges {
+  code: TextDiff;
+  files: { added: string[]; removed: string[]; changed: string[] };
+  comparison: ExecutionComparison;
+}
+
+export interface TimelineAttempt {
+  attempt: number; // 1 for the first attempt shown
+  executionId: string;
+  timestamp: Date;
+  aiAssistant: string;
+  language: SupportedLanguage;
+  code: string;
+  files?: Record<string, string>;
+  outcome: AttemptOutcome;
+  changes?: AttemptChanges; // since the previous attempt
+}
+
+export interface ConversationTimeline {
+  conversationId: string;
+  attempts: TimelineAttempt[]; // oldest first
+  truncated: boolean; // earlier attempts were left out
+  summary: {
+    attempts: number;
+    successes: number;
+    failures: number;
+    firstAttemptAt?: Date;
+    lastAttemptAt?: Date;
+    resolved: boolean; // the latest attempt succeeded
+    lastSuccessfulExecutionId?: string;
+  };
+}
+
+/**
+ * The timeline of a conversation from its executions, in any order.
+ */
+export function buildTimeline(conversationId: string, executions: ExecutionMemory[], truncated: boolean = false): ConversationTimeline {
+  const ordered = [...executions].sort((a, b) =>
+    a.timestamp.getTime() - b.timestamp.getTime() || a.executionId.localeCompare(b.executionId)
+  );
+
+  const attempts = ordered.map((execution, index): TimelineAttempt => {
+    const previous = ordered[index - 1];
+    return {
+      attempt: index + 1,
+      executionId: execution.executionId,
+      timestamp: execution.timestamp,
+      aiAssistant: execution.aiAssistant,
+      language: execution.request.language,
+      code: execution.request.code,
+      files: execution.request.files,
+      outcome: outcomeOf(execution),
+      changes: previous ? changesBetween(previous, execution) : undefined
+    };
+  });
+
+  const successes = attempts.filter(attempt => attempt.outcome.success);
+  return {
+    conversationId,
+    attempts,
+    truncated,
+    summary: {
+      attempts: attempts.length,
+      successes: successes.length,
+      failures: attempts.length - successes.length,
+      firstAttemptAt: attempts[0]?.timestamp,
+      lastAttemptAt: attempts[attempts.length - 1]?.timestamp,
+      resolved: attempts.length > 0 && attempts[attempts.length - 1].outcome.success,
+      lastSuccessfulExecutionId: successes[successes.length - 1]?.executionId
+    }
+  };
+}
+
+function outcomeOf(execution: ExecutionMemory): AttemptOutcome {
+  const { result } = execution;
+  return {
+    success: result.success,
+    status: result.status || (result.success ? 'completed' : 'failed'),
+    exitCode: result.exitCode,
+    executionTime: result.executionTime,
+    output: result.output,
+    errors: [...new Set(execution.learningData.errorPatterns.map(error => error.signature || error.errorMessage))]
+  };
+}
+
+function changesBetween(before: ExecutionMemory, after: ExecutionMemory): AttemptChanges {
+  const beforeFiles = before.request.files || {};
+  const afterFiles = after.request.files || {};
+
+  return {
+    code: diffLines(before.request.code, after.request.code),
+    files: {
+      added: Object.keys(afterFiles).filter(name => !(name in beforeFiles)),
+      removed: Object.keys(beforeFiles).filter(name => !(name in afterFiles)),
+      changed: Object.keys(afterFiles).filter(name => name in beforeFiles && beforeFiles[name] !== afterFiles[name])
+    },
+    comparison: compareExecutions(before.result, after.result)
+  };
+}
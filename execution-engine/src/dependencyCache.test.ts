@@ -0,0 +1,114 @@
+import Docker from 'dockerode';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Writable } from 'stream';
+import { DependencyCache } from './dependencyCache';
+import { SupportedLanguage } from './executionEngine';
+
+// Just enough of Docker for populate: a container whose output is `output`
+const fakeDocker = (output: string) => ({
+  modem: {
+    demuxStream: (stream: PassThrough, stdout: Writable) => stream.pipe(stdout)
+  },
+  async createContainer() {
+    const stream = new PassThrough();
+    return {
+      attach: async () => stream,
+      start: async () => {
+        stream.end(output);
+      },
+      wait: async () => {
+        await new Promise(resolve => stream.on('end', resolve));
+        return { StatusCode: 0 };
+      },
+      remove: async () => undefined
+    };
+  }
+}) as unknown as Docker;
+
+describe('DependencyCache', () => {
+  let cacheDir: string;
+  let cache: DependencyCache;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-cache-'));
+    cache = new DependencyCache(cacheDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+    jest.restoreAllMocks();
+  });
+
+  describe('parse', () => {
+    it.each([
+      ['python', 'Flask_Login==0.6.3', { manager: 'pip', name: 'flask-login', version: '0.6.3' }],
+      ['python', 'requests[socks] >= 2', { manager: 'pip', name: 'requests', version: '>=2' }],
+      ['python', 'numpy', { manager: 'pip', name: 'numpy', version: undefined }],
+      ['javascript', '@scope/pkg@1.0.0', { manager: 'npm', name: '@scope/pkg', version: '1.0.0' }],
+      ['javascript', '@scope/pkg', { manager: 'npm', name: '@scope/pkg', version: undefined }],
+      ['go', 'github.com/x/y@v1.2.3', { manager: 'go', name: 'github.com/x/y', version: 'v1.2.3' }],
+      ['rust', 'serde=1.0', { manager: 'cargo', name: 'serde', version: '1.0' }]
+    ])('reads %s dependency %j', (language, raw, spec) => {
+      expect(cache.parse(language as SupportedLanguage, [raw])).toEqual([{ ...spec, raw: raw.trim() }]);
+    });
+  });
+
+  describe('findMissing', () => {
+    beforeEach(async () => {
+      await fs.writeJson(path.join(cacheDir, 'index.json'), { pip: { requests: ['2.31.0'] }, npm: { lodash: ['*'] } });
+    });
+
+    it('reports an exact version that is not cached', async () => {
+      expect(await cache.findMissing('python', ['requests==2.31.0', 'requests==2.32.0'])).toEqual([{
+        manager: 'pip',
+        name: 'requests',
+        version: '2.32.0',
+        reason: 'not-cached',
+        message: 'pip package requests==2.32.0 is not in the offline dependency cache ' +
+          '(populate it with: npm run cache:populate -- python requests==2.32.0)'
+      }]);
+    });
+
+    it('accepts a range or bare name when some version is cached', async () => {
+      expect(await cache.findMissing('python', ['requests>=2', 'requests'])).toEqual([]);
+      expect(await cache.findMissing('javascript', ['lodash@4.17.21'])).toEqual([]);
+      expect((await cache.findMissing('python', ['flask>=2'])).map(error => error.reason)).toEqual(['not-cached']);
+    });
+
+    it('rejects a spec it cannot read', async () => {
+      expect(await cache.findMissing('javascript', ['left pad'])).toEqual([expect.objectContaining({
+        name: 'left pad',
+        reason: 'invalid-spec'
+      })]);
+    });
+  });
+
+  describe('populate', () => {
+    it('indexes the versions that were resolved and downloaded', async () => {
+      await fs.outputFile(path.join(cacheDir, 'pip', 'Requests-2.31.0-py3-none-any.whl'), '');
+      await fs.outputFile(path.join(cacheDir, 'pip', 'idna-3.6.tar.gz'), '');
+
+      const { added } = await cache.populate(fakeDocker(''), 'python:3.11-alpine', 'python', ['requests>=2']);
+
+      expect(added).toEqual({ requests: ['2.31.0'], idna: ['3.6'] });
+      expect(await cache.readIndex()).toEqual({ pip: { requests: ['2.31.0'], idna: ['3.6'] } });
+    });
+
+    it('records a range it could not resolve as some version, not as the range', async () => {
+      const { added } = await cache.populate(fakeDocker(''), 'python:3.11-alpine', 'python', ['flask>=2', 'click==8.1.7']);
+
+      expect(added).toEqual({ flask: ['*'], click: ['8.1.7'] });
+    });
+
+    it('takes resolved versions from the script output', async () => {
+      const output = 'CODECONTEXT_RESOLVED populate 0.1.0\nCODECONTEXT_RESOLVED serde 1.0.190\n';
+
+      const { added } = await cache.populate(fakeDocker(output), 'rust:1.70-alpine', 'rust', ['serde']);
+
+      expect(added).toEqual({ serde: ['1.0.190'] });
+    });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * 📦 Dependency Cache
+ *
+ * Execution containers run with `NetworkMode: 'none'`, so dependencies can
+ * only come from a local mirror. This module owns that mirror:
+ *
+ *   <cacheDir>/npm          npm cache (cacache), filled by a real npm install
+ *   <cacheDir>/pip          downloaded wheels / sdists
+ *   <cacheDir>/go           GOMODCACHE, served back as a file:// GOPROXY
+ *   <cacheDir>/cargo/vendor `cargo vendor --versioned-dirs` output
+ *   <cacheDir>/index.json   what has been populated, per package manager
+ *
+ * The mirror is populated ahead of time by an admin command (see
+ * dependencyCacheCli.ts), which is the only thing that ever runs with a
+ * network. Containers mount it read-only and install from it offline.
+ */
+
+import Docker from 'dockerode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { SupportedLanguage } from './executionEngine';
+import { runtimeRegistry } from './languageRuntime';
+
+export type PackageManager = 'npm' | 'pip' | 'go' | 'cargo';
+
+export interface DependencySpec {
+  manager: PackageManager;
+  name: string;
+  version?: string; // exact version or range as given by the caller
+  raw: string;
+}
+
+export interface DependencyError {
+  manager: PackageManager;
+  name: string;
+  version?: string;
+  reason: 'not-cached' | 'invalid-spec';
+  message: string;
+}
+
+export type DependencyIndex = Partial<Record<PackageManager, Record<string, string[]>>>;
+
+// Where the cache is mounted inside execution containers
+export const CONTAINER_CACHE_DIR = '/opt/codecontext/deps';
+
+const INDEX_FILE = 'index.json';
+const ANY_VERSION = '*';
+
+// A pinned version rather than a range
+function isExactVersion(version: string | undefined): version is string {
+  return version !== undefined && /^v?\d+(\.\d+)*([-+][\w.-]+)?$/.test(version);
+}
+
+export class DependencyCache {
+  private cacheDir: string;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = path.resolve(cacheDir);
+    fs.ensureDirSync(this.cacheDir);
+  }
+
+  static managerFor(language: SupportedLanguage): PackageManager {
+    const manager = runtimeRegistry.get(language).packageManager;
+    if (!manager) {
+      throw new Error(`No package manager for language: ${language}`);
+    }
+    return manager;
+  }
+
+  parse(language: SupportedLanguage, dependencies: string[]): DependencySpec[] {
+    if (dependencies.length === 0) {
+      return [];
+    }
+    const manager = DependencyCache.managerFor(language);
+
+    return dependencies.map(raw => {
+      const spec = raw.trim();
+      let match: RegExpMatchArray | null;
+
+      switch (manager) {
+        case 'pip':
+          // requests, requests==2.31.0, requests>=2
+          match = spec.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(?:(==|>=|<=|~=|!=|>|<)\s*(.+))?$/);
+          return match
+            ? { manager, name: this.normalizePipName(match[1]), version: match[2] === '==' ? match[3] : match[3] && `${match[2]}${match[3]}`, raw: spec }
+            : { manager, name: spec, raw: spec };
+        case 'cargo':
+          // serde, serde@1.0.190, serde=1.0
+          match = spec.match(/^([A-Za-z0-9_-]+)(?:[@=](.+))?$/);
+          return { manager, name: match ? match[1] : spec, version: match?.[2], raw: spec };
+        default: {
+          // lodash, lodash@4.17.21, @scope/pkg@1.0.0, github.com/x/y@v1.2.3
+          const at = spec.lastIndexOf('@');
+          return at > 0
+            ? { manager, name: spec.slice(0, at), version: spec.slice(at + 1), raw: spec }
+            : { manager, name: spec, raw: spec };
+        }
+      }
+    });
+  }
+
+  /**
+   * Dependencies the mirror can't satisfy. Exact versions must have been
+   * populated; ranges only need some version of the package to be present
+   * (the offline install resolves the range and fails loudly if it can't).
+   */
+  async findMissing(language: SupportedLanguage, dependencies: string[]): Promise<DependencyError[]> {
+    const index = await this.readIndex();
+    const errors: DependencyError[] = [];
+
+    for (const spec of this.parse(language, dependencies)) {
+      if (!spec.name || /\s/.test(spec.name)) {
+        errors.push({
+          manager: spec.manager,
+          name: spec.raw,
+          reason: 'invalid-spec',
+          message: `Invalid ${spec.manager} dependency: ${JSON.stringify(spec.raw)}`
+        });
+        continue;
+      }
+
+      const cached = index[spec.manager]?.[spec.name] || [];
+      const satisfied = isExactVersion(spec.version)
+        ? cached.includes(spec.version) || cached.includes(ANY_VERSION)
+        : cached.length > 0;
+
+      if (!satisfied) {
+        errors.push({
+          manager: spec.manager,
+          name: spec.name,
+          version: spec.version,
+          reason: 'not-cached',
+          message: `${spec.manager} package ${spec.raw} is not in the offline dependency cache ` +
+            `(populate it with: npm run cache:populate -- ${language} ${spec.raw})`
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  getBinds(): string[] {
+    return [`${this.cacheDir.replace(/\\/g, '/')}:${CONTAINER_CACHE_DIR}:ro`];
+  }
+
+  /**
+   * Environment that points each package manager at the mounted mirror and
+   * keeps it from trying the network.
+   */
+  getEnvironment(language: SupportedLanguage): string[] {
+    switch (runtimeRegistry.get(language).packageManager) {
+      case 'npm':
+        return [
+          `npm_config_cache=${CONTAINER_CACHE_DIR}/npm`,
+          'npm_config_offline=true',
+          'npm_config_audit=false',
+          'npm_config_fund=false',
+          'npm_config_update_notifier=false',
+          'npm_config_logs_dir=/tmp/npm-logs'
+        ];
+      case 'pip':
+        return [
+          'PIP_NO_INDEX=1',
+          `PIP_FIND_LINKS=${CONTAINER_CACHE_DIR}/pip`,
+          'PIP_DISABLE_PIP_VERSION_CHECK=1'
+        ];
+      case 'go':
+        return [
+          `GOPROXY=file://${CONTAINER_CACHE_DIR}/go/cache/download`,
+          'GOSUMDB=off',
+          'GOFLAGS=-mod=mod'
+        ];
+      case 'cargo':
+        return ['CARGO_NET_OFFLINE=true'];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * `.cargo/config.toml` that replaces crates.io with the vendored mirror.
+   */
+  getCargoConfig(): string {
+    return [
+      '[source.crates-io]',
+      'replace-with = "codecontext-vendor"',
+      '',
+      '[source.codecontext-vendor]',
+      `directory = "${CONTAINER_CACHE_DIR}/cargo/vendor"`,
+      '',
+      '[net]',
+      'offline = true',
+      ''
+    ].join('\n');
+  }
+
+  async readIndex(): Promise<DependencyIndex> {
+    try {
+      return await fs.readJson(path.join(this.cacheDir, INDEX_FILE));
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Admin only: download dependencies into the mirror. Runs a throwaway
+   * container of the same image the executions use, with network access
+   * and the cache mounted read-write.
+   */
+  async populate(
+    docker: Docker,
+    image: string,
+    language: SupportedLanguage,
+    dependencies: string[]
+  ): Promise<{ manager: PackageManager; added: Record<string, string[]> }> {
+    const specs = this.parse(language, dependencies);
+    const manager = DependencyCache.managerFor(language);
+    const invalid = specs.filter(spec => !spec.name || /\s/.test(spec.name));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid dependencies: ${invalid.map(spec => spec.raw).join(', ')}`);
+    }
+
+    await fs.ensureDir(path.join(this.cacheDir, manager));
+    const output = await this.runPopulateContainer(docker, image, this.getPopulateScript(manager), specs.map(spec => spec.raw));
+    const added = await this.resolvePopulated(manager, specs, output);
+
+    const index = await this.readIndex();
+    const entries = index[manager] || {};
+    for (const [name, versions] of Object.entries(added)) {
+      entries[name] = Array.from(new Set([...(entries[name] || []), ...versions])).sort();
+    }
+    index[manager] = entries;
+    await fs.writeJson(path.join(this.cacheDir, INDEX_FILE), index, { spaces: 2 });
+
+    return { manager, added };
+  }
+
+  /**
+   * Shell scripts that fill the mirror; dependencies arrive as "$@". Each
+   * prints `CODECONTEXT_RESOLVED <name> <version>` lines for the index.
+   */
+  private getPopulateScript(manager: PackageManager): string {
+    switch (manager) {
+      case 'npm':
+        return [
+          'set -e',
+          'mkdir -p /tmp/populate && cd /tmp/populate',
+          'npm init -y >/dev/null',
+          'npm install --cache /cache/npm --no-audit --no-fund "$@"',
+          // Record every package in the tree, since offline installs need all of them
+          `node -e "const lock=require('./package-lock.json');for(const [p,m] of Object.entries(lock.packages||{})){if(p&&m.version)console.log('CODECONTEXT_RESOLVED',p.split('node_modules/').pop(),m.version)}"`
+        ].join('\n');
+      case 'pip':
+        return [
+          'set -e',
+          'pip download --disable-pip-version-check -d /cache/pip "$@"'
+        ].join('\n');
+      case 'go':
+        return [
+          'set -e',
+          'export GOMODCACHE=/cache/go GOFLAGS=-modcacherw',
+          'mkdir -p /tmp/populate && cd /tmp/populate',
+          'go mod init populate >/dev/null 2>&1',
+          'go get "$@"',
+          'go list -m all | tail -n +2 | while read -r mod version _; do echo "CODECONTEXT_RESOLVED $mod $version"; done'
+        ].join('\n');
+      case 'cargo':
+        return [
+          'set -e',
+          'mkdir -p /tmp/populate/src && cd /tmp/populate',
+          'printf \'[package]\\nname = "populate"\\nversion = "0.1.0"\\nedition = "2021"\\n\\n[dependencies]\\n\' > Cargo.toml',
+          'echo "fn main() {}" > src/main.rs',
+          'for dep in "$@"; do name=${dep%%[@=]*}; version=${dep#"$name"}; version=${version#?}; echo "$name = \\"${version:-*}\\"" >> Cargo.toml; done',
+          'cargo vendor --versioned-dirs --no-delete /cache/cargo/vendor >/dev/null',
+          'cargo metadata --format-version 1 --offline >/tmp/metadata.json 2>/dev/null || cargo metadata --format-version 1 >/tmp/metadata.json',
+          'grep -o \'"name":"[^"]*","version":"[^"]*"\' /tmp/metadata.json | sed \'s/"name":"\\([^"]*\\)","version":"\\([^"]*\\)"/CODECONTEXT_RESOLVED \\1 \\2/\''
+        ].join('\n');
+    }
+  }
+
+  private async resolvePopulated(
+    manager: PackageManager,
+    specs: DependencySpec[],
+    output: string
+  ): Promise<Record<string, string[]>> {
+    const added: Record<string, string[]> = {};
+    const add = (name: string, version: string) => {
+      added[name] = Array.from(new Set([...(added[name] || []), version]));
+    };
+
+    for (const line of output.split('\n')) {
+      const match = line.match(/^CODECONTEXT_RESOLVED (\S+) (\S+)/);
+      if (match && match[1] !== 'populate') add(match[1], match[2]);
+    }
+
+    if (manager === 'pip') {
+      // Versions come from the downloaded file names: name-version(-tags).whl / name-version.tar.gz
+      for (const file of await fs.readdir(path.join(this.cacheDir, 'pip'))) {
+        const match = file.match(/^([A-Za-z0-9._]+?)-(\d[^-]*?)(?:-[^-]+-[^-]+-[^-]+\.whl|\.tar\.gz|\.zip)$/);
+        if (match) add(this.normalizePipName(match[1]), match[2]);
+      }
+    }
+
+    // Anything requested but not resolved above still got downloaded in some
+    // form; a range says nothing about which version that was
+    for (const spec of specs) {
+      if (!added[spec.name]) {
+        add(spec.name, isExactVersion(spec.version) ? spec.version : ANY_VERSION);
+      }
+    }
+
+    return added;
+  }
+
+  private async runPopulateContainer(docker: Docker, image: string, script: string, args: string[]): Promise<string> {
+    console.log(`📦 Populating dependency cache with image: ${image}`);
+
+    const container = await docker.createContainer({
+      Image: image,
+      Cmd: ['sh', '-c', script, 'sh', ...args],
+      HostConfig: {
+        Binds: [`${this.cacheDir.replace(/\\/g, '/')}:/cache`]
+      }
+    });
+
+    let output = '';
+    try {
+      const stream = await container.attach({ stream: true, stdout: true, stderr: true });
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      stdout.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+      stderr.on('data', (chunk: Buffer) => process.stderr.write(chunk));
+      docker.modem.demuxStream(stream, stdout, stderr);
+
+      await container.start();
+      const result = await container.wait();
+      if (result.StatusCode !== 0) {
+        throw new Error(`Dependency download failed with exit code ${result.StatusCode}`);
+      }
+      return output;
+    } finally {
+      await container.remove({ force: true }).catch(() => undefined);
+    }
+  }
+
+  private normalizePipName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+}
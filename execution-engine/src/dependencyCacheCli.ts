@@ -0,0 +1,59 @@
+/**
+ * 📦 Dependency Cache Admin Command
+ *
+ * Fills the offline dependency mirror that execution containers install
+ * from. This is the only step that downloads anything.
+ *
+ *   npm run cache:populate -- <language> <dependency...>
+ *   npm run cache:list
+ *
+ * The mirror lives in CODECONTEXT_DEPENDENCY_CACHE (default ./dependency-cache).
+ */
+
+import Docker from 'dockerode';
+import { DependencyCache } from './dependencyCache';
+import { DEFAULT_DEPENDENCY_CACHE_DIR, SupportedLanguage } from './executionEngine';
+import { runtimeRegistry } from './languageRuntime';
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+  const cache = new DependencyCache(process.env.CODECONTEXT_DEPENDENCY_CACHE || DEFAULT_DEPENDENCY_CACHE_DIR);
+
+  switch (command) {
+    case 'populate': {
+      const [language, ...dependencies] = args as [SupportedLanguage, ...string[]];
+      const languages = runtimeRegistry.list().filter(runtime => runtime.packageManager).map(runtime => runtime.language);
+      if (!language || !languages.includes(language) || dependencies.length === 0) {
+        throw new Error(`Usage: populate <${languages.join('|')}> <dependency...>`);
+      }
+
+      const { manager, added } = await cache.populate(new Docker(), runtimeRegistry.get(language).image, language, dependencies);
+      console.log(`✅ Cached ${Object.keys(added).length} ${manager} package(s):`);
+      for (const [name, versions] of Object.entries(added)) {
+        console.log(`   ${name} ${versions.join(', ')}`);
+      }
+      break;
+    }
+
+    case 'list': {
+      const index = await cache.readIndex();
+      for (const [manager, packages] of Object.entries(index)) {
+        console.log(`${manager}:`);
+        for (const [name, versions] of Object.entries(packages || {})) {
+          console.log(`   ${name} ${versions.join(', ')}`);
+        }
+      }
+      break;
+    }
+
+    default:
+      throw new Error('Usage: dependencyCacheCli <populate|list> [...]');
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error('💥 Dependency cache command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { diagnoseExecution, parseDiagnostics, readPhaseOutcome, renderLog } from './diagnostics';
+
+describe('parseDiagnostics', () => {
+  it('reads tsc errors', () => {
+    const output = "main.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.";
+
+    expect(parseDiagnostics(output, 'compile', ['tsc'], true)).toEqual([{
+      phase: 'compile',
+      file: 'main.ts',
+      line: 3,
+      column: 7,
+      severity: 'error',
+      code: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'."
+    }]);
+  });
+
+  it('takes the first user frame of a V8 stack trace and strips the workspace root', () => {
+    const output = [
+      'ReferenceError: total is not defined',
+      '    at sum (/workspace/src/main.js:4:3)',
+      '    at node:internal/main/run_main_module:28:49'
+    ].join('\n');
+
+    expect(parseDiagnostics(output, 'run', ['v8'], true, { roots: ['/workspace'] })).toEqual([{
+      phase: 'run',
+      file: 'src/main.js',
+      line: 4,
+      column: 3,
+      severity: 'error',
+      code: 'ReferenceError',
+      message: 'ReferenceError: total is not defined'
+    }]);
+  });
+
+  it('reads Python tracebacks and syntax error carets', () => {
+    const traceback = [
+      'Traceback (most recent call last):',
+      '  File "/tmp/run-1/main.py", line 8, in <module>',
+      '    main()',
+      '  File "/tmp/run-1/lib.py", line 2, in main',
+      '    return totl',
+      "NameError: name 'totl' is not defined"
+    ].join('\n');
+    const syntax = ['  File "main.py", line 1', '    print(1', '         ^', "SyntaxError: '(' was never closed"].join('\n');
+
+    expect(parseDiagnostics(traceback, 'run', ['python'], true, { roots: ['/tmp/run-1'] })).toEqual([{
+      phase: 'run',
+      file: 'lib.py',
+      line: 2,
+      column: undefined,
+      severity: 'error',
+      code: 'NameError',
+      message: "NameError: name 'totl' is not defined"
+    }]);
+    expect(parseDiagnostics(syntax, 'run', ['python'], true)[0]).toMatchObject({ file: 'main.py', line: 1, column: 6 });
+  });
+
+  it('resolves go and gcc file names against the working directory', () => {
+    const go = parseDiagnostics('./main.go:5:2: undefined: x', 'compile', ['go'], true, { cwd: 'app' });
+    const gcc = parseDiagnostics('util.c:3:1: warning: unused variable\nutil.c:3:1: in function main', 'compile', ['gcc'], true, { cwd: 'app' });
+
+    expect([...go, ...gcc].map(d => [d.file, d.line, d.severity, d.message])).toEqual([
+      ['app/main.go', 5, 'error', 'undefined: x'],
+      ['app/util.c', 3, 'warning', 'unused variable']
+    ]);
+  });
+
+  it('reads rustc messages, bare or wrapped by cargo, using the primary span', () => {
+    const message = {
+      message: 'cannot find value `x` in this scope',
+      level: 'error',
+      code: { code: 'E0425' },
+      spans: [
+        { file_name: 'src/lib.rs', line_start: 1, column_start: 1, is_primary: false },
+        { file_name: 'src/main.rs', line_start: 3, column_start: 13, is_primary: true }
+      ],
+      rendered: 'error[E0425]: cannot find value `x` in this scope\n'
+    };
+    const output = [
+      JSON.stringify({ reason: 'compiler-message', message }),
+      JSON.stringify({ reason: 'build-finished', success: false }),
+      JSON.stringify({ message: 'aborting due to 1 previous error', level: 'error', spans: [] })
+    ].join('\n');
+
+    expect(parseDiagnostics(output, 'compile', ['rustc-json'], true)).toEqual([{
+      phase: 'compile',
+      file: 'src/main.rs',
+      line: 3,
+      column: 13,
+      severity: 'error',
+      code: 'E0425',
+      message: 'cannot find value `x` in this scope'
+    }]);
+    expect(renderLog(output)).toBe('error[E0425]: cannot find value `x` in this scope\n' +
+      JSON.stringify({ message: 'aborting due to 1 previous error', level: 'error', spans: [] }));
+  });
+
+  it('falls back to the last line of a failed phase nothing could parse', () => {
+    expect(parseDiagnostics('npm ERR! code E404\nnpm ERR! 404 Not Found\n', 'install', ['v8'], true))
+      .toEqual([{ phase: 'install', severity: 'error', message: 'npm ERR! 404 Not Found' }]);
+    expect(parseDiagnostics('all good\n', 'install', ['v8'], false)).toEqual([]);
+  });
+});
+
+describe('diagnoseExecution', () => {
+  let logDir: string;
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diagnostics-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(logDir);
+  });
+
+  it('attributes a failure to the phase the run script reached', async () => {
+    await fs.writeFile(path.join(logDir, 'phase'), 'compile\n');
+    await fs.writeFile(path.join(logDir, 'compile.log'), './main.go:5:2: undefined: x\n');
+
+    const outcome = await readPhaseOutcome(logDir);
+    const diagnosis = diagnoseExecution({ formats: ['go'], outcome, stderr: 'ignored: never ran', exitCode: 1 });
+
+    expect(outcome).toEqual({ phase: 'compile', logs: { compile: './main.go:5:2: undefined: x\n' } });
+    expect(diagnosis.failedPhase).toBe('compile');
+    expect(diagnosis.failedPhaseOutput).toBe('./main.go:5:2: undefined: x');
+    expect(diagnosis.diagnostics.map(diagnostic => diagnostic.message)).toEqual(['undefined: x']);
+  });
+
+  it('reports failed tests as test diagnostics', async () => {
+    const diagnosis = diagnoseExecution({
+      formats: ['python'],
+      outcome: await readPhaseOutcome(logDir),
+      stderr: '',
+      exitCode: 0,
+      testResults: [
+        { name: 'test_add', passed: true, output: '', duration: 1 },
+        { name: 'test_sub', passed: false, output: '', error: 'AssertionError: 1 != 2', duration: 1 }
+      ]
+    });
+
+    expect(diagnosis.failedPhase).toBeUndefined();
+    expect(diagnosis.diagnostics).toEqual([{ phase: 'test', severity: 'error', code: 'test_sub', message: 'AssertionError: 1 != 2' }]);
+  });
+});
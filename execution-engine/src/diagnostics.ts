@@ -0,0 +1,431 @@
+/**
+ * 🩺 Diagnostics
+ *
+ * Turns compiler and interpreter output into structured Diagnostics, so
+ * callers don't have to grep stderr. Each runtime names the formats its
+ * tools speak (see LanguageRuntime.diagnostics):
+ *
+ *   tsc         main.ts(3,7): error TS2322: ...
+ *   v8          ReferenceError: x is not defined / at f (/workspace/main.js:3:5)
+ *   python      Traceback ... File "main.py", line 3 ... NameError: ...
+ *   go          ./main.go:5:2: undefined: x
+ *   gcc         main.c:5:2: error: ... (gcc, clang and javac)
+ *   rustc-json  rustc --error-format=json / cargo --message-format=json
+ *
+ * The run script records which phase it reached and keeps install and
+ * compile output in log files next to the test files, so a failure can be
+ * attributed to the phase it happened in.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, ExecutionPhase, TestResult } from './executionEngine';
+
+export type DiagnosticFormat = 'tsc' | 'v8' | 'python' | 'go' | 'gcc' | 'rustc-json';
+
+// Written by the run script into the reserved workspace directory
+export const PHASE_FILE = 'phase';
+export const PHASE_LOGS: Partial<Record<ExecutionPhase, string>> = {
+  install: 'install.log',
+  compile: 'compile.log'
+};
+
+export interface PhaseOutcome {
+  phase: ExecutionPhase; // the last phase the script started
+  logs: Partial<Record<ExecutionPhase, string>>;
+}
+
+export interface DiagnosticOptions {
+  // Absolute prefixes (workspace mount, temp project dir) stripped from file names
+  roots?: string[];
+  // Working directory relative to the project root; relative file names are resolved against it
+  cwd?: string;
+}
+
+export interface ExecutionOutput {
+  formats: DiagnosticFormat[];
+  outcome: PhaseOutcome;
+  stderr: string;
+  exitCode: number;
+  testResults?: TestResult[];
+}
+
+export interface ExecutionDiagnosis {
+  diagnostics: Diagnostic[];
+  failedPhase?: ExecutionPhase;
+  failedPhaseOutput?: string; // readable log of a failed install/compile phase
+}
+
+// rustc --error-format=json output, one message per line
+interface RustcMessage {
+  message: string;
+  level: string;
+  code?: { code: string } | null;
+  spans?: RustcSpan[];
+  rendered?: string | null;
+}
+
+interface RustcSpan {
+  file_name: string;
+  line_start: number;
+  column_start: number;
+  is_primary: boolean;
+}
+
+// cargo --message-format=json wraps rustc's messages in its own events
+interface CargoEvent {
+  reason: string;
+  message?: RustcMessage;
+}
+
+const MAX_DIAGNOSTICS = 50;
+
+/**
+ * Read which phase the run script got to and the output of the phases
+ * that log to files.
+ */
+export async function readPhaseOutcome(logDir: string): Promise<PhaseOutcome> {
+  const logs: Partial<Record<ExecutionPhase, string>> = {};
+  let phase: ExecutionPhase = 'run';
+
+  try {
+    const recorded = (await fs.readFile(path.join(logDir, PHASE_FILE), 'utf8')).trim();
+    if (recorded === 'install' || recorded === 'compile' || recorded === 'run') {
+      phase = recorded;
+    }
+  } catch {
+    // No phase file: the script never got that far, or the runtime has a single step
+  }
+
+  for (const [logPhase, file] of Object.entries(PHASE_LOGS) as Array<[ExecutionPhase, string]>) {
+    try {
+      logs[logPhase] = await fs.readFile(path.join(logDir, file), 'utf8');
+    } catch {
+      // Phase not run
+    }
+  }
+
+  return { phase, logs };
+}
+
+/**
+ * Diagnostics for a whole execution: the install/compile logs, the
+ * program's stderr and failed tests, each tagged with its phase.
+ */
+export function diagnoseExecution(execution: ExecutionOutput, options: DiagnosticOptions = {}): ExecutionDiagnosis {
+  const { formats, outcome, exitCode } = execution;
+  const failedPhase = exitCode !== 0 ? outcome.phase : undefined;
+  const diagnostics: Diagnostic[] = [];
+
+  for (const phase of ['install', 'compile'] as ExecutionPhase[]) {
+    const log = outcome.logs[phase];
+    if (log !== undefined) {
+      diagnostics.push(...parseDiagnostics(log, phase, formats, failedPhase === phase, options));
+    }
+  }
+
+  if (outcome.phase === 'run') {
+    diagnostics.push(...parseDiagnostics(execution.stderr, 'run', formats, failedPhase === 'run', options));
+  }
+
+  for (const test of execution.testResults || []) {
+    if (!test.passed) {
+      diagnostics.push({ phase: 'test', severity: 'error', code: test.name, message: test.error || 'Test failed' });
+    }
+  }
+
+  const failedLog = failedPhase && failedPhase !== 'run' ? outcome.logs[failedPhase] : undefined;
+  return {
+    diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    failedPhase,
+    failedPhaseOutput: failedLog !== undefined ? renderLog(failedLog) : undefined
+  };
+}
+
+/**
+ * Parse tool output with every given format. When nothing matches but the
+ * phase failed, the last meaningful line becomes a single diagnostic.
+ */
+export function parseDiagnostics(
+  output: string,
+  phase: ExecutionPhase,
+  formats: DiagnosticFormat[],
+  failed: boolean,
+  options: DiagnosticOptions = {}
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const format of formats) {
+    for (const diagnostic of PARSERS[format](output, phase)) {
+      diagnostic.file = diagnostic.file && normalizeFile(diagnostic.file, options);
+      const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  if (diagnostics.length === 0 && failed) {
+    const message = lastMeaningfulLine(renderLog(output));
+    if (message) {
+      diagnostics.push({ phase, severity: 'error', message });
+    }
+  }
+
+  return diagnostics.slice(0, MAX_DIAGNOSTICS);
+}
+
+/**
+ * Make a phase log readable: JSON diagnostics are replaced by their
+ * rendered text, everything else is kept.
+ */
+export function renderLog(log: string): string {
+  return log
+    .split('\n')
+    .map(line => {
+      if (!line.startsWith('{')) return line;
+      try {
+        const entry: CargoEvent | RustcMessage = JSON.parse(line);
+        const message = rustcMessage(entry);
+        if (typeof message?.rendered === 'string') return message.rendered.trimEnd();
+        return 'reason' in entry ? undefined : line; // other cargo events are noise
+      } catch {
+        return line;
+      }
+    })
+    .filter((line): line is string => line !== undefined)
+    .join('\n')
+    .trim();
+}
+
+const PARSERS: Record<DiagnosticFormat, (output: string, phase: ExecutionPhase) => Diagnostic[]> = {
+  tsc: parseTsc,
+  v8: parseV8,
+  python: parsePython,
+  go: (output, phase) => parseColonFormat(output, phase, 'error'),
+  gcc: (output, phase) => parseColonFormat(output, phase),
+  'rustc-json': parseRustcJson
+};
+
+function parseTsc(output: string, phase: ExecutionPhase): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const pattern = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/;
+
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(pattern);
+    if (!match) continue;
+    diagnostics.push({
+      phase,
+      file: match[1],
+      line: parseInt(match[2]),
+      column: parseInt(match[3]),
+      severity: match[4] === 'message' ? 'note' : match[4] as DiagnosticSeverity,
+      code: match[5],
+      message: match[6]
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * `Name: message` followed by `at ...(file:line:col)` frames. The first
+ * frame outside node internals is taken as the location.
+ */
+function parseV8(output: string, phase: ExecutionPhase): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split('\n');
+  const header = /^(?:Uncaught )?([A-Z]\w*(?:Error|Exception)|Error)(?: \[(\w+)\])?: (.*)$/;
+  const frame = /^\s+at (?:.*?\()?((?:\/|[A-Za-z]:\\|\w)[^():]*?):(\d+):(\d+)\)?$/;
+
+  lines.forEach((line, index) => {
+    const match = line.trim().match(header);
+    if (!match) return;
+
+    const diagnostic: Diagnostic = {
+      phase,
+      severity: 'error',
+      code: match[2] || match[1],
+      message: `${match[1]}: ${match[3]}`
+    };
+
+    for (const next of lines.slice(index + 1, index + 20)) {
+      const location = next.match(frame);
+      if (!location) {
+        if (next.trim() && !/^\s+at /.test(next)) break;
+        continue;
+      }
+      if (location[1].startsWith('node:') || location[1].includes('node_modules')) continue;
+      diagnostic.file = location[1];
+      diagnostic.line = parseInt(location[2]);
+      diagnostic.column = parseInt(location[3]);
+      break;
+    }
+
+    // Syntax errors are reported as "file:line" above the source excerpt instead of a frame
+    if (!diagnostic.file) {
+      const above = lines.slice(Math.max(0, index - 4), index).reverse()
+        .map(previous => previous.match(/^((?:\/|\w)[^:\s]*):(\d+)$/))
+        .find(Boolean);
+      if (above) {
+        diagnostic.file = above[1];
+        diagnostic.line = parseInt(above[2]);
+      }
+    }
+
+    diagnostics.push(diagnostic);
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Tracebacks: the innermost `File "...", line N` frame and the final
+ * `ExceptionName: message` line. Syntax errors carry a caret column.
+ */
+function parsePython(output: string, phase: ExecutionPhase): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split('\n');
+  let frame: { file: string; line: number } | undefined;
+  let caretColumn: number | undefined;
+  let inTraceback = false;
+
+  for (const line of lines) {
+    if (line.startsWith('Traceback (most recent call last)')) {
+      inTraceback = true;
+      frame = undefined;
+      caretColumn = undefined;
+      continue;
+    }
+
+    const location = line.match(/^\s*File "(.+)", line (\d+)/);
+    if (location) {
+      inTraceback = true;
+      frame = { file: location[1], line: parseInt(location[2]) };
+      caretColumn = undefined;
+      continue;
+    }
+
+    const caret = line.match(/^(\s*)\^+\s*$/);
+    if (caret && frame) {
+      // The excerpt is indented by four spaces
+      caretColumn = Math.max(1, caret[1].length - 3);
+      continue;
+    }
+
+    const exception = line.match(/^([A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt|Warning)|[A-Z]\w*Error): ?(.*)$/);
+    if (exception && inTraceback) {
+      diagnostics.push({
+        phase,
+        file: frame?.file,
+        line: frame?.line,
+        column: caretColumn,
+        severity: exception[1].endsWith('Warning') ? 'warning' : 'error',
+        code: exception[1],
+        message: exception[2] ? `${exception[1]}: ${exception[2]}` : exception[1]
+      });
+      inTraceback = false;
+      frame = undefined;
+      caretColumn = undefined;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * `file:line[:col]: [severity: ]message`, as printed by go build, gcc,
+ * clang and javac. Lines without a severity get `defaultSeverity`.
+ */
+function parseColonFormat(output: string, phase: ExecutionPhase, defaultSeverity?: DiagnosticSeverity): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const pattern = /^((?:\.{0,2}\/)?[\w./-]+\.\w+):(\d+)(?::(\d+))?: (?:(fatal error|error|warning|note): )?(.+)$/;
+
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(pattern);
+    if (!match) continue;
+
+    const severity = match[4]
+      ? (match[4] === 'fatal error' ? 'error' : match[4] as DiagnosticSeverity)
+      : defaultSeverity;
+    if (!severity) continue; // e.g. "main.c:3:1: in function ..." context lines
+
+    diagnostics.push({
+      phase,
+      file: match[1],
+      line: parseInt(match[2]),
+      column: match[3] ? parseInt(match[3]) : undefined,
+      severity,
+      message: match[5]
+    });
+  }
+
+  return diagnostics;
+}
+
+function parseRustcJson(output: string, phase: ExecutionPhase): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) continue;
+
+    let message: RustcMessage | undefined;
+    try {
+      message = rustcMessage(JSON.parse(line));
+    } catch {
+      continue;
+    }
+    if (!message || typeof message.message !== 'string' || !message.level) continue;
+    // "aborting due to previous error" and friends carry no location
+    if (!message.spans?.length && /^(aborting due to|could not compile)/.test(message.message)) continue;
+
+    const span = (message.spans || []).find(candidate => candidate.is_primary) || message.spans?.[0];
+    diagnostics.push({
+      phase,
+      file: span?.file_name,
+      line: span?.line_start,
+      column: span?.column_start,
+      severity: message.level === 'error' || message.level.startsWith('error') ? 'error'
+        : message.level === 'warning' ? 'warning' : 'note',
+      code: message.code?.code,
+      message: message.message
+    });
+  }
+
+  return diagnostics;
+}
+
+function rustcMessage(entry: CargoEvent | RustcMessage): RustcMessage | undefined {
+  if (!entry || typeof entry !== 'object') return undefined;
+  return 'reason' in entry ? (entry.reason === 'compiler-message' ? entry.message : undefined) : entry;
+}
+
+function normalizeFile(file: string, options: DiagnosticOptions): string {
+  const normalized = file.replace(/\\/g, '/');
+
+  if (normalized.startsWith('/')) {
+    for (const root of options.roots || []) {
+      const prefix = root.replace(/\\/g, '/').replace(/\/?$/, '/');
+      if (normalized.startsWith(prefix)) {
+        return normalized.slice(prefix.length);
+      }
+    }
+    return normalized;
+  }
+
+  // Not a path (e.g. Python's "<string>")
+  if (normalized.startsWith('<')) {
+    return normalized;
+  }
+  return path.posix.normalize(path.posix.join(options.cwd || '', normalized));
+}
+
+function lastMeaningfulLine(output: string): string | undefined {
+  return output
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !/^\^+$/.test(line))
+    .pop();
+}
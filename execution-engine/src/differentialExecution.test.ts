@@ -0,0 +1,104 @@
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { alignInputs, compareExecutions, diffLines, runDifferential } from './differentialExecution';
+
+const result = (overrides: Partial<ExecutionResult> = {}): ExecutionResult =>
+  ({ id: 'run', success: true, output: '', errors: [], exitCode: 0, executionTime: 100, memoryUsage: 1000, ...overrides });
+
+describe('alignInputs', () => {
+  it('copies inputs set on one side to the other and keeps each program', () => {
+    const [before, after] = alignInputs(
+      { id: 'before', language: 'python', code: 'print(1)', stdin: 'x' },
+      { id: 'after', language: 'python', code: 'print(2)', args: ['-v'] }
+    );
+
+    expect(before).toEqual({ id: 'before', language: 'python', code: 'print(1)', stdin: 'x', args: ['-v'], cache: false });
+    expect(after).toEqual({ id: 'after', language: 'python', code: 'print(2)', stdin: 'x', args: ['-v'], cache: false });
+  });
+
+  it('refuses inputs set differently on both sides', () => {
+    expect(() => alignInputs(
+      { id: 'before', language: 'python', code: '', stdin: 'x', timeout: 1000 },
+      { id: 'after', language: 'python', code: '', stdin: 'y', timeout: 1000 }
+    )).toThrow('they differ in: stdin');
+  });
+});
+
+describe('runDifferential', () => {
+  it('runs before, then after, without the result cache', async () => {
+    const requests: ExecutionRequest[] = [];
+    const diff = await runDifferential(
+      { id: 'before', language: 'python', code: 'print(1)' },
+      { id: 'after', language: 'python', code: 'print(2)' },
+      async request => {
+        requests.push(request);
+        return result({ id: request.id, output: request.id === 'before' ? '1' : '2' });
+      }
+    );
+
+    expect(requests.map(request => [request.id, request.cache])).toEqual([['before', false], ['after', false]]);
+    expect(diff.comparison.behaviorChanged).toBe(true);
+  });
+});
+
+describe('compareExecutions', () => {
+  it('compares tests by name', () => {
+    const comparison = compareExecutions(
+      result({ testResults: [
+        { name: 'a', passed: true, output: '', duration: 1 },
+        { name: 'b', passed: false, output: '', duration: 1 },
+        { name: 'c', passed: true, output: '', duration: 1 }
+      ] }),
+      result({ testResults: [
+        { name: 'a', passed: false, output: '', duration: 1 },
+        { name: 'b', passed: true, output: '', duration: 1 },
+        { name: 'd', passed: true, output: '', duration: 1 }
+      ] })
+    );
+
+    expect(comparison.tests.map(test => [test.name, test.change])).toEqual([
+      ['a', 'broken'], ['b', 'fixed'], ['c', 'removed'], ['d', 'added']
+    ]);
+    expect(comparison.testChanges).toEqual({ unchanged: 0, fixed: 1, broken: 1, added: 1, removed: 1 });
+  });
+
+  it('treats a timing difference as no change in behaviour', () => {
+    const comparison = compareExecutions(result({ output: 'same' }), result({ output: 'same', executionTime: 150, memoryUsage: 0 }));
+
+    expect(comparison.behaviorChanged).toBe(false);
+    expect(comparison.performance.executionTime).toEqual({ before: 100, after: 150, delta: 50, percent: 50 });
+    expect(comparison.performance.memoryUsage.percent).toBe(-100);
+  });
+
+  it('notices a changed exit code or status', () => {
+    const comparison = compareExecutions(result(), result({ success: false, exitCode: 137, status: 'timed-out' }));
+
+    expect(comparison.behaviorChanged).toBe(true);
+    expect(comparison.exitCode).toEqual({ before: 0, after: 137, changed: true });
+    expect(comparison.status).toEqual({ before: undefined, after: 'timed-out', changed: true });
+  });
+});
+
+describe('diffLines', () => {
+  it('reports nothing for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual({ changed: false, added: 0, removed: 0, unified: '' });
+  });
+
+  it('writes changes as unified hunks with context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n');
+
+    expect(diffLines(before, after)).toEqual({
+      changed: true,
+      added: 2,
+      removed: 1,
+      unified: [
+        '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8',
+        '@@ -10,3 +10,4 @@', ' 10', ' 11', ' 12', '+13'
+      ].join('\n')
+    });
+  });
+
+  it('diffs against empty text', () => {
+    expect(diffLines('', 'a\nb')).toMatchObject({ added: 2, removed: 0, unified: '@@ -0,0 +1,2 @@\n+a\n+b' });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * 🔀 Differential Execution
+ *
+ * Did a change alter behaviour? A "before" and an "after" request run one
+ * after the other with identical inputs, and the results are compared:
+ * stdout and stderr as line diffs, the exit code and status, test results
+ * by name, and timing and memory deltas.
+ *
+ * Only the program may differ between the two: code, files, entrypoint,
+ * working directory and language. Every input field (stdin, arguments,
+ * environment, tests, dependencies, limits, policy, backend...) set on one
+ * side is copied to the other, and setting it differently on both is an
+ * error. Neither run is served from the result cache, so both timings are
+ * real.
+ */
+
+import { ExecutionRequest, ExecutionResult, PerformanceMetrics, TestResult } from './executionEngine';
+
+export interface TextDiff {
+  changed: boolean;
+  added: number; // lines
+  removed: number;
+  unified: string; // `-`/`+`/` ` lines in @@ hunks, empty when unchanged
+}
+
+export type TestChange = 'unchanged' | 'fixed' | 'broken' | 'added' | 'removed';
+
+export interface TestComparison {
+  name: string;
+  before?: boolean; // passed; undefined when the test didn't run
+  after?: boolean;
+  change: TestChange;
+}
+
+export interface Delta {
+  before: number;
+  after: number;
+  delta: number; // after - before
+  percent?: number; // of before, when before isn't 0
+}
+
+export interface ExecutionComparison {
+  behaviorChanged: boolean; // output, exit code, status or a test changed
+  stdout: TextDiff;
+  stderr: TextDiff;
+  exitCode: { before: number; after: number; changed: boolean };
+  status: { before?: string; after?: string; changed: boolean };
+  tests: TestComparison[];
+  testChanges: Record<TestChange, number>;
+  performance: {
+    executionTime: Delta;
+    memoryUsage: Delta;
+    metrics?: Partial<Record<'cpuUsage' | 'memoryPeak' | 'ioOperations' | 'networkCalls', Delta>>;
+  };
+}
+
+export interface DifferentialResult {
+  before: ExecutionResult;
+  after: ExecutionResult;
+  comparison: ExecutionComparison;
+}
+
+// The fields that make up what a version is; everything else is input
+const PROGRAM_FIELDS = ['id', 'language', 'code', 'files', 'entrypoint', 'workingDirectory'] as const;
+
+// Lines of unchanged context around each hunk
+const DIFF_CONTEXT = 3;
+
+// Beyond this many line pairs the diff only reports that the text changed
+const MAX_DIFF_CELLS = 4 * 1000 * 1000;
+
+/**
+ * Give both requests the same inputs. Throws when they set one differently.
+ */
+export function alignInputs(before: ExecutionRequest, after: ExecutionRequest): [ExecutionRequest, ExecutionRequest] {
+  const program = new Set<string>(PROGRAM_FIELDS);
+  const inputs = new Set([...Object.keys(before), ...Object.keys(after)].filter(key => !program.has(key)));
+  const shared: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+
+  for (const key of inputs) {
+    const a = (before as unknown as Record<string, unknown>)[key];
+    const b = (after as unknown as Record<string, unknown>)[key];
+    if (a !== undefined && b !== undefined && JSON.stringify(a) !== JSON.stringify(b)) {
+      conflicts.push(key);
+    }
+    shared[key] = a !== undefined ? a : b;
+  }
+
+  if (conflicts.length > 0) {
+    throw new Error(`Before and after must run with identical inputs (they differ in: ${conflicts.join(', ')})`);
+  }
+  return [
+    { ...before, ...shared, cache: false } as ExecutionRequest,
+    { ...after, ...shared, cache: false } as ExecutionRequest
+  ];
+}
+
+/**
+ * Run both versions, before first, and compare them.
+ */
+export async function runDifferential(
+  before: ExecutionRequest,
+  after: ExecutionRequest,
+  execute: (request: ExecutionRequest) => Promise<ExecutionResult>
+): Promise<DifferentialResult> {
+  const [beforeRequest, afterRequest] = alignInputs(before, after);
+  const beforeResult = await execute(beforeRequest);
+  const afterResult = await execute(afterRequest);
+  return { before: beforeResult, after: afterResult, comparison: compareExecutions(beforeResult, afterResult) };
+}
+
+export function compareExecutions(before: ExecutionResult, after: ExecutionResult): ExecutionComparison {
+  const stdout = diffLines(before.output, after.output);
+  const stderr = diffLines(before.errors.join('\n'), after.errors.join('\n'));
+  const tests = compareTests(before.testResults || [], after.testResults || []);
+  const testChanges: Record<TestChange, number> = { unchanged: 0, fixed: 0, broken: 0, added: 0, removed: 0 };
+  tests.forEach(test => testChanges[test.change]++);
+
+  const exitCode = { before: before.exitCode, after: after.exitCode, changed: before.exitCode !== after.exitCode };
+  const status = { before: before.status, after: after.status, changed: before.status !== after.status };
+
+  return {
+    behaviorChanged: stdout.changed || exitCode.changed || status.changed || before.success !== after.success ||
+      tests.some(test => test.change !== 'unchanged'),
+    stdout,
+    stderr,
+    exitCode,
+    status,
+    tests,
+    testChanges,
+    performance: {
+      executionTime: delta(before.executionTime, after.executionTime),
+      memoryUsage: delta(before.memoryUsage, after.memoryUsage),
+      metrics: compareMetrics(before.performanceMetrics, after.performanceMetrics)
+    }
+  };
+}
+
+/**
+ * Line diff of two texts, in unified format.
+ */
+export function diffLines(before: string, after: string): TextDiff {
+  if (before === after) {
+    return { changed: false, added: 0, removed: 0, unified: '' };
+  }
+
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return { changed: true, added: b.length, removed: a.length, unified: '@@ too large to diff @@' };
+  }
+
+  const ops = lineOperations(a, b);
+  return {
+    changed: true,
+    added: ops.filter(op => op.type === '+').length,
+    removed: ops.filter(op => op.type === '-').length,
+    unified: formatHunks(ops)
+  };
+}
+
+function compareTests(before: TestResult[], after: TestResult[]): TestComparison[] {
+  const beforeByName = new Map(before.map(test => [test.name, test.passed]));
+  const afterByName = new Map(after.map(test => [test.name, test.passed]));
+  const names = [...new Set([...beforeByName.keys(), ...afterByName.keys()])];
+
+  return names.map(name => {
+    const was = beforeByName.get(name);
+    const is = afterByName.get(name);
+    const change: TestChange =
+      was === undefined ? 'added'
+        : is === undefined ? 'removed'
+        : was === is ? 'unchanged'
+        : is ? 'fixed' : 'broken';
+    return { name, before: was, after: is, change };
+  });
+}
+
+function compareMetrics(before?: PerformanceMetrics, after?: PerformanceMetrics): ExecutionComparison['performance']['metrics'] {
+  if (!before || !after) {
+    return undefined;
+  }
+  return {
+    cpuUsage: delta(before.cpuUsage, after.cpuUsage),
+    memoryPeak: delta(before.memoryPeak, after.memoryPeak),
+    ioOperations: delta(before.ioOperations, after.ioOperations),
+    networkCalls: delta(before.networkCalls, after.networkCalls)
+  };
+}
+
+function delta(before: number, after: number): Delta {
+  return {
+    before,
+    after,
+    delta: after - before,
+    percent: before !== 0 ? Math.round(((after - before) / before) * 1000) / 10 : undefined
+  };
+}
+
+interface LineOperation {
+  type: ' ' | '-' | '+';
+  line: string;
+  beforeIndex: number; // lines of each text that come before the operation
+  afterIndex: number;
+}
+
+/**
+ * Longest-common-subsequence edit script between two lists of lines.
+ */
+function lineOperations(a: string[], b: string[]): LineOperation[] {
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: LineOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i], beforeIndex: i++, afterIndex: j++ });
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      ops.push({ type: '-', line: a[i], beforeIndex: i++, afterIndex: j });
+    } else {
+      ops.push({ type: '+', line: b[j], beforeIndex: i, afterIndex: j++ });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Group changes with their context into `@@ -l,n +l,n @@` hunks.
+ */
+function formatHunks(ops: LineOperation[]): string {
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, position) => position >= index && op.type !== ' ');
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - DIFF_CONTEXT);
+    let end = firstChange;
+    // Extend while the next change is close enough to share context
+    for (let position = firstChange; position < ops.length; position++) {
+      if (ops[position].type !== ' ') {
+        end = position;
+      } else if (position - end > DIFF_CONTEXT * 2) {
+        break;
+      }
+    }
+    const stop = Math.min(ops.length, end + DIFF_CONTEXT + 1);
+    const hunk = ops.slice(start, stop);
+
+    // Ranges start at the first line shown, or the line before an empty one
+    const beforeCount = hunk.filter(op => op.type !== '+').length;
+    const afterCount = hunk.filter(op => op.type !== '-').length;
+    const beforeStart = hunk[0].beforeIndex + (beforeCount > 0 ? 1 : 0);
+    const afterStart = hunk[0].afterIndex + (afterCount > 0 ? 1 : 0);
+    hunks.push(
+      `@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`,
+      ...hunk.map(op => `${op.type}${op.line}`)
+    );
+    index = stop;
+  }
+
+  return hunks.join('\n');
+}
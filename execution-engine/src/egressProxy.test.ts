@@ -0,0 +1,106 @@
+import * as http from 'http';
+import { EgressProxy, EgressSession, addToSecurityReport, isHostAllowed, isPrivateAddress } from './egressProxy';
+
+// Send one request through the proxy and report the status it answered with
+function throughProxy(session: EgressSession, target: string, method = 'GET'): Promise<number> {
+  const proxy = new URL(session.url);
+  return new Promise((resolve, reject) => {
+    const request = http.request({ host: proxy.hostname, port: proxy.port, method, path: target });
+    request.on('connect', (response: http.IncomingMessage, socket) => {
+      socket.destroy();
+      resolve(response.statusCode!);
+    });
+    request.on('response', (response: http.IncomingMessage) => {
+      response.resume();
+      resolve(response.statusCode!);
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+describe('EgressProxy', () => {
+  let proxy: EgressProxy;
+
+  beforeEach(() => {
+    proxy = new EgressProxy();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await proxy.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('refuses clients other than the one the listener was opened for', async () => {
+    const session = await proxy.open(['*'], { bindHost: '127.0.0.1', client: '10.0.0.7' });
+
+    expect(await throughProxy(session, 'http://example.com/')).toBe(403);
+    expect(session.connections).toEqual([]);
+  });
+
+  it('holds requests until the client is admitted', async () => {
+    const session = await proxy.open(['example.com'], { bindHost: '127.0.0.1' });
+    const status = throughProxy(session, 'http://other.example/');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(session.connections).toEqual([]);
+    session.admit('127.0.0.1');
+
+    expect(await status).toBe(403);
+    expect(session.connections).toMatchObject([{ host: 'other.example', allowed: false, reason: 'outside the egress allowlist' }]);
+  });
+
+  it('never connects to private addresses, even when every host is allowed', async () => {
+    const session = await proxy.open(['*'], { bindHost: '127.0.0.1', client: '127.0.0.1' });
+
+    expect(await throughProxy(session, 'http://169.254.169.254/latest/meta-data/')).toBe(403);
+    expect(await throughProxy(session, 'localhost:22', 'CONNECT')).toBe(403);
+    expect(await throughProxy(session, 'http://[::1]:3001/health')).toBe(403);
+    expect(session.connections.map(connection => [connection.method, connection.host, connection.reason])).toEqual([
+      ['GET', '169.254.169.254', 'private address'],
+      ['CONNECT', 'localhost', 'private address'],
+      ['GET', '::1', 'private address']
+    ]);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.17.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', 'not-an-address'
+  ])('treats %s as private', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('treats %s as public', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('isHostAllowed', () => {
+  it('matches hosts, subdomains and ports', () => {
+    const allowlist = ['pypi.org', '*.pythonhosted.org', 'registry.npmjs.org:443'];
+
+    expect(isHostAllowed(allowlist, 'PyPI.org', 80)).toBe(true);
+    expect(isHostAllowed(allowlist, 'files.pythonhosted.org', 443)).toBe(true);
+    expect(isHostAllowed(allowlist, 'pythonhosted.org.evil.com', 443)).toBe(false);
+    expect(isHostAllowed(allowlist, 'registry.npmjs.org', 80)).toBe(false);
+  });
+});
+
+describe('addToSecurityReport', () => {
+  it('lists every attempt and flags blocked ones', () => {
+    const report = addToSecurityReport(
+      { fileSystemAccess: [], networkAccess: [], processSpawned: [], suspiciousOperations: [], riskLevel: 'low' },
+      [
+        { method: 'CONNECT', host: 'pypi.org', port: 443, allowed: true, timestamp: 1 },
+        { method: 'GET', host: '10.0.0.1', port: 80, allowed: false, reason: 'private address', timestamp: 2 }
+      ]
+    );
+
+    expect(report.networkAccess).toEqual(['CONNECT pypi.org:443 (allowed)', 'GET 10.0.0.1:80 (blocked)']);
+    expect(report.suspiciousOperations).toEqual(['[medium] Connection to a private address: 10.0.0.1:80']);
+    expect(report.riskLevel).toBe('medium');
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * 🌐 Egress Proxy
+ *
+ * The `egress` network mode: containers sit on an internal Docker network
+ * with no route out, and the only thing they can reach is this HTTP(S)
+ * proxy. Each execution gets its own listener that knows the hosts the
+ * request allowed; HTTPS goes through CONNECT tunnels, plain HTTP is
+ * forwarded. Every attempt, allowed or not, is logged for the security
+ * report.
+ *
+ * A listener serves one client address, the container it was opened for;
+ * connections from anywhere else are refused. Destinations are resolved
+ * before connecting, and private, loopback and link-local addresses are
+ * refused even under `*`, so the proxy never becomes a way into the host
+ * or its network.
+ *
+ * Allowlist entries are `host`, `host:port` or `*.domain` (any subdomain);
+ * an entry without a port allows every port. Programs find the proxy
+ * through the usual HTTP(S)_PROXY variables, so a client that ignores them
+ * simply has no network.
+ */
+
+import { promises as dns } from 'dns';
+import * as http from 'http';
+import * as net from 'net';
+import { SecurityReport } from './executionEngine';
+
+export interface EgressConnection {
+  method: string; // CONNECT for tunnels, else the HTTP method
+  host: string;
+  port: number;
+  allowed: boolean;
+  reason?: string; // why a connection was blocked
+  timestamp: number;
+}
+
+export interface EgressSession {
+  url: string; // proxy URL as the program should use it
+  connections: EgressConnection[];
+  admit(address: string): void; // the one client the listener serves
+  close(): Promise<void>;
+}
+
+export interface EgressListenOptions {
+  bindHost: string; // interface the listener binds to
+  advertisedHost?: string; // how programs reach it, when not bindHost
+  client?: string; // client address, when known before the program starts
+}
+
+// Where to connect, or the status to refuse with
+type Destination = { address: string } | { status: 403 | 502 };
+type Authorize = (socket: net.Socket, method: string, host: string, port: number) => Promise<Destination>;
+
+// Tunnels that go quiet for this long are closed
+const IDLE_TIMEOUT = 60 * 1000;
+
+// Addresses programs may never reach through the proxy
+const PRIVATE_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const).forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export class EgressProxy {
+  private sessions: Set<EgressSession> = new Set();
+
+  /**
+   * Start a listener for one execution, allowing only `allowedHosts`.
+   */
+  async open(allowedHosts: string[], options: EgressListenOptions): Promise<EgressSession> {
+    const connections: EgressConnection[] = [];
+    const sockets: Set<net.Socket> = new Set();
+
+    // Requests that arrive before the client is known wait for it
+    let admitClient: (address: string) => void = () => undefined;
+    const client = options.client !== undefined
+      ? Promise.resolve(normalizeAddress(options.client))
+      : new Promise<string>(resolve => { admitClient = address => resolve(normalizeAddress(address)); });
+
+    const record = (method: string, host: string, port: number, reason?: string): void => {
+      connections.push({ method, host, port, allowed: !reason, reason, timestamp: Date.now() });
+      console.log(`🌐 ${reason ? 'Blocked' : 'Allowed'} ${method} ${host}:${port}${reason ? ` (${reason})` : ''}`);
+    };
+
+    const authorize: Authorize = async (socket, method, host, port) => {
+      const expected = await client;
+      if (normalizeAddress(socket.remoteAddress || '') !== expected) {
+        console.log(`🌐 Refused ${method} ${host}:${port} from ${socket.remoteAddress}, not this listener's client`);
+        return { status: 403 };
+      }
+      if (!isHostAllowed(allowedHosts, host, port)) {
+        record(method, host, port, 'outside the egress allowlist');
+        return { status: 403 };
+      }
+
+      let addresses: string[];
+      try {
+        addresses = await resolveHost(host);
+      } catch {
+        record(method, host, port);
+        return { status: 502 };
+      }
+      if (addresses.some(isPrivateAddress)) {
+        record(method, host, port, 'private address');
+        return { status: 403 };
+      }
+      record(method, host, port);
+      return { address: addresses[0] };
+    };
+
+    const server = http.createServer((req, res) => this.forward(req, res, authorize));
+    server.on('connect', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) =>
+      this.tunnel(req, socket, head, authorize, sockets)
+    );
+    server.on('connection', (socket: net.Socket) => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, options.bindHost, () => resolve());
+    });
+
+    const { port } = server.address() as net.AddressInfo;
+    const session: EgressSession = {
+      url: `http://${options.advertisedHost || options.bindHost}:${port}`,
+      connections,
+      admit: admitClient,
+      close: async () => {
+        this.sessions.delete(session);
+        admitClient('');
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        await new Promise<void>(resolve => server.close(() => resolve()));
+      }
+    };
+
+    this.sessions.add(session);
+    return session;
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(Array.from(this.sessions).map(session => session.close()));
+  }
+
+  /**
+   * HTTPS (and anything else) through CONNECT: splice the client to the target.
+   */
+  private async tunnel(
+    req: http.IncomingMessage,
+    client: net.Socket,
+    head: Buffer,
+    authorize: Authorize,
+    sockets: Set<net.Socket>
+  ): Promise<void> {
+    client.on('error', () => client.destroy());
+    const target = parseAuthority(req.url || '', 443);
+    const destination: Destination = target
+      ? await authorize(client, 'CONNECT', target.host, target.port)
+      : { status: 403 };
+    if (!target || 'status' in destination) {
+      client.end('status' in destination && destination.status === 502
+        ? 'HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\n\r\n'
+        : 'HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(target.port, destination.address, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    sockets.add(upstream);
+    upstream.on('close', () => sockets.delete(upstream));
+
+    upstream.setTimeout(IDLE_TIMEOUT, () => upstream.destroy());
+    upstream.on('error', () => client.end('HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\n\r\n'));
+    client.on('error', () => upstream.destroy());
+    client.on('close', () => upstream.destroy());
+  }
+
+  /**
+   * Plain HTTP: the request line carries an absolute URL.
+   */
+  private async forward(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    authorize: Authorize
+  ): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(req.url || '');
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const port = Number(url.port) || 80;
+    const destination: Destination = url.protocol === 'http:'
+      ? await authorize(req.socket, req.method || 'GET', url.hostname.replace(/^\[|\]$/g, ''), port)
+      : { status: 403 };
+    if ('status' in destination) {
+      res.writeHead(destination.status).end();
+      return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-authorization'];
+    delete headers['proxy-connection'];
+
+    const upstream = http.request({
+      host: destination.address,
+      port,
+      method: req.method,
+      path: `${url.pathname}${url.search}`,
+      headers
+    }, (response) => {
+      res.writeHead(response.statusCode || 502, response.headers);
+      response.pipe(res);
+    });
+
+    upstream.setTimeout(IDLE_TIMEOUT, () => upstream.destroy());
+    upstream.on('error', () => {
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  }
+}
+
+/**
+ * Whether an allowlist lets a program reach host:port.
+ */
+export function isHostAllowed(allowlist: string[], host: string, port: number): boolean {
+  const name = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return allowlist.some(entry => {
+    const parsed = parseAuthority(entry);
+    if (!parsed || (parsed.port !== undefined && parsed.port !== port)) {
+      return false;
+    }
+    return matchesHostPattern(parsed.host, name);
+  });
+}
+
+/**
+ * Whether an address is private, loopback, link-local or otherwise not on
+ * the public internet (cloud metadata services live in link-local space).
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = normalizeAddress(address);
+  const family = net.isIP(normalized);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_ADDRESSES.check(normalized, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * `*` matches any host, `*.example.com` any subdomain of example.com.
+ */
+export function matchesHostPattern(pattern: string, host: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized === '*') return true;
+  if (normalized.startsWith('*.')) return host.endsWith(normalized.substring(1));
+  return host === normalized;
+}
+
+/**
+ * Variables that point common clients (curl, pip, requests, Go, npm) at
+ * the proxy. Node's own http module only follows them from Node 24 on.
+ */
+export function proxyEnvironment(url: string): Record<string, string> {
+  return {
+    HTTP_PROXY: url,
+    HTTPS_PROXY: url,
+    http_proxy: url,
+    https_proxy: url,
+    NODE_USE_ENV_PROXY: '1'
+  };
+}
+
+/**
+ * Add a session's connection attempts to a security report. Blocked
+ * attempts count as suspicious: the program tried to leave its allowlist.
+ */
+export function addToSecurityReport(report: SecurityReport, connections: EgressConnection[]): SecurityReport {
+  const networkAccess = connections.map(connection =>
+    `${connection.method} ${connection.host}:${connection.port} (${connection.allowed ? 'allowed' : 'blocked'})`
+  );
+  const blocked = connections
+    .filter(connection => !connection.allowed)
+    .map(connection => connection.reason === 'private address'
+      ? `[medium] Connection to a private address: ${connection.host}:${connection.port}`
+      : `[medium] Connection outside the egress allowlist: ${connection.host}:${connection.port}`);
+
+  return {
+    ...report,
+    networkAccess: [...report.networkAccess, ...networkAccess],
+    suspiciousOperations: [...report.suspiciousOperations, ...new Set(blocked)],
+    riskLevel: blocked.length > 0 && report.riskLevel === 'low' ? 'medium' : report.riskLevel
+  };
+}
+
+/**
+ * Every address a host name stands for; IP literals stand for themselves.
+ */
+async function resolveHost(host: string): Promise<string[]> {
+  if (net.isIP(host)) {
+    return [host];
+  }
+  const entries = await dns.lookup(host, { all: true });
+  if (entries.length === 0) {
+    throw new Error(`${host} has no addresses`);
+  }
+  return entries.map(entry => entry.address);
+}
+
+// IPv4 clients show up as ::ffff:a.b.c.d on dual-stack sockets
+function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+}
+
+/**
+ * Split `host[:port]`, including bracketed IPv6 addresses.
+ */
+function parseAuthority(authority: string): { host: string; port?: number } | undefined;
+function parseAuthority(authority: string, defaultPort: number): { host: string; port: number } | undefined;
+function parseAuthority(authority: string, defaultPort?: number): { host: string; port?: number } | undefined {
+  const match = authority.trim().match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const host = match[1].replace(/^\[|\]$/g, '').toLowerCase();
+  const port = match[2] ? Number(match[2]) : defaultPort;
+  return { host, port };
+}
@@ -0,0 +1,81 @@
+import { codeAround, errorHeadline, errorSignature, frameSource, isUserFrame, markedLine, stackFrames } from './errorSignatures';
+
+describe('errorSignature', () => {
+  it.each([
+    ["NameError: name 'totl' is not defined", 'NameError: name <id> is not defined'],
+    ["TypeError: Cannot read properties of undefined (reading 'map')", 'TypeError: Cannot read properties of undefined (reading <id>)'],
+    ['/tmp/run-x8/main.go:12:5: undefined: count', '<path>:<line>: undefined: <id>'],
+    ['ReferenceError: total is not defined', 'ReferenceError: <id> is not defined'],
+    ['error[E0425]: cannot find value `x` in this scope', 'error[E0425]: cannot find value <id> in this scope'],
+    ["main.ts(3,7): error TS2304: Cannot find name 'foo'.", '<path>:<line>: error TS2304: Cannot find name <id>.'],
+    ['panic: runtime error: index out of range [5] with length 3', 'panic: runtime error: index out of range [<n>] with length <n>'],
+    ['Segmentation fault at 0x7ffd1234 in job 3f2504e0-4f89-11d3-9a0c-0305e82c3301', 'Segmentation fault at <addr> in job <id>']
+  ])('strips the specifics of %j', (error, signature) => {
+    expect(errorSignature(error)).toBe(signature);
+  });
+
+  it('gives occurrences of one problem the same signature', () => {
+    const first = 'Traceback (most recent call last):\n  File "/tmp/run-1/main.py", line 3, in <module>\nNameError: name \'totl\' is not defined';
+    const second = 'Traceback (most recent call last):\n  File "/tmp/run-2/main.py", line 9, in <module>\nNameError: name \'count\' is not defined';
+
+    expect(errorSignature(first)).toBe(errorSignature(second));
+  });
+});
+
+describe('errorHeadline', () => {
+  it('takes the last named error, else the last line', () => {
+    expect(errorHeadline('Traceback (most recent call last):\n  File "x.py", line 1\nValueError: bad\n')).toBe('ValueError: bad');
+    expect(errorHeadline('warning: unused\nsomething went wrong\n\n')).toBe('something went wrong');
+    expect(errorHeadline('')).toBe('');
+  });
+});
+
+describe('stackFrames', () => {
+  it('reads tracebacks innermost first, then V8 and compiler frames', () => {
+    const error = [
+      'Traceback (most recent call last):',
+      '  File "/w/main.py", line 8, in <module>',
+      '  File "/w/lib.py", line 2, in f',
+      'NameError: x',
+      '    at f (/w/a.js:4:3)',
+      './b.go:5:2: undefined: y'
+    ].join('\n');
+
+    expect(stackFrames(error)).toEqual([
+      { file: '/w/lib.py', line: 2 },
+      { file: '/w/main.py', line: 8 },
+      { file: '/w/a.js', line: 4 },
+      { file: './b.go', line: 5 }
+    ]);
+  });
+
+  it('tells submitted code from libraries and the runtime', () => {
+    expect(isUserFrame({ file: '/workspace/main.py', line: 1 })).toBe(true);
+    expect(isUserFrame({ file: 'node:internal/modules/cjs/loader', line: 1 })).toBe(false);
+    expect(isUserFrame({ file: '/app/node_modules/lodash/map.js', line: 1 })).toBe(false);
+    expect(isUserFrame({ file: '/usr/lib/python3.11/json/decoder.py', line: 1 })).toBe(false);
+  });
+});
+
+describe('codeAround', () => {
+  const source = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n');
+
+  it('numbers the lines around the failing one and marks it', () => {
+    const excerpt = codeAround(source, 10);
+
+    expect(excerpt).toBe(['   8 | line 8', '   9 | line 9', '> 10 | line 10', '  11 | line 11', '  12 | line 12'].join('\n'));
+    expect(markedLine(excerpt)).toBe('line 10');
+    expect(codeAround(source, 13)).toBe('');
+  });
+});
+
+describe('frameSource', () => {
+  const files = { 'src/lib.py': 'lib', 'main.py': 'main' };
+
+  it('finds the submitted file a frame points to', () => {
+    expect(frameSource({ file: '/tmp/run-1/src/lib.py', line: 1 }, 'code', files)).toBe('lib');
+    expect(frameSource({ file: '<string>', line: 1 }, 'code')).toBe('code');
+    expect(frameSource({ file: '/tmp/run-1/app.py', line: 1 }, 'code', {}, 'app.py')).toBe('code');
+    expect(frameSource({ file: '/usr/lib/python3.11/json/decoder.py', line: 1 }, 'code', files)).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 🧬 Error Signatures
+ *
+ * Two runs hitting the same bug rarely print the same error: the temp
+ * directory differs, the line moved, the variable has another name. An
+ * error's signature is its headline with those details replaced by
+ * placeholders, so occurrences of one problem share a signature:
+ *
+ *   NameError: name 'totl' is not defined          -> NameError: name <id> is not defined
+ *   TypeError: Cannot read properties of undefined (reading 'map')
+ *                                                  -> TypeError: Cannot read properties of undefined (reading <id>)
+ *   /tmp/run-x8/main.go:12:5: undefined: count     -> <path>:<line>: undefined: <id>
+ *
+ * Paths, line and column numbers, quoted names, identifiers in well-known
+ * message shapes, memory addresses, ids and other numbers are stripped.
+ * Stack frames are read from the same text, so an error can be shown with
+ * the code it failed on.
+ */
+
+import * as path from 'path';
+
+export interface StackFrame {
+  file: string;
+  line: number;
+}
+
+// Messages that name an identifier without quoting it
+const UNQUOTED_IDENTIFIERS: Array<[RegExp, string]> = [
+  [/[\w$.]+ is not (defined|a function|a constructor|iterable)/g, '<id> is not $1'],
+  [/\bundefined: [\w$.]+/g, 'undefined: <id>'],
+  [/\b(undeclared|unknown) (identifier|name|variable|type) [\w$.]+/gi, '$1 $2 <id>'],
+  [/\b(has no (?:attribute|member|field|method)) [\w$.]+/g, '$1 <id>'],
+  [/\b(cannot find (?:symbol|module|package|name|value|type)) [\w$./@-]+/gi, '$1 <id>']
+];
+
+/**
+ * The line of an error text that says what went wrong: the last
+ * `Name: message` or `error: ...` line, else the last non-empty one.
+ */
+export function errorHeadline(error: string): string {
+  const lines = error.split('\n').map(line => line.trim()).filter(Boolean);
+  const named = [...lines].reverse().find(line =>
+    /^(?:Uncaught )?[A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt)\b/.test(line) || /\b(?:fatal )?error(?:\[\w+\])?:/.test(line)
+  );
+  return named || lines[lines.length - 1] || '';
+}
+
+/**
+ * The signature of an error: its headline with the specifics stripped.
+ */
+export function errorSignature(error: string): string {
+  let signature = errorHeadline(error);
+
+  signature = signature
+    // Quoted names and values
+    .replace(/(['"`‘’“”])(?:(?!\1).)*\1/g, '<id>')
+    // Memory addresses and ids
+    .replace(/\b0x[0-9a-f]+\b/gi, '<addr>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    // Paths, with or without directories, and the positions after them
+    .replace(/(?:[A-Za-z]:\\|\.{0,2}\/|<)?(?:[\w@.-]+[\\/])+[\w@.<>-]+/g, '<path>')
+    .replace(/\b[\w-]+\.(?:py|js|mjs|cjs|ts|tsx|jsx|go|rs|c|h|cc|cpp|hpp|java|rb|php|cs|kt|swift)\b/g, '<path>')
+    .replace(/(<path>)(?:[:(,]\d+)+\)?/g, '$1:<line>')
+    .replace(/\bline \d+(?:, column \d+)?/gi, 'line <line>');
+
+  for (const [pattern, replacement] of UNQUOTED_IDENTIFIERS) {
+    signature = signature.replace(pattern, replacement);
+  }
+
+  return signature
+    // Remaining numbers, except in codes such as TS2304 or E0425
+    .replace(/\b\d+(?:\.\d+)?\b/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The frames of a stack trace or traceback, innermost first. Python,
+ * V8 and `file:line:col: message` compiler output are understood.
+ */
+export function stackFrames(error: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  const python: StackFrame[] = [];
+
+  for (const line of error.split('\n')) {
+    const traceback = line.match(/^\s*File "(.+)", line (\d+)/);
+    if (traceback) {
+      python.push({ file: traceback[1], line: parseInt(traceback[2]) });
+      continue;
+    }
+
+    const v8 = line.match(/^\s+at (?:.*?\()?((?:\/|[A-Za-z]:\\|\w)[^():]*?):(\d+):\d+\)?$/);
+    if (v8) {
+      frames.push({ file: v8[1], line: parseInt(v8[2]) });
+      continue;
+    }
+
+    const compiler = line.trim().match(/^((?:\.{0,2}\/)?[\w./-]+\.\w+):(\d+)(?::\d+)?: /);
+    if (compiler) {
+      frames.push({ file: compiler[1], line: parseInt(compiler[2]) });
+    }
+  }
+
+  // Tracebacks list the innermost call last
+  return [...python.reverse(), ...frames];
+}
+
+/**
+ * Whether a frame points into code the caller submitted rather than a
+ * library or the runtime.
+ */
+export function isUserFrame(frame: StackFrame): boolean {
+  const file = frame.file.replace(/\\/g, '/');
+  return !file.startsWith('node:') &&
+    !file.startsWith('internal/') &&
+    !/\/(node_modules|site-packages|dist-packages|lib\/python[\d.]*|\.cargo|go\/pkg)\//.test(file);
+}
+
+/**
+ * The lines around `line` (1-based), numbered, with the line itself marked.
+ */
+export function codeAround(source: string, line: number, radius: number = 2): string {
+  const lines = source.split('\n');
+  if (line < 1 || line > lines.length) {
+    return '';
+  }
+
+  const start = Math.max(1, line - radius);
+  const end = Math.min(lines.length, line + radius);
+  const width = String(end).length;
+  const excerpt: string[] = [];
+  for (let number = start; number <= end; number++) {
+    excerpt.push(`${number === line ? '>' : ' '} ${String(number).padStart(width)} | ${lines[number - 1]}`);
+  }
+  return excerpt.join('\n');
+}
+
+/**
+ * The marked line of an excerpt made by codeAround, without its number.
+ */
+export function markedLine(excerpt: string): string | undefined {
+  return excerpt.match(/^> +\d+ \| (.*)$/m)?.[1];
+}
+
+/**
+ * The submitted file a frame refers to: one of `files` by path suffix, or
+ * the entrypoint (code run from a string counts as the entrypoint).
+ */
+export function frameSource(
+  frame: StackFrame,
+  code: string,
+  files: Record<string, string> = {},
+  entrypoint?: string
+): string | undefined {
+  const file = frame.file.replace(/\\/g, '/');
+  const match = Object.keys(files)
+    .sort((a, b) => b.length - a.length)
+    .find(name => file === name || file.endsWith(`/${name.replace(/^\.?\//, '')}`));
+  if (match) {
+    return files[match];
+  }
+
+  const entry = entrypoint ? path.posix.basename(entrypoint) : undefined;
+  const base = path.posix.basename(file);
+  if (base === entry || /^main\.\w+$/.test(base) || /^(<string>|<stdin>|\[eval\]|\[stdin\])$/.test(file)) {
+    return code;
+  }
+  return undefined;
+}
@@ -0,0 +1,72 @@
+import { ExecutionBackend, ExecutionBackendRegistry } from './executionBackend';
+import { SandboxNetworkMode, SandboxPolicy } from './sandboxPolicy';
+
+const policy = (backends?: string[], network: SandboxNetworkMode = 'none'): SandboxPolicy => ({
+  name: backends ? 'pinned' : 'open',
+  memory: '128m',
+  cpus: 1,
+  pidsLimit: 64,
+  readOnlyRootfs: true,
+  tmpfs: { '/tmp': '32m' },
+  capDrop: ['ALL'],
+  noNewPrivileges: true,
+  network,
+  timeout: 10000,
+  backends
+});
+
+// Only the lifecycle the registry drives
+const fakeBackend = (name: string, initialize: () => Promise<void> = async () => undefined) =>
+  ({ name, initialize, shutdown: jest.fn(async () => undefined) }) as unknown as ExecutionBackend;
+
+describe('ExecutionBackendRegistry', () => {
+  const registry = (defaultBackend: string) => {
+    const backends = new ExecutionBackendRegistry(defaultBackend);
+    backends.register('simple', () => fakeBackend('simple'), { isolation: 'process', networkModes: [] });
+    backends.register('docker', () => fakeBackend('docker'), { isolation: 'container', networkModes: ['none', 'egress'] });
+    backends.register('vm', () => fakeBackend('vm'), { isolation: 'container', networkModes: ['none'] });
+    return backends;
+  };
+
+  it('runs requests that do not choose on the default, or on the first backend the policy allows', () => {
+    expect(registry('simple').resolve(undefined, policy())).toBe('simple');
+    expect(registry('simple').resolve(undefined, policy(['docker']))).toBe('docker');
+  });
+
+  it('lets a request ask for stronger isolation than the default', () => {
+    expect(registry('simple').resolve('docker', policy())).toBe('docker');
+  });
+
+  it('refuses a weaker backend than the default unless the policy names it', () => {
+    expect(() => registry('docker').resolve('simple', policy()))
+      .toThrow('Execution backend simple isolates less than the default (docker)');
+    expect(registry('docker').resolve('simple', policy(['docker', 'simple']))).toBe('simple');
+  });
+
+  it('refuses a backend that does not enforce the network mode unless the policy names it', () => {
+    expect(() => registry('docker').resolve('vm', policy(undefined, 'egress')))
+      .toThrow('Execution backend vm does not enforce network mode egress');
+    expect(registry('docker').resolve('vm', policy(['vm'], 'egress'))).toBe('vm');
+    expect(registry('docker').resolve('vm', policy())).toBe('vm');
+  });
+
+  it('refuses backends the policy does not allow, or that do not exist', () => {
+    expect(() => registry('simple').resolve('simple', policy(['docker']))).toThrow('not allowed under sandbox policy pinned');
+    expect(() => registry('simple').resolve('firecracker', policy())).toThrow('Unknown execution backend: firecracker');
+  });
+
+  it('creates a backend once, and again after it failed to initialize', async () => {
+    const backends = new ExecutionBackendRegistry('docker');
+    let attempts = 0;
+    backends.register('docker', () => fakeBackend('docker', async () => {
+      if (++attempts === 1) throw new Error('Docker daemon unreachable');
+    }), { isolation: 'container', networkModes: ['none'] });
+
+    await expect(backends.get()).rejects.toThrow('Docker daemon unreachable');
+    expect(backends.active()).toEqual([]);
+
+    const backend = await backends.get();
+    expect(await backends.get('docker')).toBe(backend);
+    expect(attempts).toBe(2);
+  });
+});
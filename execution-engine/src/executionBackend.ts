@@ -0,0 +1,188 @@
+/**
+ * 🔌 Execution Backends
+ *
+ * The server runs code through an ExecutionBackend: `simple` runs programs
+ * as host processes (SimpleExecutionEngine, for laptops), `docker` runs
+ * them in containers (ExecutionEngine, for shared machines). Both take an
+ * ExecutionRequest and return an ExecutionResult, and each reports what it
+ * actually enforces, so clients can tell a sandbox from a plain process.
+ *
+ * The default backend is CODECONTEXT_BACKEND (default `simple`). A request
+ * may name another one in `backend`, as long as its sandbox policy allows
+ * it; a policy's `backends` lists the backends that can honour it, and a
+ * request that doesn't choose runs on the first of them when the default
+ * can't. A request can't pick a backend that isolates less than the default
+ * (`simple` under a `docker` default), or one that doesn't enforce its
+ * policy's network mode, unless its policy lists that backend by name.
+ * Backends are created the first time they are used.
+ */
+
+import { ExecutionRequest, ExecutionResult, OutputListener } from './executionEngine';
+import { SessionManager } from './executionSession';
+import { ExecutionTracker } from './executionTracker';
+import { ArtifactStore } from './artifacts';
+import { ResultCache } from './resultCache';
+import { PolicyViolationError, SandboxNetworkMode, SandboxPolicy } from './sandboxPolicy';
+
+export type ResourceLimit = 'timeout' | 'memory' | 'cpus' | 'pids';
+
+export type BackendIsolation = 'process' | 'container';
+
+export interface BackendCapabilities {
+  isolation: BackendIsolation;
+  resourceLimits: ResourceLimit[]; // policy limits the backend enforces
+  networkModes: SandboxNetworkMode[]; // policy network modes the backend enforces
+  seccomp: boolean;
+  syscallTracing: boolean; // security reports come from a trace of the run
+  warmPool: boolean;
+  tests: boolean; // runs the `tests` of a request
+  languages: string[];
+}
+
+export interface BackendSecurityStatus {
+  securityEnabled: boolean;
+  securityLevel: 'none' | 'container';
+  activeProtections: string[];
+  available: boolean; // whether the backend can run code right now
+  status: string;
+}
+
+export interface ExecutionBackend {
+  readonly name: string;
+  readonly sessions: SessionManager;
+  readonly executions: ExecutionTracker; // in-flight runs, for cancellation
+  readonly artifacts: ArtifactStore;
+  readonly resultCache: ResultCache;
+  initialize(): Promise<void>;
+  executeCode(request: ExecutionRequest, onOutput?: OutputListener): Promise<ExecutionResult>;
+  getCapabilities(): BackendCapabilities;
+  getSecurityStatus(): Promise<BackendSecurityStatus>;
+  shutdown(): Promise<void>;
+}
+
+export type ExecutionBackendFactory = () => ExecutionBackend;
+
+// What a backend's capabilities will report, known before it is created
+export type DeclaredCapabilities = Pick<BackendCapabilities, 'isolation' | 'networkModes'>;
+
+export const DEFAULT_BACKEND = 'simple';
+
+// Stronger isolation ranks higher
+const ISOLATION_RANK: Record<BackendIsolation, number> = { process: 0, container: 1 };
+
+export class ExecutionBackendRegistry {
+  readonly defaultBackend: string;
+  private factories: Map<string, ExecutionBackendFactory> = new Map();
+  private declared: Map<string, DeclaredCapabilities> = new Map();
+  private backends: Map<string, ExecutionBackend> = new Map();
+  private initializing: Map<string, Promise<void>> = new Map();
+
+  constructor(defaultBackend?: string) {
+    this.defaultBackend = defaultBackend || process.env.CODECONTEXT_BACKEND || DEFAULT_BACKEND;
+  }
+
+  /**
+   * Add a backend; `declared` is the part of its capabilities requests are
+   * checked against, known here so that doesn't create the backend.
+   */
+  register(name: string, factory: ExecutionBackendFactory, declared: DeclaredCapabilities): void {
+    this.factories.set(name, factory);
+    this.declared.set(name, declared);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * A backend by name (the default when no name is given), created and
+   * initialized on first use.
+   */
+  async get(name?: string): Promise<ExecutionBackend> {
+    const backendName = name || this.defaultBackend;
+    const factory = this.factories.get(backendName);
+    if (!factory) {
+      throw new Error(`Unknown execution backend: ${backendName}`);
+    }
+
+    let backend = this.backends.get(backendName);
+    if (!backend) {
+      backend = factory();
+      this.backends.set(backendName, backend);
+      this.initializing.set(backendName, backend.initialize().catch(async (error) => {
+        this.backends.delete(backendName);
+        this.initializing.delete(backendName);
+        await backend!.shutdown().catch(() => undefined);
+        throw error;
+      }));
+    }
+
+    await this.initializing.get(backendName);
+    return backend;
+  }
+
+  /**
+   * Backends created so far, e.g. to find which one holds a session.
+   */
+  active(): ExecutionBackend[] {
+    return Array.from(this.backends.values());
+  }
+
+  /**
+   * The backend a request runs on under `policy`: the one it asked for, if
+   * the policy allows it, it isolates at least as well as the default and
+   * it enforces the policy's network mode, else the default or the
+   * policy's first backend. Throws PolicyViolationError otherwise.
+   */
+  resolve(requested: string | undefined, policy: SandboxPolicy): string {
+    const allowed = policy.backends;
+    const name = requested ||
+      (!allowed || allowed.includes(this.defaultBackend) ? this.defaultBackend : allowed.find(backend => this.has(backend)));
+
+    if (!name) {
+      throw new PolicyViolationError(
+        `No execution backend allowed under sandbox policy ${policy.name} is available (allowed: ${allowed!.join(', ')})`
+      );
+    }
+    if (!this.has(name)) {
+      throw new PolicyViolationError(`Unknown execution backend: ${name}`);
+    }
+    if (allowed && !allowed.includes(name)) {
+      throw new PolicyViolationError(
+        `Execution backend ${name} is not allowed under sandbox policy ${policy.name} (allowed: ${allowed.join(', ')})`
+      );
+    }
+    if (!allowed?.includes(name) && this.isolates(name) < this.isolates(this.defaultBackend)) {
+      throw new PolicyViolationError(
+        `Execution backend ${name} isolates less than the default (${this.defaultBackend}); ` +
+        `sandbox policy ${policy.name} would have to allow it by name`
+      );
+    }
+    if (!allowed?.includes(name) && name !== this.defaultBackend && !this.enforces(name, policy.network)) {
+      throw new PolicyViolationError(
+        `Execution backend ${name} does not enforce network mode ${policy.network}; ` +
+        `sandbox policy ${policy.name} would have to allow it by name`
+      );
+    }
+    return name;
+  }
+
+  private isolates(name: string): number {
+    const declared = this.declared.get(name);
+    return declared ? ISOLATION_RANK[declared.isolation] : 0;
+  }
+
+  private enforces(name: string, network: SandboxNetworkMode): boolean {
+    return this.declared.get(name)?.networkModes.includes(network) ?? false;
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.active().map(backend => backend.shutdown()));
+    this.backends.clear();
+    this.initializing.clear();
+  }
+}
@@ -1,17 +1,49 @@
 import Docker from 'dockerode';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { PassThrough } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
+import { TEST_DIR, TestRunner } from './testRunner';
+import { ResourceMonitor } from './resourceMonitor';
+import { SecurityTracer } from './securityTracer';
+import { CONTAINER_WORKSPACE, WorkspaceLayout, materializeWorkspace, shellQuote } from './workspace';
+import { ContainerPool, ContainerPoolOptions, PooledContainer } from './containerPool';
+import { DependencyCache, DependencyError } from './dependencyCache';
+import { SessionManager, SessionOptions, SessionProcess } from './executionSession';
+import { runtimeRegistry } from './languageRuntime';
+import { diagnoseExecution, readPhaseOutcome } from './diagnostics';
+import { Artifact, ArtifactDelivery, ArtifactStore, ArtifactStoreOptions, globToRegExp } from './artifacts';
+import { OutputBuffer, OutputLimits, resolveOutputLimits } from './outputBuffer';
+import { ResultCache, ResultCacheOptions } from './resultCache';
+import { SandboxPolicy, effectiveLimits, sandboxPolicies } from './sandboxPolicy';
+import { EgressProxy, EgressSession, addToSecurityReport, proxyEnvironment } from './egressProxy';
+import { BackendCapabilities, BackendSecurityStatus, ExecutionBackend } from './executionBackend';
+import { ExecutionStatus, ExecutionTracker, RunWatch, STOP_GRACE_PERIOD, stoppedResult, withStatus } from './executionTracker';
 
 // Core interfaces for execution system
 export interface ExecutionRequest {
   id: string;
   language: SupportedLanguage;
   code: string;
+  files?: Record<string, string>; // relative path -> contents, for multi-file projects
+  entrypoint?: string; // file to run, relative to the project root (default main.<ext>)
+  workingDirectory?: string; // subdirectory to run from, relative to the project root
+  stdin?: string; // written to the program's standard input, then closed
+  args?: string[]; // command-line arguments for the program
+  artifacts?: string[]; // glob patterns of files to return, relative to the project root
+  artifactDelivery?: ArtifactDelivery; // base64 in the result (default) or a download URL
+  outputLimits?: Partial<OutputLimits>; // bytes of stdout/stderr kept, within the server maximum
+  cache?: boolean; // serve/store the result in the result cache; false bypasses it
   tests?: string[];
   dependencies?: string[];
-  timeout?: number;
-  memoryLimit?: string;
+  timeout?: number; // ms, within the policy's timeout
+  memoryLimit?: string; // within the policy's memory limit
+  policy?: string; // sandbox policy, see sandboxPolicy.ts (default policy when omitted)
+  allowedHosts?: string[]; // reachable through the egress proxy, under an 'egress' policy
+  backend?: string; // execution backend, within the policy (see executionBackend.ts)
+  aiAssistant?: string; // the assistant that wrote the code, recorded in execution memory
+  conversationId?: string; // the assistant conversation the run belongs to (see conversationTimeline.ts)
+  caller?: string; // X-CodeContext-Caller of the request, set by the server; scopes execution memory, sessions, jobs, runs in flight and artifact downloads
   projectContext?: ProjectContext;
 }
 
@@ -23,7 +55,14 @@ export interface ExecutionResult {
   exitCode: number;
   executionTime: number;
   memoryUsage: number;
+  status?: ExecutionStatus; // 'cancelled' and 'timed-out' runs were stopped, see executionTracker.ts
+  exitReason?: string; // why a stopped run ended
+  cached?: boolean; // served from the result cache
+  truncated?: Partial<Record<OutputStream, number>>; // bytes dropped past the output limits
+  artifacts?: Artifact[];
   testResults?: TestResult[];
+  diagnostics?: Diagnostic[]; // parsed from compiler, interpreter and test output
+  dependencyErrors?: DependencyError[]; // dependencies the offline cache could not provide
   performanceMetrics?: PerformanceMetrics;
   securityReport?: SecurityReport;
   improvements?: {
@@ -33,6 +72,20 @@ export interface ExecutionResult {
   };
 }
 
+export type ExecutionPhase = 'install' | 'compile' | 'run' | 'test';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'note';
+
+export interface Diagnostic {
+  phase: ExecutionPhase;
+  file?: string; // relative to the project root when it is inside it
+  line?: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  code?: string; // e.g. TS2322, E0425, NameError
+  message: string;
+}
+
 export interface TestResult {
   name: string;
   passed: boolean;
@@ -44,9 +97,20 @@ export interface TestResult {
 export interface PerformanceMetrics {
   cpuUsage: number;
   memoryPeak: number;
-  ioOperations: number;
+  ioOperations: number; // block I/O operations, or bytes where the host reports only those (cgroup v2)
   networkCalls: number;
   executionProfile: ExecutionProfile[];
+  samples?: ResourceSample[];
+}
+
+export interface ResourceSample {
+  timestamp: number; // ms since the container started
+  cpuPercent: number;
+  memoryUsage: number;
+  blockReadBytes: number;
+  blockWriteBytes: number;
+  networkRxPackets: number;
+  networkTxPackets: number;
 }
 
 export interface ExecutionProfile {
@@ -62,6 +126,7 @@ export interface SecurityReport {
   processSpawned: string[];
   suspiciousOperations: string[];
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  traced?: boolean; // false when no syscall trace could be recorded
 }
 
 export interface ProjectContext {
@@ -71,37 +136,220 @@ export interface ProjectContext {
   environmentVariables: Record<string, string>;
 }
 
-export type SupportedLanguage = 'javascript' | 'typescript' | 'python' | 'go' | 'rust';
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface OutputChunk {
+  stream: OutputStream;
+  data: string;
+}
+
+// Receives program output as it is produced, before the final result
+export type OutputListener = (chunk: OutputChunk) => void;
+
+// Built-in runtimes; more can be registered, see languageRuntime.ts
+export type SupportedLanguage =
+  | 'javascript' | 'typescript' | 'python' | 'go' | 'rust'
+  | 'java' | 'c' | 'cpp' | 'ruby' | 'bash';
+
+export interface ExecutionEngineOptions {
+  pool?: Partial<ContainerPoolOptions>; // keep warm containers; omit to create one per run
+  dependencyCacheDir?: string; // offline package mirror, see dependencyCache.ts
+  sessions?: Partial<SessionOptions>;
+  artifacts?: Partial<ArtifactStoreOptions>;
+  resultCache?: Partial<ResultCacheOptions>;
+}
+
+export const DEFAULT_DEPENDENCY_CACHE_DIR = './dependency-cache';
+
+// Internal network for the 'egress' policy network mode; its only way out is the proxy
+const EGRESS_NETWORK = process.env.CODECONTEXT_EGRESS_NETWORK || 'codecontext-egress';
+
+// How long an inspected image ID is trusted before asking Docker again
+const IMAGE_ID_TTL = 30 * 1000;
 
-export class ExecutionEngine {
+// How long past the grace period a stopped container may take to exit
+const STOP_DEADLINE = 10 * 1000;
+
+// Compiler output, inside the reserved workspace directory
+const BUILD_DIR = path.posix.join(TEST_DIR, 'build');
+
+export class ExecutionEngine implements ExecutionBackend {
+  readonly name = 'docker';
   private docker: Docker;
   private sandboxDir: string;
   private containers: Map<string, Docker.Container> = new Map();
+  private testRunner = new TestRunner();
+  private securityTracer: SecurityTracer;
+  private pool?: ContainerPool;
+  private dependencyCache: DependencyCache;
+  readonly sessions: SessionManager;
+  readonly executions = new ExecutionTracker();
+  readonly artifacts: ArtifactStore;
+  readonly resultCache: ResultCache;
+  private imageIds: Map<string, { id: string; checkedAt: number }> = new Map();
+  private egressProxy = new EgressProxy();
+  private egressGateway?: Promise<string>;
 
-  constructor(sandboxDir: string = './sandbox') {
+  constructor(sandboxDir: string = './sandbox', options: ExecutionEngineOptions = {}) {
     this.docker = new Docker();
+    this.securityTracer = new SecurityTracer(process.env.CODECONTEXT_STRACE_PATH);
     this.sandboxDir = path.resolve(sandboxDir);
     this.ensureSandboxDirectory();
+    this.dependencyCache = new DependencyCache(
+      options.dependencyCacheDir || process.env.CODECONTEXT_DEPENDENCY_CACHE || DEFAULT_DEPENDENCY_CACHE_DIR
+    );
+    this.sessions = new SessionManager(
+      (request, onOutput, onExit) => this.startSessionProcess(request, onOutput, onExit),
+      options.sessions
+    );
+    this.artifacts = new ArtifactStore(options.artifacts);
+    this.resultCache = new ResultCache(language => this.getRuntimeVersion(language), options.resultCache);
+
+    if (options.pool) {
+      // Pooled containers run under the default policy. Only its scratch
+      // mounts are wiped between tenants, so with a writable root filesystem
+      // a container serves a single run.
+      const policy = sandboxPolicies.get();
+      this.pool = new ContainerPool(
+        this.sandboxDir,
+        (language, directory) => this.createPooledContainer(language, directory),
+        {
+          ...options.pool,
+          scratch: Object.keys(policy.tmpfs),
+          ...(policy.readOnlyRootfs ? {} : { maxUses: 1 })
+        },
+        (language, container) => this.warmUpContainer(language, container)
+      );
+    }
+  }
+
+  /**
+   * Start the warm container pool, if one is configured.
+   */
+  async initialize(): Promise<void> {
+    await this.pool?.start();
+  }
+
+  async shutdown(): Promise<void> {
+    this.executions.shutdown();
+    await this.sessions.shutdown();
+    await this.pool?.shutdown();
+    await this.egressProxy.shutdown();
+    this.artifacts.shutdown();
+    console.log('🛑 Execution engine shutdown');
+  }
+
+  getPoolStatus(): Record<string, { idle: number; busy: number }> | undefined {
+    return this.pool?.getStatus();
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return {
+      isolation: 'container',
+      resourceLimits: ['timeout', 'memory', 'cpus', 'pids'],
+      networkModes: ['none', 'bridge', 'egress'],
+      seccomp: true,
+      syscallTracing: true,
+      warmPool: Boolean(this.pool),
+      tests: true,
+      languages: runtimeRegistry.list().map(runtime => runtime.language)
+    };
   }
 
-  async executeCode(request: ExecutionRequest): Promise<ExecutionResult> {
+  /**
+   * What the sandbox enforces, and whether the Docker daemon answers.
+   */
+  async getSecurityStatus(): Promise<BackendSecurityStatus> {
+    let available = true;
+    try {
+      await this.docker.ping();
+    } catch {
+      available = false;
+    }
+
+    return {
+      securityEnabled: true,
+      securityLevel: 'container',
+      activeProtections: [
+        'container isolation',
+        'sandbox policy limits',
+        'seccomp',
+        'capability drop',
+        'no-new-privileges',
+        'network isolation',
+        'syscall tracing'
+      ],
+      available,
+      status: available ? 'Docker sandbox ready' : 'Docker daemon unreachable'
+    };
+  }
+
+  /**
+   * Run the request, or return the cached result. The run can be cancelled
+   * by its id through `executions` while it is in flight.
+   */
+  async executeCode(request: ExecutionRequest, onOutput?: OutputListener): Promise<ExecutionResult> {
+    const tracked = { ...request, id: request.id || uuidv4() };
+    const run = this.executions.start(tracked);
+    try {
+      return withStatus(await this.resultCache.execute(tracked, () => this.execute(tracked, onOutput, run.signal), onOutput));
+    } finally {
+      run.finish();
+    }
+  }
+
+  private async execute(request: ExecutionRequest, onOutput?: OutputListener, signal?: AbortSignal): Promise<ExecutionResult> {
     const startTime = Date.now();
-    const executionId = request.id || uuidv4();
+    const executionId = request.id;
     
     console.log(`🚀 Executing ${request.language} code (ID: ${executionId})`);
 
+    let environment: ExecutionEnvironment | undefined;
+
     try {
+      // Reject bad patterns before anything runs
+      (request.artifacts || []).forEach(globToRegExp);
+
+      // Containers have no network, so every dependency must come from the offline cache
+      const dependencyErrors = await this.dependencyCache.findMissing(request.language, request.dependencies || []);
+      if (dependencyErrors.length > 0) {
+        console.log(`📦 Missing dependencies: ${dependencyErrors.map(error => error.name).join(', ')}`);
+        return {
+          id: executionId,
+          success: false,
+          output: '',
+          errors: dependencyErrors.map(error => error.message),
+          exitCode: 1,
+          executionTime: Date.now() - startTime,
+          memoryUsage: 0,
+          dependencyErrors
+        };
+      }
+
       // Create isolated execution environment
-      const environment = await this.createExecutionEnvironment(request);
+      environment = await this.createExecutionEnvironment(request);
       
       // Execute code in sandbox
-      const result = await this.runInSandbox(environment, request);
+      const result = await this.runInSandbox(environment, request, onOutput, signal);
       
-      // Run tests if provided
-      if (request.tests && request.tests.length > 0) {
+      // Run tests if provided, unless the run was stopped
+      if (request.tests && request.tests.length > 0 && !result.status) {
         result.testResults = await this.runTests(environment, request);
       }
 
+      // Structured diagnostics per phase; read before the workspace goes away
+      await this.attachDiagnostics(environment, result);
+
+      if (request.artifacts && request.artifacts.length > 0) {
+        result.artifacts = await this.artifacts.collect(
+          environment.directory,
+          request.artifacts,
+          executionId,
+          request.artifactDelivery,
+          request.caller
+        );
+      }
+
       // Collect performance metrics
       result.performanceMetrics = await this.collectPerformanceMetrics(environment);
       
@@ -118,6 +366,15 @@ export class ExecutionEngine {
 
     } catch (error) {
       console.error(`❌ Execution failed:`, error);
+
+      // A pooled container that failed mid-run can't be trusted for the next tenant
+      if (environment) {
+        if (environment.pooled) {
+          environment.pooled.tainted = true;
+        }
+        await this.cleanupEnvironment(environment);
+      }
+
       return {
         id: executionId,
         success: false,
@@ -130,161 +387,455 @@ export class ExecutionEngine {
     }
   }
 
-  private async createExecutionEnvironment(request: ExecutionRequest): Promise<ExecutionEnvironment> {
+  /**
+   * Start a session's program in its own container and keep stdin open. The
+   * container is removed when the session is closed.
+   */
+  private async startSessionProcess(
+    request: ExecutionRequest,
+    onOutput: OutputListener,
+    onExit: (exitCode: number) => void
+  ): Promise<SessionProcess> {
+    const dependencyErrors = await this.dependencyCache.findMissing(request.language, request.dependencies || []);
+    if (dependencyErrors.length > 0) {
+      throw new Error(dependencyErrors.map(error => error.message).join('; '));
+    }
+
+    // Sessions have no test stage
+    const environment = await this.createExecutionEnvironment({ ...request, tests: undefined }, true);
+    const container = environment.container;
+
+    try {
+      const stream = await container.attach({ stream: true, stdin: true, stdout: true, stderr: true, hijack: true });
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      stdout.on('data', (chunk: Buffer) => onOutput({ stream: 'stdout', data: chunk.toString() }));
+      stderr.on('data', (chunk: Buffer) => onOutput({ stream: 'stderr', data: chunk.toString() }));
+      this.docker.modem.demuxStream(stream, stdout, stderr);
+
+      await container.start();
+      await this.admitEgressClient(environment);
+      container.wait().then(
+        (result: { StatusCode: number }) => onExit(result.StatusCode),
+        () => onExit(1)
+      );
+
+      return {
+        write: (data: string) => {
+          stream.write(data);
+        },
+        closeInput: () => {
+          stream.end();
+        },
+        kill: async () => {
+          (stream as NodeJS.ReadWriteStream & { destroy?: () => void }).destroy?.();
+          await this.cleanupEnvironment(environment);
+        }
+      };
+    } catch (error) {
+      await this.cleanupEnvironment(environment);
+      throw error;
+    }
+  }
+
+  private async createExecutionEnvironment(
+    request: ExecutionRequest,
+    interactive: boolean = false
+  ): Promise<ExecutionEnvironment> {
+    // Pooled runs are exec'd and can't be attached to for a session
+    const pooled = !interactive && this.canUsePool(request) ? await this.pool!.acquire(request.language) : undefined;
     const envId = uuidv4();
-    const envDir = path.join(this.sandboxDir, envId);
-    
-    await fs.ensureDir(envDir);
-    
-    // Write code to file
-    const codeFile = await this.writeCodeToFile(envDir, request);
+    const envDir = pooled ? pooled.directory : path.join(this.sandboxDir, envId);
+    let egress: EgressSession | undefined;
     
-    // Create Docker container
-    const container = await this.createContainer(request.language, envDir, request);
-    
-    return {
-      id: envId,
-      directory: envDir,
-      codeFile,
-      container,
-      language: request.language
-    };
+    try {
+      await fs.ensureDir(envDir);
+
+      // The egress proxy is the only thing the internal network can reach
+      const policy = sandboxPolicies.get(request.policy);
+      sandboxPolicies.checkEgress(policy, request.allowedHosts);
+      if (policy.network === 'egress') {
+        egress = await this.openEgress(request.allowedHosts || []);
+      }
+      
+      // Write code (or the whole project) to the workspace
+      const layout = await this.writeCodeToFile(envDir, request);
+      
+      // Tests run in the same container, right after the code
+      const testCommand = request.tests && request.tests.length > 0
+        ? await this.testRunner.prepare(envDir, runtimeRegistry.get(request.language), request.tests, layout.entrypoint)
+        : undefined;
+      
+      const command = this.withTestStage(
+        this.securityTracer.wrap(this.getExecutionCommand(request.language, request, layout)),
+        testCommand
+      );
+      
+      // Reuse a warm container, or create a fresh one for this run
+      const container = pooled
+        ? pooled.container
+        : await this.createContainer(request.language, envDir, request, layout, command, interactive, egress);
+      
+      return {
+        id: envId,
+        directory: envDir,
+        codeFile: layout.entrypoint,
+        workingDirectory: layout.workingDirectory,
+        container,
+        language: request.language,
+        command,
+        testCommand,
+        monitor: new ResourceMonitor(),
+        pooled,
+        egress
+      };
+    } catch (error) {
+      await egress?.close();
+      if (pooled) {
+        await this.pool!.release(pooled);
+      } else {
+        await fs.remove(envDir).catch(() => undefined);
+      }
+      throw error;
+    }
   }
 
-  private async writeCodeToFile(envDir: string, request: ExecutionRequest): Promise<string> {
-    const extensions = {
-      javascript: 'js',
-      typescript: 'ts',
-      python: 'py',
-      go: 'go',
-      rust: 'rs'
-    };
+  private canUsePool(request: ExecutionRequest): boolean {
+    if (!this.pool || !this.pool.supports(request.language)) {
+      return false;
+    }
+    // Pooled containers are created with the default policy and its limits,
+    // and have no egress network
+    const policy = sandboxPolicies.get();
+    return sandboxPolicies.get(request.policy) === policy && policy.network !== 'egress' &&
+      effectiveLimits(policy, request).memory === effectiveLimits(policy, {}).memory;
+  }
 
-    const extension = extensions[request.language];
-    const fileName = `main.${extension}`;
-    const filePath = path.join(envDir, fileName);
-    
-    await fs.writeFile(filePath, request.code);
+  private async writeCodeToFile(envDir: string, request: ExecutionRequest): Promise<WorkspaceLayout> {
+    const runtime = runtimeRegistry.get(request.language);
+    const layout = await materializeWorkspace(envDir, request, runtimeRegistry.getDefaultEntrypoint(request.language));
+    const workDir = path.join(envDir, layout.workingDirectory);
+    const entry = path.posix.relative(layout.workingDirectory, layout.entrypoint);
+
+    // Compiled languages write their output here
+    await fs.ensureDir(path.join(envDir, BUILD_DIR));
     
-    // Write package.json for Node.js projects
-    if (request.language === 'javascript' || request.language === 'typescript') {
+    // Write package.json for Node.js projects, unless the project brings its own
+    if (runtime.packageManager === 'npm' && !(await fs.pathExists(path.join(workDir, 'package.json')))) {
       const packageJson = {
         name: 'codecontext-execution',
         version: '1.0.0',
-        main: fileName,
-        dependencies: this.getDependenciesObject(request.dependencies || [])
+        main: entry,
+        dependencies: this.getDependenciesObject(request.language, request.dependencies || [])
       };
-      await fs.writeJson(path.join(envDir, 'package.json'), packageJson);
+      await fs.writeJson(path.join(workDir, 'package.json'), packageJson);
     }
     
     // Write requirements.txt for Python
-    if (request.language === 'python' && request.dependencies) {
+    if (runtime.packageManager === 'pip' && request.dependencies &&
+        !(await fs.pathExists(path.join(workDir, 'requirements.txt')))) {
       await fs.writeFile(
-        path.join(envDir, 'requirements.txt'),
+        path.join(workDir, 'requirements.txt'),
         request.dependencies.join('\n')
       );
     }
     
-    return fileName;
+    // Write Cargo.toml for Rust, pointing the binary at the entrypoint
+    if (runtime.packageManager === 'cargo' && !(await fs.pathExists(path.join(workDir, 'Cargo.toml')))) {
+      const dependencies = Object.entries(this.getDependenciesObject(request.language, request.dependencies || []))
+        .map(([name, version]) => `${name} = ${JSON.stringify(version)}\n`)
+        .join('');
+      await fs.writeFile(
+        path.join(workDir, 'Cargo.toml'),
+        `[package]\nname = "main"\nversion = "0.1.0"\nedition = "2021"\n\n[[bin]]\nname = "main"\npath = ${JSON.stringify(entry)}\n\n[dependencies]\n${dependencies}`
+      );
+    }
+
+    // Point cargo at the vendored crates of the offline cache
+    if (runtime.packageManager === 'cargo') {
+      await fs.outputFile(path.join(workDir, '.cargo', 'config.toml'), this.dependencyCache.getCargoConfig());
+    }
+    
+    return layout;
   }
 
   private async createContainer(
     language: SupportedLanguage,
     envDir: string,
-    request: ExecutionRequest
+    request: ExecutionRequest,
+    layout: WorkspaceLayout,
+    command: string[],
+    interactive: boolean = false,
+    egress?: EgressSession
   ): Promise<Docker.Container> {
-    const images = {
-      javascript: 'node:18-alpine',
-      typescript: 'node:18-alpine',
-      python: 'python:3.11-alpine',
-      go: 'golang:1.20-alpine',
-      rust: 'rust:1.70-alpine'
-    };
-
-    const image = images[language];
+    const image = this.getImage(language);
     console.log(`🐳 Creating container with image: ${image}`);
-    console.log(`📁 Binding directory: ${envDir} -> /workspace`);
+    console.log(`📁 Binding directory: ${envDir} -> ${CONTAINER_WORKSPACE}`);
+
+    const policy = sandboxPolicies.get(request.policy);
+    const hostConfig = this.getHostConfig(envDir, policy, request.memoryLimit);
+    if (interactive) {
+      // Sessions are stopped after the timeout; no process may use more CPU than that meanwhile
+      const cpuSeconds = Math.ceil(effectiveLimits(policy, request).timeout / 1000);
+      hostConfig.Ulimits = [{ Name: 'cpu', Soft: cpuSeconds, Hard: cpuSeconds }];
+    }
 
     const container = await this.docker.createContainer({
       Image: image,
-      WorkingDir: '/workspace',
-      Cmd: this.getExecutionCommand(language, request),
-      HostConfig: {
-        Binds: [`${envDir.replace(/\\/g, '/')}:/workspace`],
-        Memory: this.parseMemoryLimit(request.memoryLimit || '128m'),
-        CpuShares: 512, // Limit CPU usage
-        NetworkMode: 'none', // No network access by default
-        ReadonlyRootfs: false, // Allow writes to workspace
-        Tmpfs: {
-          '/tmp': 'rw,noexec,nosuid,size=100m'
-        }
-      },
-      Env: this.getEnvironmentVariables(request)
+      WorkingDir: path.posix.join(CONTAINER_WORKSPACE, layout.workingDirectory),
+      Cmd: command,
+      HostConfig: hostConfig,
+      Env: this.getEnvironmentVariables(request, egress),
+      // Sessions keep stdin open; a one-shot run gets EOF once request.stdin is written
+      OpenStdin: interactive || request.stdin !== undefined,
+      StdinOnce: !interactive && request.stdin !== undefined,
+      AttachStdin: interactive || request.stdin !== undefined
     });
 
     return container;
   }
 
-  private getExecutionCommand(language: SupportedLanguage, request: ExecutionRequest): string[] {
-    switch (language) {
-      case 'javascript':
-        return ['node', 'main.js'];
-      case 'typescript':
-        return ['sh', '-c', 'npm install -g typescript && npm install && npx tsc main.ts && node main.js'];
-      case 'python':
-        return ['sh', '-c', 'pip install -r requirements.txt 2>/dev/null || true && python main.py'];
-      case 'go':
-        return ['sh', '-c', 'go mod init main 2>/dev/null || true && go run main.go'];
-      case 'rust':
-        return ['sh', '-c', 'cargo init --name main . 2>/dev/null || true && cargo run'];
-      default:
-        throw new Error(`Unsupported language: ${language}`);
+  /**
+   * Create and start an idle container for the pool. Its main process only
+   * keeps it alive; runs are exec'd into it.
+   */
+  private async createPooledContainer(language: SupportedLanguage, directory: string): Promise<Docker.Container> {
+    const image = this.getImage(language);
+    console.log(`♨️  Starting pooled container with image: ${image}`);
+
+    const container = await this.docker.createContainer({
+      Image: image,
+      WorkingDir: CONTAINER_WORKSPACE,
+      Cmd: ['tail', '-f', '/dev/null'],
+      HostConfig: this.getHostConfig(directory, sandboxPolicies.get()),
+      Labels: { 'codecontext.pool': language }
+    });
+
+    await container.start();
+    return container;
+  }
+
+  /**
+   * One-time preparation of a pooled container, so runs don't repeat it.
+   */
+  private async warmUpContainer(language: SupportedLanguage, container: Docker.Container): Promise<void> {
+    const warmup = runtimeRegistry.get(language).warmup;
+    if (warmup) {
+      const { exitCode } = await this.execInContainer(
+        container,
+        ['sh', '-c', warmup],
+        CONTAINER_WORKSPACE,
+        this.dependencyCache.getEnvironment(language)
+      );
+      if (exitCode !== 0) {
+        throw new Error(`${language} warm-up exited with ${exitCode}`);
+      }
+    }
+  }
+
+  private getImage(language: SupportedLanguage): string {
+    return runtimeRegistry.get(language).image;
+  }
+
+  /**
+   * The image ID a language currently runs on, plus the runtime definition,
+   * so a pulled or rebuilt image invalidates cached results.
+   */
+  private async getRuntimeVersion(language: string): Promise<string> {
+    const image = this.getImage(language as SupportedLanguage);
+    let known = this.imageIds.get(image);
+
+    if (!known || Date.now() - known.checkedAt > IMAGE_ID_TTL) {
+      const id = await this.docker.getImage(image).inspect()
+        .then((info: { Id: string }) => info.Id)
+        .catch(() => image);
+      known = { id, checkedAt: Date.now() };
+      this.imageIds.set(image, known);
+    }
+
+    return `${known.id}:${runtimeRegistry.fingerprint(language)}`;
+  }
+
+  /**
+   * Resource limits and isolation, all from the sandbox policy. The
+   * workspace bind stays writable even with a read-only root filesystem.
+   */
+  private getHostConfig(envDir: string, policy: SandboxPolicy, memoryLimit?: string): Docker.HostConfig {
+    const securityOpt: string[] = [];
+    if (policy.noNewPrivileges) {
+      securityOpt.push('no-new-privileges:true');
+    }
+    const seccomp = sandboxPolicies.getSeccompProfile(policy);
+    if (seccomp) {
+      securityOpt.push(`seccomp=${seccomp}`);
     }
+
+    return {
+      Binds: [
+        `${envDir.replace(/\\/g, '/')}:${CONTAINER_WORKSPACE}`,
+        ...this.securityTracer.getBinds(),
+        ...this.dependencyCache.getBinds()
+      ],
+      Memory: effectiveLimits(policy, { memoryLimit }).memory,
+      NanoCpus: Math.round(policy.cpus * 1e9),
+      PidsLimit: policy.pidsLimit,
+      NetworkMode: policy.network === 'egress' ? EGRESS_NETWORK : policy.network,
+      ReadonlyRootfs: policy.readOnlyRootfs,
+      Tmpfs: Object.fromEntries(
+        Object.entries(policy.tmpfs).map(([mount, size]) => [mount, `rw,noexec,nosuid,size=${size}`])
+      ),
+      CapDrop: policy.capDrop,
+      CapAdd: policy.capAdd,
+      SecurityOpt: securityOpt
+    };
+  }
+
+  private getExecutionCommand(
+    language: SupportedLanguage,
+    request: ExecutionRequest,
+    layout: WorkspaceLayout
+  ): string[] {
+    // Commands run from the working directory; installs read from the
+    // offline dependency cache (see getEnvironmentVariables)
+    return ['sh', '-c', runtimeRegistry.buildScript(language, {
+      entrypoint: path.posix.relative(layout.workingDirectory, layout.entrypoint),
+      buildDir: path.posix.join(CONTAINER_WORKSPACE, BUILD_DIR),
+      logDir: path.posix.join(CONTAINER_WORKSPACE, TEST_DIR),
+      dependencies: this.dependencyCache.parse(language, request.dependencies || []).map(spec => spec.raw),
+      args: request.args
+    })];
+  }
+
+  /**
+   * Append the test stage to the run command. Test output goes to files in
+   * the workspace, so stdout/stderr and the exit code stay the program's own.
+   */
+  private withTestStage(command: string[], testCommand?: string): string[] {
+    if (!testCommand) {
+      return command;
+    }
+
+    const runStep = command.length === 3 && command[0] === 'sh' && command[1] === '-c'
+      ? `(${command[2]})`
+      : command.map(shellQuote).join(' ');
+
+    return ['sh', '-c', `${runStep}; status=$?; ${testCommand}; exit $status`];
   }
 
   private async runInSandbox(
     environment: ExecutionEnvironment,
-    request: ExecutionRequest
+    request: ExecutionRequest,
+    onOutput?: OutputListener,
+    signal?: AbortSignal
   ): Promise<ExecutionResult> {
-    const container = environment.container;
-
-    // Set timeout
-    const timeout = request.timeout || 30000; // 30 seconds default
+    // The request may only shorten the policy's timeout. Past it, or when the
+    // run is cancelled, the container is stopped; if even that doesn't end
+    // the run, give up on it
+    const { timeout } = effectiveLimits(sandboxPolicies.get(request.policy), request);
+    let watch!: RunWatch;
+    let deadlineTimer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Execution timeout')), timeout);
+      watch = new RunWatch(timeout, signal, (reason) => {
+        this.stopContainer(environment);
+        deadlineTimer = setTimeout(
+          () => reject(new Error(`Container did not stop after ${reason === 'timeout' ? 'timeout' : 'cancellation'}`)),
+          STOP_GRACE_PERIOD + STOP_DEADLINE
+        );
+      });
     });
 
+    // Kept up to the output limits; the rest is only counted
+    const buffer = new OutputBuffer(resolveOutputLimits(request.outputLimits), onOutput);
+
+    // Collect output from stream; frames can span chunks, so let the modem demux them
+    const collect = (stream: NodeJS.ReadableStream): Promise<void> => {
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      stdout.on('data', (chunk: Buffer) => buffer.push('stdout', chunk));
+      stderr.on('data', (chunk: Buffer) => buffer.push('stderr', chunk));
+      this.docker.modem.demuxStream(stream, stdout, stderr);
+
+      return new Promise<void>((resolve) => {
+        stream.on('end', () => {
+          console.log('📤 Stream ended, output collected');
+          resolve();
+        });
+      });
+    };
+
+    try {
+      const exitCode = environment.pooled
+        ? await this.runInPooledContainer(environment, request, collect, timeoutPromise)
+        : await this.runInFreshContainer(environment, request, collect, timeoutPromise);
+
+      const metrics = await environment.monitor.stop();
+      const memoryUsage = metrics.memoryPeak;
+      const errors = buffer.text('stderr').trim();
+      
+      const result: ExecutionResult = {
+        id: request.id,
+        success: exitCode === 0,
+        output: buffer.text('stdout').trim(),
+        errors: errors ? [errors] : [],
+        exitCode,
+        executionTime: 0, // Will be set by caller
+        memoryUsage,
+        truncated: buffer.truncated()
+      };
+      return watch.reason ? stoppedResult(result, watch.reason, timeout) : result;
+      
+    } finally {
+      watch.dispose();
+      clearTimeout(deadlineTimer);
+    }
+  }
+
+  /**
+   * SIGTERM, then SIGKILL after the grace period, to everything in the
+   * container. A pooled container goes with it rather than back to the pool.
+   */
+  private stopContainer(environment: ExecutionEnvironment): void {
+    if (environment.pooled) {
+      environment.pooled.tainted = true;
+    }
+    environment.container.stop({ t: Math.ceil(STOP_GRACE_PERIOD / 1000) }).catch((error: unknown) => {
+      if (dockerError(error).statusCode !== 304) {
+        console.warn('⚠️  Error stopping container:', error);
+      }
+    });
+  }
+
+  private async runInFreshContainer(
+    environment: ExecutionEnvironment,
+    request: ExecutionRequest,
+    collect: (stream: NodeJS.ReadableStream) => Promise<void>,
+    timeoutPromise: Promise<never>
+  ): Promise<number> {
+    const container = environment.container;
+
     try {
       console.log('🐳 Attaching to container before starting...');
+      const withStdin = request.stdin !== undefined;
       const stream = await container.attach({
         stream: true,
+        stdin: withStdin,
         stdout: true,
-        stderr: true
+        stderr: true,
+        hijack: withStdin
       });
+      const outputPromise = collect(stream);
 
       console.log('🚀 Starting container...');
       await container.start();
+      await this.admitEgressClient(environment);
       console.log('✅ Container started successfully');
-      
-      let output = '';
-      let errors = '';
-
-      // Collect output from stream
-      const outputPromise = new Promise<void>((resolve) => {
-        stream.on('data', (chunk: any) => {
-          const data = chunk.toString();
-          if (chunk[0] === 1) { // stdout
-            output += data.slice(8); // Remove Docker stream header
-          } else if (chunk[0] === 2) { // stderr
-            errors += data.slice(8);
-          }
-        });
 
-        stream.on('end', () => {
-          console.log('📤 Stream ended, output collected');
-          resolve();
-        });
-      });
+      if (withStdin) {
+        this.writeStdin(stream, request.stdin!);
+      }
+
+      // Sample resource usage for the whole run
+      await environment.monitor.start(container);
 
       // Wait for container to finish
       let waitResult;
@@ -293,9 +844,10 @@ export class ExecutionEngine {
           container.wait(),
           timeoutPromise
         ]);
-      } catch (error: any) {
-        console.log('🔍 Container wait error:', error.statusCode, error.reason);
-        if (error.statusCode === 304 && error.reason === 'container already stopped') {
+      } catch (error) {
+        const { statusCode, reason } = dockerError(error);
+        console.log('🔍 Container wait error:', statusCode, reason);
+        if (isAlreadyStopped(error)) {
           // Container finished successfully but already stopped
           console.log('✅ Container completed successfully');
           waitResult = { StatusCode: 0 };
@@ -308,30 +860,13 @@ export class ExecutionEngine {
       // Wait for output to be fully collected
       await outputPromise;
 
-      // Try to get stats, but don't fail if container is already stopped
-      let memoryUsage = 0;
-      try {
-        const stats = await container.stats({ stream: false });
-        memoryUsage = stats.memory_stats?.usage || 0;
-      } catch (error) {
-        console.log('📊 Could not get container stats (container already stopped)');
-      }
-      
-      return {
-        id: environment.id,
-        success: waitResult.StatusCode === 0,
-        output: output.trim(),
-        errors: errors ? [errors.trim()] : [],
-        exitCode: waitResult.StatusCode,
-        executionTime: 0, // Will be set by caller
-        memoryUsage
-      };
+      return waitResult.StatusCode;
       
     } finally {
       try {
         await container.stop();
-      } catch (error: any) {
-        if (error.statusCode === 304 && error.reason === 'container already stopped') {
+      } catch (error) {
+        if (isAlreadyStopped(error)) {
           console.log('🧹 Container already stopped, skipping stop command');
         } else {
           console.warn('⚠️  Error stopping container:', error);
@@ -340,44 +875,187 @@ export class ExecutionEngine {
     }
   }
 
+  private async runInPooledContainer(
+    environment: ExecutionEnvironment,
+    request: ExecutionRequest,
+    collect: (stream: NodeJS.ReadableStream) => Promise<void>,
+    timeoutPromise: Promise<never>
+  ): Promise<number> {
+    const container = environment.container;
+    console.log(`♨️  Running in pooled container ${environment.pooled!.id}`);
+
+    // The container is shared over time, so only count what this run adds
+    await environment.monitor.start(container, true);
+
+    const { exitCode } = await Promise.race([
+      this.execInContainer(
+        container,
+        environment.command,
+        path.posix.join(CONTAINER_WORKSPACE, environment.workingDirectory),
+        this.getEnvironmentVariables(request),
+        collect,
+        request.stdin
+      ),
+      timeoutPromise
+    ]);
+
+    return exitCode;
+  }
+
+  /**
+   * Run a command in a running container and wait for it to exit.
+   */
+  private async execInContainer(
+    container: Docker.Container,
+    cmd: string[],
+    workingDir: string,
+    env: string[],
+    collect?: (stream: NodeJS.ReadableStream) => Promise<void>,
+    stdin?: string
+  ): Promise<{ exitCode: number }> {
+    const exec = await container.exec({
+      Cmd: cmd,
+      WorkingDir: workingDir,
+      Env: env,
+      AttachStdin: stdin !== undefined,
+      AttachStdout: true,
+      AttachStderr: true
+    });
+    const stream = await exec.start({ hijack: true, stdin: stdin !== undefined });
+
+    if (stdin !== undefined) {
+      this.writeStdin(stream, stdin);
+    }
+
+    if (collect) {
+      await collect(stream);
+    } else {
+      await new Promise<void>((resolve) => {
+        stream.on('end', () => resolve());
+        stream.resume();
+      });
+    }
+
+    const info = await exec.inspect();
+    return { exitCode: info.ExitCode ?? 1 };
+  }
+
+  /**
+   * Write the whole input and half-close the hijacked stream so the program
+   * sees EOF; output keeps flowing the other way.
+   */
+  private writeStdin(stream: NodeJS.ReadWriteStream, stdin: string): void {
+    stream.write(stdin);
+    stream.end();
+  }
+
   private async runTests(
     environment: ExecutionEnvironment,
     request: ExecutionRequest
   ): Promise<TestResult[]> {
-    // Implementation for running tests
-    // This would create test files and run them
-    return [];
+    // The test stage already ran inside the container; read back its results
+    return this.testRunner.collect(environment.directory, runtimeRegistry.get(environment.language), request.tests || []);
+  }
+
+  private async attachDiagnostics(environment: ExecutionEnvironment, result: ExecutionResult): Promise<void> {
+    const diagnosis = diagnoseExecution({
+      formats: runtimeRegistry.get(environment.language).diagnostics || [],
+      outcome: await readPhaseOutcome(path.join(environment.directory, TEST_DIR)),
+      stderr: result.errors.join('\n'),
+      exitCode: result.exitCode,
+      testResults: result.testResults
+    }, { roots: [CONTAINER_WORKSPACE], cwd: environment.workingDirectory });
+
+    result.diagnostics = diagnosis.diagnostics;
+    // Install and compile output is logged to files rather than stderr
+    if (diagnosis.failedPhaseOutput) {
+      result.errors.unshift(diagnosis.failedPhaseOutput);
+    }
   }
 
   private async collectPerformanceMetrics(
     environment: ExecutionEnvironment
   ): Promise<PerformanceMetrics> {
-    // Implementation for collecting performance data
-    return {
-      cpuUsage: 0,
-      memoryPeak: 0,
-      ioOperations: 0,
-      networkCalls: 0,
-      executionProfile: []
-    };
+    // Samples were streamed while the container ran
+    return environment.monitor.getMetrics();
   }
 
   private async generateSecurityReport(
     environment: ExecutionEnvironment
   ): Promise<SecurityReport> {
-    // Implementation for security analysis
-    return {
-      fileSystemAccess: [],
-      networkAccess: [],
-      processSpawned: [],
-      suspiciousOperations: [],
-      riskLevel: 'low'
-    };
+    // The run step was traced inside the container; judge what the program did
+    const report = await this.securityTracer.analyze(
+      environment.directory,
+      path.posix.relative(environment.workingDirectory, environment.codeFile),
+      environment.workingDirectory
+    );
+    return environment.egress ? addToSecurityReport(report, environment.egress.connections) : report;
+  }
+
+  /**
+   * Start a proxy listener for one run on the egress network's gateway,
+   * creating the internal network the first time.
+   */
+  private async openEgress(allowedHosts: string[]): Promise<EgressSession> {
+    if (!this.egressGateway) {
+      this.egressGateway = this.ensureEgressNetwork().catch((error) => {
+        this.egressGateway = undefined;
+        throw error;
+      });
+    }
+    const gateway = await this.egressGateway;
+
+    // When the server itself runs in a container, the proxy is reached another way
+    return this.egressProxy.open(allowedHosts, {
+      bindHost: process.env.CODECONTEXT_EGRESS_PROXY_BIND || gateway,
+      advertisedHost: process.env.CODECONTEXT_EGRESS_PROXY_HOST || gateway
+    });
+  }
+
+  /**
+   * Point a run's proxy listener at its container, the only client it serves.
+   */
+  private async admitEgressClient(environment: ExecutionEnvironment): Promise<void> {
+    if (!environment.egress) {
+      return;
+    }
+    const info = await environment.container.inspect();
+    const address = info.NetworkSettings.Networks[EGRESS_NETWORK]?.IPAddress;
+    if (!address) {
+      throw new Error(`Container has no address on ${EGRESS_NETWORK}`);
+    }
+    environment.egress.admit(address);
+  }
+
+  private async ensureEgressNetwork(): Promise<string> {
+    const existing = await this.docker.listNetworks({ filters: { name: [EGRESS_NETWORK] } });
+    const match = existing.find(network => network.Name === EGRESS_NETWORK);
+    const network = match
+      ? this.docker.getNetwork(match.Id)
+      : await this.docker.createNetwork({ Name: EGRESS_NETWORK, Driver: 'bridge', Internal: true });
+
+    const info = await network.inspect();
+    const gateway = info.IPAM?.Config?.[0]?.Gateway;
+    if (!gateway) {
+      throw new Error(`Egress network ${EGRESS_NETWORK} has no gateway address`);
+    }
+    if (!match) {
+      console.log(`🌐 Created internal network ${EGRESS_NETWORK} (proxy on ${gateway})`);
+    }
+    return gateway;
   }
 
   private async cleanupEnvironment(environment: ExecutionEnvironment): Promise<void> {
+    await environment.egress?.close();
+
     try {
-      await environment.container.remove();
+      if (environment.pooled) {
+        // The pool wipes the workspace before the container is reused
+        await this.pool!.release(environment.pooled);
+        return;
+      }
+
+      await environment.container.remove({ force: true });
       await fs.remove(environment.directory);
     } catch (error) {
       console.warn('Cleanup warning:', error);
@@ -388,32 +1066,20 @@ export class ExecutionEngine {
     fs.ensureDirSync(this.sandboxDir);
   }
 
-  private getDependenciesObject(dependencies: string[]): Record<string, string> {
+  private getDependenciesObject(language: SupportedLanguage, dependencies: string[]): Record<string, string> {
     const deps: Record<string, string> = {};
-    dependencies.forEach(dep => {
-      const [name, version] = dep.split('@');
-      deps[name] = version || 'latest';
+    this.dependencyCache.parse(language, dependencies).forEach(spec => {
+      deps[spec.name] = spec.version || (language === 'rust' ? '*' : 'latest');
     });
     return deps;
   }
 
-  private parseMemoryLimit(limit: string): number {
-    const match = limit.match(/^(\d+)([kmg]?)$/i);
-    if (!match) return 128 * 1024 * 1024; // 128MB default
-    
-    const value = parseInt(match[1]);
-    const unit = match[2].toLowerCase();
-    
-    switch (unit) {
-      case 'k': return value * 1024;
-      case 'm': return value * 1024 * 1024;
-      case 'g': return value * 1024 * 1024 * 1024;
-      default: return value;
-    }
-  }
+  private getEnvironmentVariables(request: ExecutionRequest, egress?: EgressSession): string[] {
+    const env = ['NODE_ENV=sandbox', 'PYTHONPATH=/workspace', ...this.dependencyCache.getEnvironment(request.language)];
 
-  private getEnvironmentVariables(request: ExecutionRequest): string[] {
-    const env = ['NODE_ENV=sandbox', 'PYTHONPATH=/workspace'];
+    if (egress) {
+      Object.entries(proxyEnvironment(egress.url)).forEach(([key, value]) => env.push(`${key}=${value}`));
+    }
     
     if (request.projectContext?.environmentVariables) {
       Object.entries(request.projectContext.environmentVariables).forEach(([key, value]) => {
@@ -428,7 +1094,28 @@ export class ExecutionEngine {
 interface ExecutionEnvironment {
   id: string;
   directory: string;
-  codeFile: string;
+  codeFile: string; // entrypoint, relative to the workspace root
+  workingDirectory: string;
   container: Docker.Container;
   language: SupportedLanguage;
+  command: string[];
+  testCommand?: string;
+  monitor: ResourceMonitor;
+  pooled?: PooledContainer;
+  egress?: EgressSession; // proxy listener, under an 'egress' policy
+}
+
+// Docker API errors carry the HTTP status of the call that failed
+interface DockerApiError {
+  statusCode?: number;
+  reason?: string;
+}
+
+function dockerError(error: unknown): DockerApiError {
+  return typeof error === 'object' && error !== null ? error : {};
+}
+
+function isAlreadyStopped(error: unknown): boolean {
+  const { statusCode, reason } = dockerError(error);
+  return statusCode === 304 && reason === 'container already stopped';
 }
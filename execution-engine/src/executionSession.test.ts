@@ -0,0 +1,138 @@
+import { ExecutionRequest, OutputListener } from './executionEngine';
+import { SessionManager, SessionProcess } from './executionSession';
+
+// A program that echoes its input and counts how often it was stopped
+class FakeProcess implements SessionProcess {
+  kills = 0;
+  inputClosed = false;
+
+  constructor(private onOutput: OutputListener, private onExit: (exitCode: number) => void) {}
+
+  write(data: string): void {
+    this.onOutput({ stream: 'stdout', data });
+  }
+
+  closeInput(): void {
+    this.inputClosed = true;
+    this.onExit(0);
+  }
+
+  async kill(): Promise<void> {
+    this.kills++;
+    this.onExit(137);
+  }
+}
+
+describe('SessionManager', () => {
+  let processes: FakeProcess[];
+  let manager: SessionManager;
+
+  const request = (overrides: Partial<ExecutionRequest> = {}): ExecutionRequest =>
+    ({ id: 'session-run', language: 'python', code: 'print(input())', ...overrides });
+
+  const createManager = (options = {}) => {
+    manager = new SessionManager(async (_request, onOutput, onExit) => {
+      const process = new FakeProcess(onOutput, onExit);
+      processes.push(process);
+      return process;
+    }, options);
+    return manager;
+  };
+
+  beforeEach(() => {
+    processes = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('reads only output newer than the cursor', async () => {
+    createManager();
+    const { id } = await manager.create(request());
+
+    manager.sendInput(id, 'one\n');
+    const first = manager.readOutput(id)!;
+    manager.sendInput(id, 'two\n', true);
+    const second = manager.readOutput(id, first.cursor)!;
+
+    expect(first.chunks.map(chunk => chunk.data)).toEqual(['one\n']);
+    expect(second.chunks.map(chunk => chunk.data)).toEqual(['two\n']);
+    expect(second).toMatchObject({ dropped: 0, status: 'exited', exitCode: 0 });
+    expect(() => manager.sendInput(id, 'three\n')).toThrow('no longer running (exited)');
+  });
+
+  it('drops the oldest output over the buffer cap and reports it', async () => {
+    createManager({ maxBufferedBytes: 8 });
+    const { id } = await manager.create(request());
+
+    ['aaaa', 'bbbb', 'cccc'].forEach(data => manager.sendInput(id, data));
+    const output = manager.readOutput(id, 0)!;
+
+    expect(output.chunks.map(chunk => chunk.data)).toEqual(['bbbb', 'cccc']);
+    expect(output).toMatchObject({ dropped: 1, cursor: 3 });
+  });
+
+  it('keeps each caller to their own sessions', async () => {
+    createManager();
+    const mine = await manager.create(request({ caller: 'alice' }));
+    const anonymous = await manager.create(request());
+
+    expect(manager.list('alice').map(session => session.id)).toEqual([mine.id]);
+    expect(manager.list(null).map(session => session.id)).toEqual([anonymous.id]);
+    expect(manager.list()).toHaveLength(2);
+
+    expect(manager.get(mine.id, 'bob')).toBeUndefined();
+    expect(manager.sendInput(mine.id, 'hi\n', false, 'bob')).toBeUndefined();
+    expect(manager.readOutput(mine.id, 0, null)).toBeUndefined();
+    expect(await manager.close(mine.id, 'bob')).toBeUndefined();
+    expect(processes[0].kills).toBe(0);
+
+    manager.sendInput(mine.id, 'hi\n', false, 'alice');
+    expect(manager.readOutput(mine.id, 0, 'alice')!.chunks.map(chunk => chunk.data)).toEqual(['hi\n']);
+    expect(await manager.close(mine.id, 'alice')).toMatchObject({ caller: 'alice', status: 'closed' });
+  });
+
+  it('limits the number of open sessions', async () => {
+    createManager({ maxSessions: 1 });
+    await manager.create(request());
+
+    await expect(manager.create(request())).rejects.toThrow('Too many open sessions');
+  });
+
+  it('stops the program once the timeout has passed and keeps its output readable', async () => {
+    createManager();
+    const session = await manager.create(request({ timeout: 50 }));
+    manager.sendInput(session.id, 'before\n');
+    expect(session.expiresAt - session.createdAt).toBe(50);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(manager.get(session.id)).toMatchObject({ status: 'timed-out', exitReason: 'Session timed out after 50ms' });
+    expect(manager.readOutput(session.id)!.chunks.map(chunk => chunk.data)).toEqual(['before\n']);
+    expect(() => manager.sendInput(session.id, 'after\n')).toThrow('no longer running (timed-out)');
+
+    await manager.close(session.id);
+    expect(processes[0].kills).toBe(1);
+  });
+
+  it('never lets a session outlive the sandbox policy timeout', async () => {
+    createManager();
+    const session = await manager.create(request({ policy: 'strict', timeout: 24 * 60 * 60 * 1000 }));
+
+    expect(session.expiresAt - session.createdAt).toBe(10000);
+  });
+
+  it('closes sessions left idle', async () => {
+    createManager({ idleTimeout: 10 });
+    const { id } = await manager.create(request());
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await manager['expireIdle']();
+
+    expect(manager.get(id)).toBeUndefined();
+    expect(processes[0].kills).toBe(1);
+  });
+});
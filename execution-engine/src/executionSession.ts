@@ -0,0 +1,276 @@
+/**
+ * 💬 Execution Sessions
+ *
+ * Keeps a program running across calls so callers can drive CLIs and
+ * programs that prompt for input: create a session, send input, read the
+ * output produced so far, close it. Engines supply the process (a local
+ * child process or a container attach); this module owns ids, buffering
+ * and expiry. A session is closed after idleTimeout without input or reads,
+ * and its program is stopped once it has run for the sandbox policy's
+ * timeout, as a one-shot run would be; its output can still be read until
+ * it is closed.
+ *
+ * Output is kept as numbered chunks. Readers pass back the cursor they were
+ * given to receive only what is new; once the buffer is over its cap the
+ * oldest chunks are dropped and reported as such.
+ *
+ * A session belongs to the caller that created it (the request's `caller`).
+ * Lookups that name a caller only find that caller's sessions (null: those
+ * created without one); leaving it out, as the server itself does, finds any.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ExecutionRequest, OutputChunk, OutputListener } from './executionEngine';
+import { effectiveLimits, sandboxPolicies } from './sandboxPolicy';
+
+export type SessionStatus = 'running' | 'exited' | 'timed-out' | 'closed';
+
+export interface SessionOptions {
+  maxSessions: number; // concurrently open sessions
+  idleTimeout: number; // ms without input or reads before a session is closed
+  maxBufferedBytes: number; // unread output kept per session
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  maxSessions: 10,
+  idleTimeout: 5 * 60 * 1000,
+  maxBufferedBytes: 1024 * 1024
+};
+
+export interface SessionInfo {
+  id: string;
+  caller?: string;
+  language: string;
+  status: SessionStatus;
+  exitCode?: number;
+  exitReason?: string;
+  createdAt: number;
+  lastActivity: number;
+  expiresAt: number; // the program is stopped at this time
+}
+
+export interface SessionOutput {
+  chunks: OutputChunk[];
+  cursor: number; // pass back to read only newer output
+  dropped: number; // chunks between the requested cursor and the oldest kept one
+  status: SessionStatus;
+  exitCode?: number;
+}
+
+// A running program as seen by the session manager
+export interface SessionProcess {
+  write(data: string): void;
+  closeInput(): void; // send EOF
+  kill(): Promise<void>; // stop the program and release its resources
+}
+
+// Starts the program for a session; output and exit are reported through the callbacks
+export type SessionProcessFactory = (
+  request: ExecutionRequest,
+  onOutput: OutputListener,
+  onExit: (exitCode: number) => void
+) => Promise<SessionProcess>;
+
+interface Session {
+  info: SessionInfo;
+  process?: SessionProcess;
+  chunks: OutputChunk[];
+  firstSequence: number; // sequence number of chunks[0]
+  bufferedBytes: number;
+  inputClosed: boolean;
+  lifetimeTimer?: NodeJS.Timeout;
+  stopped?: Promise<void>;
+}
+
+export class SessionManager {
+  private factory: SessionProcessFactory;
+  private options: SessionOptions;
+  private sessions: Map<string, Session> = new Map();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(factory: SessionProcessFactory, options: Partial<SessionOptions> = {}) {
+    this.factory = factory;
+    this.options = { ...DEFAULT_SESSION_OPTIONS, ...options };
+
+    this.sweepTimer = setInterval(() => {
+      this.expireIdle().catch(error => console.warn('⚠️  Session sweep failed:', error));
+    }, Math.min(this.options.idleTimeout, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  async create(request: ExecutionRequest): Promise<SessionInfo> {
+    if (this.sessions.size >= this.options.maxSessions) {
+      throw new Error(`Too many open sessions (max ${this.options.maxSessions})`);
+    }
+
+    // The request may only shorten the policy's timeout
+    const { timeout } = effectiveLimits(sandboxPolicies.get(request.policy), request);
+    const now = Date.now();
+    const session: Session = {
+      info: {
+        id: uuidv4(),
+        caller: request.caller,
+        language: request.language,
+        status: 'running',
+        createdAt: now,
+        lastActivity: now,
+        expiresAt: now + timeout
+      },
+      chunks: [],
+      firstSequence: 0,
+      bufferedBytes: 0,
+      inputClosed: false
+    };
+    this.sessions.set(session.info.id, session);
+
+    try {
+      session.process = await this.factory(
+        request,
+        chunk => this.append(session, chunk),
+        exitCode => {
+          if (session.info.status === 'running') {
+            session.info.status = 'exited';
+            session.info.exitCode = exitCode;
+          }
+        }
+      );
+    } catch (error) {
+      this.sessions.delete(session.info.id);
+      throw error;
+    }
+
+    session.lifetimeTimer = setTimeout(() => this.timeOut(session, timeout), timeout);
+    session.lifetimeTimer.unref();
+
+    console.log(`💬 Session ${session.info.id} started (${request.language})`);
+    return { ...session.info };
+  }
+
+  /**
+   * Write to the program's stdin; `end` closes stdin afterwards.
+   */
+  sendInput(id: string, data: string, end: boolean = false, caller?: string | null): SessionInfo | undefined {
+    const session = this.find(id, caller);
+    if (!session) {
+      return undefined;
+    }
+    if (session.info.status !== 'running') {
+      throw new Error(`Session ${id} is no longer running (${session.info.status})`);
+    }
+    if (session.inputClosed) {
+      throw new Error(`Input of session ${id} is already closed`);
+    }
+
+    session.info.lastActivity = Date.now();
+    if (data) {
+      session.process!.write(data);
+    }
+    if (end) {
+      session.inputClosed = true;
+      session.process!.closeInput();
+    }
+
+    return { ...session.info };
+  }
+
+  readOutput(id: string, cursor: number = 0, caller?: string | null): SessionOutput | undefined {
+    const session = this.find(id, caller);
+    if (!session) {
+      return undefined;
+    }
+
+    session.info.lastActivity = Date.now();
+    const from = Math.max(cursor, session.firstSequence);
+
+    return {
+      chunks: session.chunks.slice(from - session.firstSequence),
+      cursor: session.firstSequence + session.chunks.length,
+      dropped: from - cursor,
+      status: session.info.status,
+      exitCode: session.info.exitCode
+    };
+  }
+
+  get(id: string, caller?: string | null): SessionInfo | undefined {
+    const session = this.find(id, caller);
+    return session ? { ...session.info } : undefined;
+  }
+
+  list(caller?: string | null): SessionInfo[] {
+    return Array.from(this.sessions.values())
+      .filter(session => caller === undefined || session.info.caller === (caller ?? undefined))
+      .map(session => ({ ...session.info }));
+  }
+
+  /**
+   * Stop the program (if still running) and forget the session.
+   */
+  async close(id: string, caller?: string | null): Promise<SessionInfo | undefined> {
+    const session = this.find(id, caller);
+    if (!session) {
+      return undefined;
+    }
+
+    this.sessions.delete(id);
+    clearTimeout(session.lifetimeTimer);
+    if (session.info.status === 'running') {
+      session.info.status = 'closed';
+    }
+
+    await this.stop(session);
+
+    console.log(`💬 Session ${id} closed`);
+    return { ...session.info };
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.close(id)));
+  }
+
+  // Another caller's session is as good as missing
+  private find(id: string, caller?: string | null): Session | undefined {
+    const session = this.sessions.get(id);
+    return session && (caller === undefined || session.info.caller === (caller ?? undefined)) ? session : undefined;
+  }
+
+  private append(session: Session, chunk: OutputChunk): void {
+    session.chunks.push(chunk);
+    session.bufferedBytes += Buffer.byteLength(chunk.data);
+
+    while (session.bufferedBytes > this.options.maxBufferedBytes && session.chunks.length > 1) {
+      const dropped = session.chunks.shift()!;
+      session.bufferedBytes -= Buffer.byteLength(dropped.data);
+      session.firstSequence++;
+    }
+  }
+
+  private stop(session: Session): Promise<void> {
+    if (!session.stopped) {
+      session.stopped = (session.process?.kill() || Promise.resolve()).catch(error => {
+        console.warn(`⚠️  Could not stop session ${session.info.id}:`, error);
+      });
+    }
+    return session.stopped;
+  }
+
+  private async timeOut(session: Session, timeout: number): Promise<void> {
+    if (session.info.status !== 'running') {
+      return;
+    }
+
+    session.info.status = 'timed-out';
+    session.info.exitReason = `Session timed out after ${timeout}ms`;
+    console.log(`⏱️  Session ${session.info.id} timed out`);
+    await this.stop(session);
+  }
+
+  private async expireIdle(): Promise<void> {
+    const now = Date.now();
+    const expired = Array.from(this.sessions.values())
+      .filter(session => now - session.info.lastActivity > this.options.idleTimeout)
+      .map(session => session.info.id);
+
+    await Promise.all(expired.map(id => this.close(id)));
+  }
+}
@@ -0,0 +1,130 @@
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ExecutionRequest, ExecutionResult, OutputListener } from './executionEngine';
+import { ExecutionTracker, withStatus } from './executionTracker';
+import { streamExecution } from './executionStream';
+
+// Streams two chunks, then waits for `release` or a cancellation
+class FakeBackend {
+  readonly executions = new ExecutionTracker();
+  release!: () => void;
+  signal?: AbortSignal;
+
+  async executeCode(request: ExecutionRequest, onOutput?: OutputListener): Promise<ExecutionResult> {
+    const run = this.executions.start(request);
+    this.signal = run.signal;
+    try {
+      onOutput?.({ stream: 'stdout', data: 'out\n' });
+      onOutput?.({ stream: 'stderr', data: 'err\n' });
+      const cancelled = await new Promise<boolean>(resolve => {
+        this.release = () => resolve(false);
+        run.signal.addEventListener('abort', () => resolve(true));
+      });
+      return withStatus({
+        id: request.id,
+        success: !cancelled,
+        output: 'out',
+        errors: [],
+        exitCode: cancelled ? 143 : 0,
+        status: cancelled ? 'cancelled' : undefined,
+        executionTime: 1,
+        memoryUsage: 0
+      });
+    } finally {
+      run.finish();
+    }
+  }
+}
+
+describe('streamExecution', () => {
+  let server: http.Server;
+  let backend: FakeBackend;
+  let results: Promise<ExecutionResult>[];
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    backend = new FakeBackend();
+    results = [];
+    const app = express();
+    app.use(express.json());
+    app.post('/stream', (req, res) => {
+      const result = streamExecution(res, req.body, backend);
+      results.push(result);
+      result.catch(() => undefined);
+    });
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  // Open the stream and call `onEvent` with each event as it arrives
+  const open = (onEvent: (event: string, data: Record<string, unknown>, request: http.ClientRequest) => void) => new Promise<void>((resolve, reject) => {
+    const request = http.request({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      method: 'POST',
+      path: '/stream',
+      headers: { 'Content-Type': 'application/json' }
+    }, response => {
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      let buffered = '';
+      response.on('data', (chunk: Buffer) => {
+        buffered += chunk.toString();
+        let end: number;
+        while ((end = buffered.indexOf('\n\n')) !== -1) {
+          const [event, data] = buffered.slice(0, end).split('\n').map(line => line.slice(line.indexOf(': ') + 2));
+          buffered = buffered.slice(end + 2);
+          onEvent(event, JSON.parse(data), request);
+        }
+      });
+      response.on('end', resolve);
+      response.on('error', resolve);
+    });
+    request.on('error', reject);
+    request.end(JSON.stringify({ id: 'streamed', language: 'python', code: 'print(1)', backend: 'fake' }));
+  });
+
+  it('sends started, the output chunks and the result', async () => {
+    const events: Array<[string, unknown]> = [];
+
+    await open((event, data) => {
+      events.push([event, data]);
+      if (event === 'stderr') backend.release();
+    });
+
+    expect(events).toEqual([
+      ['started', { id: 'streamed', backend: 'fake' }],
+      ['stdout', { data: 'out\n' }],
+      ['stderr', { data: 'err\n' }],
+      ['result', expect.objectContaining({ id: 'streamed', success: true, status: 'completed' })]
+    ]);
+  });
+
+  it('cancels the run when the client disconnects', async () => {
+    await open((event, _data, request) => {
+      if (event === 'stderr') request.destroy();
+    });
+
+    const result = await results[0];
+    expect(backend.signal!.aborted).toBe(true);
+    expect(result.status).toBe('cancelled');
+    expect(backend.executions.list()).toEqual([]);
+  });
+
+  it('sends an error event when the backend fails', async () => {
+    backend.executeCode = async () => {
+      throw new Error('Docker is not available');
+    };
+    const events: string[] = [];
+
+    await open((event, data) => events.push(`${event}: ${data.error || ''}`));
+
+    expect(events).toEqual(['started: ', 'error: Docker is not available']);
+    await expect(results[0]).rejects.toThrow('Docker is not available');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 📡 Execution Streaming
+ *
+ * Serves one run as Server-Sent Events: `started` with the id the run can
+ * be cancelled by, the program's `stdout` and `stderr` chunks as they
+ * arrive, then a single `result` event with the ExecutionResult (or an
+ * `error` event when the backend fails).
+ *
+ * A client that disconnects before the result cancels the run, so no
+ * container or process is held for a stream nobody reads.
+ */
+
+import { Response } from 'express';
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { ExecutionBackend } from './executionBackend';
+
+/**
+ * Run `request` on `backend`, streaming it to `res`, and return the result.
+ * A backend error is sent as an `error` event and then thrown.
+ */
+export async function streamExecution(
+  res: Response,
+  request: ExecutionRequest,
+  backend: Pick<ExecutionBackend, 'executeCode' | 'executions'>
+): Promise<ExecutionResult> {
+  let clientGone = false;
+
+  res.on('close', () => {
+    if (res.writableEnded) return;
+    clientGone = true;
+    backend.executions.cancel(request.id);
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (clientGone) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    // The id is what DELETE /executions/:id takes
+    sendEvent('started', { id: request.id, backend: request.backend });
+
+    const result = await backend.executeCode(request, (chunk) => {
+      sendEvent(chunk.stream, { data: chunk.data });
+    });
+
+    sendEvent('result', result);
+    return result;
+  } catch (error) {
+    sendEvent('error', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    throw error;
+  } finally {
+    res.end();
+  }
+}
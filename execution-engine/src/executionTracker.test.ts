@@ -0,0 +1,121 @@
+import { spawn } from 'child_process';
+import { ExecutionResult } from './executionEngine';
+import {
+  DuplicateExecutionError, ExecutionTracker, RunWatch, StopReason, signalExitCode, stoppedResult, terminateProcess, withStatus
+} from './executionTracker';
+
+describe('ExecutionTracker', () => {
+  const request = { id: 'run-1', language: 'python' as const, code: 'print(1)' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a second run under an id that is in flight, until the first finishes', () => {
+    const tracker = new ExecutionTracker();
+    const run = tracker.start(request);
+
+    expect(() => tracker.start(request)).toThrow(DuplicateExecutionError);
+    run.finish();
+    expect(() => tracker.start(request).finish()).not.toThrow();
+    expect(tracker.list()).toEqual([]);
+  });
+
+  it('aborts the signal of a cancelled run once', () => {
+    const tracker = new ExecutionTracker();
+    const run = tracker.start(request);
+    const aborted = jest.fn();
+    run.signal.addEventListener('abort', aborted);
+
+    const first = tracker.cancel('run-1');
+    tracker.cancel('run-1');
+
+    expect(first).toMatchObject({ id: 'run-1', language: 'python' });
+    expect(first!.cancelledAt).toBeDefined();
+    expect(aborted).toHaveBeenCalledTimes(1);
+    expect(tracker.cancel('unknown')).toBeUndefined();
+    run.finish();
+  });
+
+  it('keeps each caller to their own runs', () => {
+    const tracker = new ExecutionTracker();
+    const mine = tracker.start({ ...request, caller: 'ci' });
+    const anonymous = tracker.start({ ...request, id: 'run-2' });
+
+    expect(tracker.list('ci').map(execution => execution.id)).toEqual(['run-1']);
+    expect(tracker.list(null).map(execution => execution.id)).toEqual(['run-2']);
+    expect(tracker.list()).toHaveLength(2);
+    expect(tracker.cancel('run-1', 'other')).toBeUndefined();
+    expect(tracker.cancel('run-1', null)).toBeUndefined();
+    expect(tracker.cancel('run-1', 'ci')).toMatchObject({ id: 'run-1', caller: 'ci' });
+    mine.finish();
+    anonymous.finish();
+  });
+});
+
+describe('RunWatch', () => {
+  it('stops a run that outlives its timeout', async () => {
+    const stop = jest.fn();
+    const watch = new RunWatch(10, undefined, stop);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(stop).toHaveBeenCalledWith('timeout');
+    expect(watch.reason).toBe('timeout');
+  });
+
+  it('stops a cancelled run once, even when the signal was already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const stop = jest.fn();
+    const watch = new RunWatch(1000, controller.signal, stop);
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(stop.mock.calls).toEqual([['cancelled']]);
+    expect(watch.reason).toBe('cancelled');
+  });
+});
+
+describe('terminateProcess', () => {
+  it('stops the whole process group', async () => {
+    const child = spawn('sh', ['-c', 'sleep 30 & sleep 30'], { detached: true, stdio: 'ignore' });
+    const closed = new Promise<NodeJS.Signals | null>(resolve => child.on('close', (_code, signal) => resolve(signal)));
+
+    terminateProcess(child, 100);
+
+    expect(await closed).toBe('SIGTERM');
+    // The background sleep outlives the shell by however long it takes to be reaped
+    const groupAlive = () => {
+      try {
+        process.kill(-child.pid!, 0);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+    for (let attempt = 0; attempt < 250 && groupAlive(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(groupAlive()).toBe(false);
+  });
+});
+
+describe('results', () => {
+  const result: ExecutionResult = { id: 'run-1', success: true, output: '', errors: [], exitCode: 143, executionTime: 1, memoryUsage: 0 };
+
+  it.each([
+    ['timeout', 'timed-out', 'Execution timed out after 500ms (stopped with SIGTERM)'],
+    ['cancelled', 'cancelled', 'Execution cancelled (stopped with SIGTERM)']
+  ])('marks a run stopped by %s as failed', (reason, status, exitReason) => {
+    expect(stoppedResult(result, reason as StopReason, 500)).toMatchObject({ success: false, status, exitReason });
+  });
+
+  it('fills in the status of runs that were not stopped', () => {
+    expect(withStatus(result).status).toBe('completed');
+    expect(withStatus({ ...result, success: false }).status).toBe('failed');
+    expect(signalExitCode('SIGKILL')).toBe(137);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * 🛑 Execution Tracking and Cancellation
+ *
+ * Every run an engine has in flight is registered here under the request's
+ * id, with an AbortSignal the engine hands down to whatever runs the
+ * program. Cancelling the id aborts the signal; the engine then stops the
+ * program the way it stops one that ran out of time: child processes get
+ * SIGTERM and, after a grace period, SIGKILL (to the whole process group,
+ * so nothing the program started is orphaned), containers are stopped
+ * (which does the same inside) and then removed.
+ *
+ * A stopped run still returns an ExecutionResult, with whatever output it
+ * produced, `status` 'cancelled' or 'timed-out' and an `exitReason`.
+ *
+ * A run belongs to the caller of its request: listing or cancelling runs
+ * under another caller doesn't see it.
+ */
+
+import { ChildProcess } from 'child_process';
+import * as os from 'os';
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+
+export type ExecutionStatus = 'completed' | 'failed' | 'timed-out' | 'cancelled';
+
+export type StopReason = 'timeout' | 'cancelled';
+
+export interface TrackedExecution {
+  id: string;
+  caller?: string;
+  language: string;
+  policy?: string;
+  startedAt: number;
+  cancelledAt?: number;
+}
+
+// How long a program gets to exit after SIGTERM before it is killed
+export const STOP_GRACE_PERIOD = 2000;
+
+// A run was started under the id of one still in flight
+export class DuplicateExecutionError extends Error {
+  constructor(id: string) {
+    super(`Execution ${id} is already running`);
+    this.name = 'DuplicateExecutionError';
+  }
+}
+
+export class ExecutionTracker {
+  private executions: Map<string, { info: TrackedExecution; controller: AbortController }> = new Map();
+
+  /**
+   * Register a run. `finish` must be called once it returns, whatever the
+   * outcome. Throws DuplicateExecutionError while the id is in flight.
+   */
+  start(request: ExecutionRequest): { signal: AbortSignal; finish: () => void } {
+    if (this.executions.has(request.id)) {
+      throw new DuplicateExecutionError(request.id);
+    }
+
+    const controller = new AbortController();
+    const entry = {
+      info: {
+        id: request.id,
+        caller: request.caller,
+        language: request.language,
+        policy: request.policy,
+        startedAt: Date.now()
+      },
+      controller
+    };
+    this.executions.set(request.id, entry);
+
+    return {
+      signal: controller.signal,
+      finish: () => {
+        if (this.executions.get(request.id) === entry) {
+          this.executions.delete(request.id);
+        }
+      }
+    };
+  }
+
+  get(id: string): TrackedExecution | undefined {
+    const entry = this.executions.get(id);
+    return entry ? { ...entry.info } : undefined;
+  }
+
+  /**
+   * Runs in flight of `caller` (null: requests without a caller; left out:
+   * any caller).
+   */
+  list(caller?: string | null): TrackedExecution[] {
+    return Array.from(this.executions.values())
+      .filter(entry => ownedBy(entry.info, caller))
+      .map(entry => ({ ...entry.info }));
+  }
+
+  /**
+   * Ask a run of `caller` to stop. Returns undefined when no such run is in
+   * flight.
+   */
+  cancel(id: string, caller?: string | null): TrackedExecution | undefined {
+    const entry = this.executions.get(id);
+    if (!entry || !ownedBy(entry.info, caller)) {
+      return undefined;
+    }
+
+    if (!entry.controller.signal.aborted) {
+      entry.info.cancelledAt = Date.now();
+      console.log(`🛑 Cancelling execution ${id}`);
+      entry.controller.abort();
+    }
+    return { ...entry.info };
+  }
+
+  /**
+   * Cancel everything in flight, e.g. when the server stops.
+   */
+  shutdown(): void {
+    for (const id of this.executions.keys()) {
+      this.cancel(id);
+    }
+  }
+}
+
+function ownedBy(execution: TrackedExecution, caller: string | null | undefined): boolean {
+  return caller === undefined || execution.caller === (caller ?? undefined);
+}
+
+/**
+ * Call `stop` once, when the run outlives `timeout` or `signal` is aborted.
+ * `reason` tells afterwards whether and why it was stopped.
+ */
+export class RunWatch {
+  reason?: StopReason;
+  private stop: (reason: StopReason) => void;
+  private timer: NodeJS.Timeout;
+  private signal?: AbortSignal;
+  private onAbort = () => this.trigger('cancelled');
+
+  constructor(timeout: number, signal: AbortSignal | undefined, stop: (reason: StopReason) => void) {
+    this.stop = stop;
+    this.timer = setTimeout(() => this.trigger('timeout'), timeout);
+    this.signal = signal;
+    if (signal?.aborted) {
+      setImmediate(this.onAbort);
+    } else {
+      signal?.addEventListener('abort', this.onAbort, { once: true });
+    }
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+
+  private trigger(reason: StopReason): void {
+    if (this.reason) return;
+    this.reason = reason;
+    this.dispose();
+    this.stop(reason);
+  }
+}
+
+/**
+ * SIGTERM a child's process group, then SIGKILL whatever is left after the
+ * grace period. The child must have been spawned with `detached: true`.
+ */
+export function terminateProcess(child: ChildProcess, gracePeriod: number = STOP_GRACE_PERIOD): void {
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      // Already gone, or not a group leader after all
+      child.kill(signal);
+    }
+  };
+
+  signalGroup('SIGTERM');
+  const timer = setTimeout(() => signalGroup('SIGKILL'), gracePeriod);
+  timer.unref();
+  child.once('close', () => clearTimeout(timer));
+}
+
+/**
+ * Mark a run that was stopped: it failed, and says why.
+ */
+export function stoppedResult<T extends { success: boolean; errors: string[]; exitCode: number }>(
+  result: T,
+  reason: StopReason,
+  timeout: number
+): T & { status: ExecutionStatus; exitReason: string } {
+  const message = reason === 'timeout' ? `Execution timed out after ${timeout}ms` : 'Execution cancelled';
+  return {
+    ...result,
+    success: false,
+    errors: [...result.errors, message],
+    status: reason === 'timeout' ? 'timed-out' : 'cancelled',
+    exitReason: `${message}${describeExit(result.exitCode)}`
+  };
+}
+
+/**
+ * Fill in the status of a run that wasn't stopped.
+ */
+export function withStatus<T extends ExecutionResult>(result: T): T {
+  return result.status ? result : { ...result, status: result.success ? 'completed' : 'failed' };
+}
+
+/**
+ * Exit code for a process that ended on a signal, the way shells report it.
+ */
+export function signalExitCode(signal: NodeJS.Signals | null): number | undefined {
+  const number = signal ? os.constants.signals[signal] : undefined;
+  return number !== undefined ? 128 + number : undefined;
+}
+
+function describeExit(exitCode: number): string {
+  const signal = Object.entries(os.constants.signals).find(([, number]) => number + 128 === exitCode)?.[0];
+  return signal ? ` (stopped with ${signal})` : ` (exit code ${exitCode})`;
+}
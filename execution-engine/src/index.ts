@@ -1,31 +1,208 @@
 import express from 'express';
-import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { ExecutionEngine, ExecutionRequest, ExecutionResult } from './executionEngine';
 import { SimpleExecutionEngine } from './simpleExecutionEngine';
+import { ExecutionBackend, ExecutionBackendRegistry } from './executionBackend';
+import { DuplicateExecutionError } from './executionTracker';
 import { ExecutionMemoryManager } from './memoryIntegration';
+import { ExecutionQuery, InvalidCursorError } from './memoryStore';
+import { DEFAULT_JOB_QUEUE_OPTIONS, JobQueue } from './jobQueue';
+import { DEFAULT_RESULT_CACHE_OPTIONS } from './resultCache';
+import { DEFAULT_BATCH_OPTIONS, expandMatrix, runBatch } from './batchExecution';
+import { alignInputs, runDifferential } from './differentialExecution';
+import { streamExecution } from './executionStream';
+import { EXECUTION_ID_PATTERN } from './artifacts';
+import { PolicyViolationError, sandboxPolicies } from './sandboxPolicy';
 import chalk from 'chalk';
+import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 
 const app = express();
 app.use(express.json());
 
-// 🚀 Initialize SIMPLE execution engine without security barriers
-const simpleExecutionEngine = new SimpleExecutionEngine();
+const resultCacheOptions = {
+  enabledByDefault: process.env.CODECONTEXT_RESULT_CACHE === 'on',
+  ttl: Number(process.env.CODECONTEXT_RESULT_CACHE_TTL) || DEFAULT_RESULT_CACHE_OPTIONS.ttl,
+  maxEntries: Number(process.env.CODECONTEXT_RESULT_CACHE_ENTRIES) || DEFAULT_RESULT_CACHE_OPTIONS.maxEntries,
+  maxBytes: Number(process.env.CODECONTEXT_RESULT_CACHE_BYTES) || DEFAULT_RESULT_CACHE_OPTIONS.maxBytes
+};
+
+// 🔌 Execution backends: host processes on laptops, containers on shared machines.
+// CODECONTEXT_BACKEND picks the default; each is created on first use
+const backends = new ExecutionBackendRegistry();
+backends.register('simple', () => new SimpleExecutionEngine(undefined, { resultCache: resultCacheOptions }), {
+  isolation: 'process', networkModes: []
+});
+backends.register('docker', () => new ExecutionEngine(process.env.CODECONTEXT_SANDBOX_DIR || './sandbox', {
+  pool: process.env.CODECONTEXT_CONTAINER_POOL === 'on' ? {} : undefined,
+  resultCache: resultCacheOptions
+}), { isolation: 'container', networkModes: ['none', 'bridge', 'egress'] });
 let memoryManager: ExecutionMemoryManager | null = null;
 
-// Memory integration disabled for barrier-free execution  
+// Bounds on POST /execute/batch
+const batchOptions = {
+  maxSets: Number(process.env.CODECONTEXT_BATCH_MAX_SETS) || DEFAULT_BATCH_OPTIONS.maxSets,
+  concurrency: Number(process.env.CODECONTEXT_BATCH_CONCURRENCY) || DEFAULT_BATCH_OPTIONS.concurrency
+};
+
+// Background executions, bounded by worker count and queue size
+const jobQueue = new JobQueue(async request => {
+  const result = await (await backends.get(request.backend)).executeCode(request);
+  rememberExecution(request, result);
+  return result;
+}, {
+  workers: Number(process.env.CODECONTEXT_JOB_WORKERS) || DEFAULT_JOB_QUEUE_OPTIONS.workers,
+  maxQueued: Number(process.env.CODECONTEXT_JOB_QUEUE_SIZE) || DEFAULT_JOB_QUEUE_OPTIONS.maxQueued,
+  defaultTimeout: Number(process.env.CODECONTEXT_JOB_TIMEOUT) || DEFAULT_JOB_QUEUE_OPTIONS.defaultTimeout
+});
+
+// Largest page GET /history returns
+const MAX_HISTORY_PAGE = 200;
+
+// 🧠 Execution memory: every run (single, streamed, batch set, diff side or
+// job) is recorded in the project's SQLite store, under the caller that
+// asked for it. CODECONTEXT_MEMORY=off opts the project out
 async function initializeMemoryManager(projectPath: string) {
-  console.log(chalk.gray('🧠 Memory integration disabled (barrier-free mode)'));
+  if (process.env.CODECONTEXT_MEMORY === 'off') {
+    console.log(chalk.gray('🧠 Execution memory disabled for this project (CODECONTEXT_MEMORY=off)'));
+    return;
+  }
+
+  const manager = new ExecutionMemoryManager(projectPath);
+  await manager.initialize();
+  memoryManager = manager;
+}
+
+// Record a run in the execution memory, linked to the request's
+// conversation if it names one. A result served from the cache is recorded
+// under this request's id; failing to record never fails the run
+function rememberExecution(request: ExecutionRequest, result: ExecutionResult) {
+  const aiAssistant = typeof request.aiAssistant === 'string' && request.aiAssistant ? request.aiAssistant : 'unknown';
+  const conversationId = typeof request.conversationId === 'string' && request.conversationId ? request.conversationId : undefined;
+
+  memoryManager?.recordExecution(request, { ...result, id: request.id }, aiAssistant, conversationId).catch(error => {
+    console.warn(chalk.yellow('⚠️  Could not record execution in memory:'), error);
+  });
+}
+
+// Filters, sorting and paging of GET /history. Throws on a malformed value
+function historyQuery(query: express.Request['query']): Omit<ExecutionQuery, 'projectId'> {
+  const text = (name: string): string | undefined => {
+    const value = query[name];
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`"${name}" must be given once`);
+    }
+    return value || undefined;
+  };
+  const oneOf = <T extends string>(name: string, values: readonly T[]): T | undefined => {
+    const value = text(name);
+    if (value !== undefined && !values.includes(value as T)) {
+      throw new Error(`"${name}" must be one of: ${values.join(', ')}`);
+    }
+    return value as T | undefined;
+  };
+  const date = (name: string): Date | undefined => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+    const parsed = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    if (isNaN(parsed.getTime())) {
+      throw new Error(`"${name}" must be a date or a timestamp in milliseconds`);
+    }
+    return parsed;
+  };
+
+  const success = oneOf('success', ['true', 'false'] as const);
+  const limit = text('limit');
+  if (limit !== undefined && !(/^\d+$/.test(limit) && Number(limit) >= 1 && Number(limit) <= MAX_HISTORY_PAGE)) {
+    throw new Error(`"limit" must be between 1 and ${MAX_HISTORY_PAGE}`);
+  }
+
+  return {
+    language: text('language'),
+    success: success === undefined ? undefined : success === 'true',
+    since: date('since'),
+    until: date('until'),
+    conversationId: text('conversation'),
+    aiAssistant: text('assistant'),
+    sort: oneOf('sort', ['time', 'duration'] as const),
+    order: oneOf('order', ['asc', 'desc'] as const),
+    cursor: text('cursor'),
+    limit: limit !== undefined ? Number(limit) : undefined
+  };
+}
+
+// Settle which sandbox policy and backend a request runs under, and the id
+// it can be cancelled by; the caller is named by whatever authenticated it
+// in front of this server
+function withPolicy(req: express.Request, request: ExecutionRequest): ExecutionRequest {
+  // Ids become directory names and URL segments (see artifacts.ts)
+  if (request.id !== undefined && !(typeof request.id === 'string' && EXECUTION_ID_PATTERN.test(request.id))) {
+    throw new InvalidRequestError('"id" may only contain letters, digits, "_" and "-"');
+  }
+
+  const caller = req.header('X-CodeContext-Caller') || undefined;
+  const policy = sandboxPolicies.authorize(request.policy, caller);
+  sandboxPolicies.checkEgress(policy, request.allowedHosts);
+  return {
+    ...request,
+    id: request.id || uuidv4(),
+    caller,
+    policy: policy.name,
+    backend: backends.resolve(request.backend, policy)
+  };
+}
+
+// Stop an in-flight execution of the caller on whichever backend runs it
+// (any caller's when left out)
+function cancelExecution(id: string, caller?: string | null) {
+  for (const backend of backends.active()) {
+    const execution = backend.executions.cancel(id, caller);
+    if (execution) {
+      return { ...execution, backend: backend.name };
+    }
+  }
+  return undefined;
+}
+
+// The backend running a session of the caller, among those started so far
+function sessionBackend(id: string, caller: string | null): ExecutionBackend | undefined {
+  return backends.active().find(backend => backend.sessions.get(id, caller));
+}
+
+// ?backend= of a status request, else the default backend
+function requestedBackend(req: express.Request): Promise<ExecutionBackend> {
+  return backends.get(typeof req.query.backend === 'string' ? req.query.backend : undefined);
+}
+
+// A request that is malformed rather than forbidden
+class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+type RejectedRequestError = PolicyViolationError | InvalidRequestError | DuplicateExecutionError;
+
+function isRejection(error: unknown): error is RejectedRequestError {
+  return error instanceof PolicyViolationError || error instanceof InvalidRequestError ||
+    error instanceof DuplicateExecutionError;
+}
+
+function sendRejection(res: express.Response, error: RejectedRequestError) {
+  const status = error instanceof PolicyViolationError ? 403 : error instanceof DuplicateExecutionError ? 409 : 400;
+  res.status(status).json({ success: false, error: error.message, errors: [error.message] });
 }
 
 // Main execution endpoint - barrier-free execution
 app.post('/execute', async (req, res) => {
   try {
-    const request: ExecutionRequest = req.body;
+    const request: ExecutionRequest = withPolicy(req, req.body);
     
     console.log(chalk.cyan(`🚀 Executing ${request.language} code...`));
     
-    // Direct execution without barriers
-    const result = await simpleExecutionEngine.executeCode(request);
+    const backend = await backends.get(request.backend);
+    const result = await backend.executeCode(request);
+    rememberExecution(request, result);
     
     // Log result
     if (result.success) {
@@ -37,6 +214,9 @@ app.post('/execute', async (req, res) => {
     res.json(result);
     
   } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
     console.error(chalk.red('💥 Execution engine error:'), error);
     res.status(500).json({
       success: false,
@@ -49,50 +229,467 @@ app.post('/execute', async (req, res) => {
   }
 });
 
-// Get execution history - disabled in barrier-free mode
+// Streaming execution endpoint - output is pushed as Server-Sent Events while
+// the code runs, followed by a single `result` event with the ExecutionResult
+// (see executionStream.ts); disconnecting cancels the run
+app.post('/execute/stream', async (req, res) => {
+  let request: ExecutionRequest;
+  let backend: ExecutionBackend;
+  try {
+    request = withPolicy(req, req.body);
+    backend = await backends.get(request.backend);
+    // Once the stream has started, the status can no longer say so
+    if (backend.executions.get(request.id)) {
+      throw new DuplicateExecutionError(request.id);
+    }
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    console.error(chalk.red('💥 Execution engine error:'), error);
+    return res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    console.log(chalk.cyan(`📡 Streaming ${request.language} execution...`));
+    const result = await streamExecution(res, request, backend);
+    rememberExecution(request, result);
+  } catch (error) {
+    console.error(chalk.red('💥 Execution engine error:'), error);
+  }
+});
+
+// Run one snippet against many inputs:
+// { base: ExecutionRequest, matrix: parameter sets or per-parameter values, concurrency?: number }
+app.post('/execute/batch', async (req, res) => {
+  const { base, matrix, concurrency } = req.body || {};
+  if (!base || typeof base !== 'object') {
+    return res.status(400).json({ error: 'Missing base execution request' });
+  }
+
+  let request: ExecutionRequest;
+  let sets;
+  try {
+    request = withPolicy(req, base);
+    sets = expandMatrix(matrix, batchOptions.maxSets);
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    const backend = await backends.get(request.backend);
+    const parallelism = Math.min(Number(concurrency) || batchOptions.concurrency, batchOptions.concurrency);
+    console.log(chalk.cyan(`🧮 Running ${request.language} batch of ${sets.length} (${parallelism} at a time)...`));
+
+    const batch = await runBatch(request.id, request, sets, async set => {
+      const result = await backend.executeCode(set);
+      rememberExecution(set, result);
+      return result;
+    }, parallelism);
+    console.log(chalk.green(`✅ Batch finished: ${batch.summary.passed}/${batch.summary.total} passed`));
+    res.json(batch);
+  } catch (error) {
+    console.error(chalk.red('💥 Batch execution error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Run two versions of a program with identical inputs and compare what they
+// did: { before: ExecutionRequest, after: ExecutionRequest }
+app.post('/execute/diff', async (req, res) => {
+  const { before, after } = req.body || {};
+  if (!before || typeof before !== 'object' || !after || typeof after !== 'object') {
+    return res.status(400).json({ error: 'Missing before or after execution request' });
+  }
+
+  let requests: ExecutionRequest[];
+  try {
+    requests = alignInputs(before, after).map(request => withPolicy(req, request));
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    const backend = await backends.get(requests[0].backend);
+    console.log(chalk.cyan(`🔀 Comparing two ${requests[0].language} versions...`));
+
+    const diff = await runDifferential(requests[0], requests[1], async request => {
+      const result = await backend.executeCode(request);
+      rememberExecution(request, result);
+      return result;
+    });
+    console.log(chalk.green(`✅ Comparison finished: behaviour ${diff.comparison.behaviorChanged ? 'changed' : 'unchanged'}`));
+    res.json(diff);
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    console.error(chalk.red('💥 Differential execution error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Download an artifact collected with artifactDelivery: 'download', by the
+// caller whose execution collected it (X-CodeContext-Caller)
+app.get('/artifacts/:executionId/*path', async (req, res) => {
+  const segments = (req.params as Record<string, unknown>).path;
+  const caller = req.header('X-CodeContext-Caller') || null;
+  let file: string | undefined;
+  if (Array.isArray(segments)) {
+    for (const backend of backends.active()) {
+      file = await backend.artifacts.resolve(req.params.executionId, segments.join('/'), caller);
+      if (file) break;
+    }
+  }
+  if (!file) {
+    return res.status(404).json({ error: 'Artifact not found' });
+  }
+  res.sendFile(file);
+});
+
+// The caller's executions in flight on every backend
+app.get('/executions', (req, res) => {
+  const caller = req.header('X-CodeContext-Caller') || null;
+  res.json({
+    executions: backends.active().flatMap(backend =>
+      backend.executions.list(caller).map(execution => ({ ...execution, backend: backend.name }))
+    )
+  });
+});
+
+// Cancel an execution: its processes get SIGTERM, then SIGKILL, or its
+// container is stopped and removed. The run's own response reports it as
+// cancelled once the program has stopped.
+app.delete('/executions/:id', (req, res) => {
+  const execution = cancelExecution(req.params.id, req.header('X-CodeContext-Caller') || null);
+  if (!execution) {
+    return res.status(404).json({ error: 'Execution not found' });
+  }
+  res.status(202).json(execution);
+});
+
+// Sandbox policies, and which of them the caller may choose
+app.get('/policies', (req, res) => {
+  const caller = req.header('X-CodeContext-Caller');
+  res.json({
+    policies: sandboxPolicies.list().map(policy => {
+      let allowed = true;
+      try {
+        sandboxPolicies.authorize(policy.name, caller);
+      } catch {
+        allowed = false;
+      }
+      return { ...policy, allowed };
+    })
+  });
+});
+
+// Result cache statistics of the default backend, or of ?backend=
+app.get('/cache', async (req, res) => {
+  try {
+    const backend = await requestedBackend(req);
+    res.json({ backend: backend.name, ...backend.resultCache.getStatus() });
+  } catch (error) {
+    res.status(404).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Drop cached results of every backend, optionally only those of ?language=
+app.delete('/cache', (req, res) => {
+  const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+  const removed = backends.active().reduce((total, backend) => total + backend.resultCache.invalidate(language), 0);
+  res.json({ removed });
+});
+
+// Submit a background job: { request: ExecutionRequest, priority?: number, timeout?: number }
+app.post('/jobs', (req, res) => {
+  const { request, priority, timeout } = req.body || {};
+  if (!request || typeof request !== 'object') {
+    return res.status(400).json({ error: 'Missing execution request' });
+  }
+
+  try {
+    const job = jobQueue.submit({
+      request: withPolicy(req, request),
+      priority: Number(priority) || 0,
+      timeout: Number(timeout) || undefined
+    });
+    res.status(202).json(job);
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    res.status(429).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      queue: jobQueue.getStatus()
+    });
+  }
+});
+
+// Jobs are only visible to the caller that submitted them (X-CodeContext-Caller)
+app.get('/jobs/:id', (req, res) => {
+  const job = jobQueue.get(req.params.id, req.header('X-CodeContext-Caller') || null);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(job);
+});
+
+app.delete('/jobs/:id', (req, res) => {
+  const caller = req.header('X-CodeContext-Caller') || null;
+  const running = jobQueue.get(req.params.id, caller)?.status === 'running';
+  const job = jobQueue.cancel(req.params.id, caller);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  if (running) {
+    cancelExecution(job.executionId);
+  }
+  res.json(job);
+});
+
+// Interactive sessions - the program keeps running between calls
+app.post('/sessions', async (req, res) => {
+  try {
+    const request: ExecutionRequest = withPolicy(req, req.body);
+    console.log(chalk.cyan(`💬 Starting ${request.language} session...`));
+
+    const backend = await backends.get(request.backend);
+    const session = await backend.sessions.create(request);
+    res.status(201).json(session);
+  } catch (error) {
+    if (isRejection(error)) {
+      return sendRejection(res, error);
+    }
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The caller's own sessions (X-CodeContext-Caller); others' can't be listed, read or closed
+app.get('/sessions', (req, res) => {
+  const caller = req.header('X-CodeContext-Caller') || null;
+  res.json({
+    sessions: backends.active().flatMap(backend =>
+      backend.sessions.list(caller).map(session => ({ ...session, backend: backend.name }))
+    )
+  });
+});
+
+// Send input: { data: string, end?: boolean } - `end` closes stdin afterwards
+app.post('/sessions/:id/input', (req, res) => {
+  try {
+    const { data = '', end = false } = req.body || {};
+    const caller = req.header('X-CodeContext-Caller') || null;
+    const session = sessionBackend(req.params.id, caller)?.sessions.sendInput(req.params.id, String(data), Boolean(end), caller);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (error) {
+    res.status(409).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Read output produced since `cursor` (0 = everything still buffered)
+app.get('/sessions/:id/output', (req, res) => {
+  const cursor = parseInt(String(req.query.cursor || '0'), 10) || 0;
+  const caller = req.header('X-CodeContext-Caller') || null;
+  const output = sessionBackend(req.params.id, caller)?.sessions.readOutput(req.params.id, cursor, caller);
+  if (!output) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  res.json(output);
+});
+
+app.delete('/sessions/:id', async (req, res) => {
+  const caller = req.header('X-CodeContext-Caller') || null;
+  const session = await sessionBackend(req.params.id, caller)?.sessions.close(req.params.id, caller);
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  res.json(session);
+});
+
+// Execution history of the project, newest first unless sorted otherwise:
+// ?language= &success=true|false &since= &until= (ISO dates or ms)
+// &conversation= &assistant= &sort=time|duration &order=asc|desc &limit= &cursor=
+// Only the runs of the caller asking (X-CodeContext-Caller) are listed
 app.get('/history', async (req, res) => {
-  res.json({ message: 'History disabled in barrier-free mode', executions: [] });
+  if (!memoryManager) {
+    return res.json({ message: 'Execution memory is disabled', executions: [] });
+  }
+
+  let query;
+  try {
+    query = historyQuery(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    res.json(await memoryManager.queryHistory({ ...query, caller: req.header('X-CodeContext-Caller') || null }));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 });
 
-// Get code patterns - disabled in barrier-free mode
+// Code patterns seen in the caller's runs of a language, and how those runs went
 app.get('/patterns/:language', async (req, res) => {
-  res.json({ message: 'Patterns disabled in barrier-free mode', patterns: [] });
+  if (!memoryManager) {
+    return res.json({ message: 'Execution memory is disabled', patterns: [] });
+  }
+  try {
+    res.json({ patterns: await memoryManager.getCodePatterns(req.params.language, req.header('X-CodeContext-Caller') || null) });
+  } catch (error) {
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 });
 
-// Get error patterns - disabled in barrier-free mode
+// Errors of the caller's runs of a language, clustered by signature
 app.get('/errors/:language', async (req, res) => {
-  res.json({ message: 'Error patterns disabled in barrier-free mode', errors: [] });
+  if (!memoryManager) {
+    return res.json({ message: 'Execution memory is disabled', errors: [] });
+  }
+  try {
+    res.json({ errors: await memoryManager.getErrorPatterns(req.params.language, req.header('X-CodeContext-Caller') || null) });
+  } catch (error) {
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 });
 
-// Get performance insights - disabled in barrier-free mode  
+// Time and memory of the caller's successful runs of a language
 app.get('/performance/:language', async (req, res) => {
-  res.json({ message: 'Performance insights disabled in barrier-free mode', insights: {} });
+  if (!memoryManager) {
+    return res.json({ message: 'Execution memory is disabled', insights: [] });
+  }
+  try {
+    res.json({ insights: await memoryManager.getPerformanceInsights(req.params.language, req.header('X-CodeContext-Caller') || null) });
+  } catch (error) {
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 });
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    mode: 'barrier-free',
-    timestamp: new Date().toISOString(),
-    features: {
-      execution: true,
-      memory: false,
-      prediction: false,
-      learning: false,
-      security: false
+// How likely a request is to succeed, judged by the project's history,
+// without running it: takes an ExecutionRequest
+app.post('/predict', async (req, res) => {
+  if (!memoryManager) {
+    return res.status(404).json({ error: 'Execution memory is disabled' });
+  }
+
+  const request = req.body || {};
+  if (typeof request.language !== 'string' || typeof request.code !== 'string') {
+    return res.status(400).json({ error: 'Missing language or code' });
+  }
+
+  try {
+    res.json(await memoryManager.predictExecutionSuccess(request));
+  } catch (error) {
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Conversations with linked executions, most recently active first:
+// ?assistant= &limit= &cursor=
+// Only the caller's own runs (X-CodeContext-Caller) count, as in /history
+app.get('/conversations', async (req, res) => {
+  if (!memoryManager) {
+    return res.json({ message: 'Execution memory is disabled', conversations: [] });
+  }
+
+  let query;
+  try {
+    const { aiAssistant, cursor, limit } = historyQuery(req.query);
+    query = { aiAssistant, cursor, limit, caller: req.header('X-CodeContext-Caller') || null };
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  try {
+    res.json(await memoryManager.getConversations(query));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
     }
-  });
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// The attempts of a conversation in order, each with its outcome and what
+// changed since the previous one
+app.get('/conversations/:id/timeline', async (req, res) => {
+  if (!memoryManager) {
+    return res.status(404).json({ error: 'Execution memory is disabled' });
+  }
+  try {
+    const timeline = await memoryManager.getConversationTimeline(req.params.id, req.header('X-CodeContext-Caller') || null);
+    if (!timeline) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json(timeline);
+  } catch (error) {
+    console.error(chalk.red('💥 Execution memory error:'), error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
 });
 
-// 🚀 Security status endpoint (no security barriers)
-app.get('/security/status', (req, res) => {
+// Health check, with what the default backend actually enforces
+app.get('/health', async (req, res) => {
   try {
-    const securityStatus = simpleExecutionEngine.getSecurityStatus();
+    const backend = await backends.get();
+    const capabilities = backend.getCapabilities();
+    const security = await backend.getSecurityStatus();
+    res.status(security.available ? 200 : 503).json({
+      status: security.available ? 'healthy' : 'degraded',
+      mode: capabilities.isolation === 'container' ? 'sandboxed' : 'barrier-free',
+      backend: backend.name,
+      backends: backends.list(),
+      capabilities,
+      timestamp: new Date().toISOString(),
+      features: {
+        execution: security.available,
+        memory: !!memoryManager,
+        prediction: !!memoryManager,
+        learning: !!memoryManager,
+        security: security.securityEnabled
+      }
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: 'unhealthy',
+      backend: backends.defaultBackend,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// 🛡️ Security status of the default backend, or of ?backend=
+app.get('/security/status', async (req, res) => {
+  try {
+    const backend = await requestedBackend(req);
     res.json({
-      status: 'simple',
+      backend: backend.name,
       timestamp: new Date().toISOString(),
-      ...securityStatus
+      capabilities: backend.getCapabilities(),
+      ...await backend.getSecurityStatus()
     });
   } catch (error) {
     res.status(500).json({
@@ -104,10 +701,17 @@ app.get('/security/status', (req, res) => {
 
 // Initialize and start server
 async function startServer() {
-  const port = process.env.PORT || 3001;
-  
-  console.log(chalk.cyan('\n🚀 CodeContext Pro Simple Execution Engine\n'));
-  console.log(chalk.gray('Local Development Mode: No Security Barriers'));
+  const port = Number(process.env.PORT) || 3001;
+  // Loopback by default: on any other interface, such as the egress network's
+  // gateway, sandboxed programs could call the API
+  const host = process.env.CODECONTEXT_HOST || '127.0.0.1';
+
+  const backend = await backends.get();
+  const capabilities = backend.getCapabilities();
+  const sandboxed = capabilities.isolation === 'container';
+
+  console.log(chalk.cyan('\n🚀 CodeContext Pro Execution Engine\n'));
+  console.log(chalk.gray(sandboxed ? `Sandboxed Mode: ${backend.name} backend` : 'Local Development Mode: No Security Barriers'));
   
   // Initialize memory manager if project path is provided
   const projectPath = process.env.PROJECT_PATH || process.cwd();
@@ -119,23 +723,30 @@ async function startServer() {
     }
   }
   
-  app.listen(port, () => {
-    console.log(chalk.green(`\n✅ Simple Execution Engine running on port ${port}`));
+  app.listen(port, host, () => {
+    console.log(chalk.green(`\n✅ Execution Engine running on ${host}:${port}`));
+    console.log(chalk.gray(`   Backend: 🔌 ${backend.name} (available: ${backends.list().join(', ')})`));
     console.log(chalk.gray(`   Memory Integration: ${memoryManager ? '🧠 Active' : '❌ Disabled'}`));
-    console.log(chalk.gray(`   Security Barriers: 🚫 Disabled (Local Dev Mode)`));
-    console.log(chalk.gray(`   Multi-Language Support: 🌐 JS/TS/Python/Go/Rust`));
-    console.log(chalk.gray('\n🚀 Ready for barrier-free code execution!\n'));
+    console.log(chalk.gray(`   Security Barriers: ${sandboxed ? '🛡️  Container sandbox' : '🚫 Disabled (Local Dev Mode)'}`));
+    console.log(chalk.gray(`   Multi-Language Support: 🌐 ${capabilities.languages.join('/')}`));
+    console.log(chalk.gray(`\n🚀 Ready for ${sandboxed ? 'sandboxed' : 'barrier-free'} code execution!\n`));
   });
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log(chalk.yellow('\n👋 Shutting down Execution Engine...'));
+  jobQueue.shutdown();
+  await backends.shutdown(); // stops session processes
+  await memoryManager?.close();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log(chalk.yellow('\n👋 Shutting down Execution Engine...'));
+  jobQueue.shutdown();
+  await backends.shutdown(); // stops session processes
+  await memoryManager?.close();
   process.exit(0);
 });
 
@@ -147,4 +758,4 @@ if (require.main === module) {
   });
 }
 
-export { app, SimpleExecutionEngine, ExecutionMemoryManager };
+export { app, backends, ExecutionEngine, SimpleExecutionEngine, ExecutionMemoryManager };
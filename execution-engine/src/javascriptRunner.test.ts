@@ -0,0 +1,65 @@
+import { JavaScriptRunner } from './javascriptRunner';
+
+describe('JavaScriptRunner', () => {
+  const runner = new JavaScriptRunner();
+
+  it('terminates a worker stuck in a loop at the timeout', async () => {
+    const result = await runner.run('console.log("before"); while (true) {}', { timeout: 300 });
+
+    expect(result).toMatchObject({ success: false, timedOut: true, cancelled: false, output: 'before' });
+    expect(result.errors).toEqual(['Execution timed out after 300ms']);
+  });
+
+  it('stops a run that exhausts its heap limit', async () => {
+    const result = await runner.run('const held = []; while (true) held.push(new Array(1e5).fill(held.length));', {
+      memoryLimit: '32m',
+      timeout: 20000
+    });
+
+    expect(result).toMatchObject({ success: false, timedOut: false });
+    expect(result.errors).toContain('Heap limit of 32MB exceeded');
+  });
+
+  it('keeps the console output of concurrent runs apart', async () => {
+    const [first, second] = await Promise.all([
+      runner.run('for (let i = 0; i < 3; i++) console.log("first", i); console.error("first failed")'),
+      runner.run('for (let i = 0; i < 3; i++) console.log("second", i)')
+    ]);
+
+    expect(first.output).toBe('first 0\nfirst 1\nfirst 2');
+    expect(first.errors).toEqual(['first failed']);
+    expect(second.output).toBe('second 0\nsecond 1\nsecond 2');
+    expect(second.errors).toEqual([]);
+  });
+
+  it('waits for a top-level promise and reports its rejection', async () => {
+    const resolved = await runner.run('await new Promise(resolve => setTimeout(resolve, 50)); console.log("done")');
+    const rejected = await runner.run('await Promise.reject(new Error("nope"))');
+
+    expect(resolved).toMatchObject({ success: true, output: 'done', exitCode: 0 });
+    expect(rejected).toMatchObject({ success: false, exitCode: 1, errors: ['nope'] });
+  });
+
+  it('terminates the worker when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const run = runner.run('console.log("started"); setInterval(() => undefined, 1000)', {
+      signal: controller.signal,
+      onOutput: chunk => {
+        chunks.push(chunk.data);
+        controller.abort();
+      }
+    });
+
+    const result = await run;
+
+    expect(chunks).toEqual(['started\n']);
+    expect(result).toMatchObject({ success: false, cancelled: true, timedOut: false, errors: ['Execution cancelled'] });
+  });
+
+  it('strips TypeScript types before running', async () => {
+    const result = await runner.run('const answer: number = 42; console.log(answer)', { typescript: true });
+
+    expect(result).toMatchObject({ success: true, output: '42' });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * 🧵 JavaScript Runner
+ *
+ * The local-dev fast path for JavaScript and TypeScript: code runs in a
+ * `worker_threads` worker, inside a fresh `vm` context, instead of being
+ * eval'd in the server. Each run gets its own console, a heap limit and a
+ * wall-clock timeout (or an abort signal) that terminates the worker, so an
+ * endless loop or a runaway allocation only takes down that one run.
+ *
+ * The run is over when the worker's event loop drains (timers, pending I/O
+ * and a top-level promise are all waited for) or the timeout fires.
+ * TypeScript is transpiled without type checking before it is handed over.
+ */
+
+import { Worker } from 'worker_threads';
+import { OutputListener, OutputStream } from './executionEngine';
+import { OutputBuffer, OutputLimits, resolveOutputLimits } from './outputBuffer';
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_HEAP_MB = 256;
+
+export interface JavaScriptRunOptions {
+  typescript?: boolean;
+  timeout?: number; // ms of wall-clock time before the worker is terminated
+  memoryLimit?: string; // heap limit, e.g. '128m'
+  cwd?: string; // resolves require() calls
+  env?: Record<string, string>; // added to the worker's copy of process.env
+  outputLimits?: Partial<OutputLimits>;
+  onOutput?: OutputListener;
+  signal?: AbortSignal; // terminates the worker when aborted
+}
+
+export interface JavaScriptRunResult {
+  success: boolean;
+  output: string;
+  errors: string[];
+  exitCode: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated?: Partial<Record<OutputStream, number>>;
+  stack?: string; // of an uncaught error, for diagnostics
+}
+
+export class JavaScriptRunner {
+  private typescript?: typeof import('typescript');
+
+  async run(code: string, options: JavaScriptRunOptions = {}): Promise<JavaScriptRunResult> {
+    const source = options.typescript ? this.transpile(code) : code;
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+    const heapMb = this.parseHeapLimit(options.memoryLimit);
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code: source, cwd: options.cwd || process.cwd(), filename: options.typescript ? 'main.ts' : 'main.js' },
+      stdout: true,
+      stderr: true,
+      env: options.env ? { ...process.env, ...options.env } : undefined,
+      resourceLimits: {
+        maxOldGenerationSizeMb: heapMb,
+        maxYoungGenerationSizeMb: Math.max(16, Math.round(heapMb / 8)),
+        stackSizeMb: 4
+      }
+    });
+
+    const buffer = new OutputBuffer(resolveOutputLimits(options.outputLimits), options.onOutput);
+    worker.stdout.on('data', (chunk: Buffer) => buffer.push('stdout', chunk));
+    worker.stderr.on('data', (chunk: Buffer) => buffer.push('stderr', chunk));
+
+    return new Promise<JavaScriptRunResult>((resolve) => {
+      let timedOut = false;
+      let cancelled = false;
+      let failure: string | undefined;
+      let stack: string | undefined;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        worker.terminate();
+      }, timeout);
+
+      const onAbort = () => {
+        cancelled = true;
+        worker.terminate();
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      // Uncaught exceptions and unhandled rejections from timers and callbacks
+      worker.on('error', (error: Error & { code?: string }) => {
+        failure = error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? `Heap limit of ${heapMb}MB exceeded`
+          : error.message;
+        stack = error.stack;
+      });
+
+      worker.on('exit', (code) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+
+        const stderr = buffer.text('stderr').trimEnd();
+        const errors = stderr ? [stderr] : [];
+        if (timedOut) {
+          errors.push(`Execution timed out after ${timeout}ms`);
+        } else if (cancelled) {
+          errors.push('Execution cancelled');
+        } else if (failure) {
+          errors.push(failure);
+        }
+
+        const exitCode = timedOut || cancelled || failure ? (code || 1) : code;
+        resolve({
+          success: exitCode === 0,
+          output: buffer.text('stdout').trim(),
+          errors,
+          exitCode,
+          timedOut,
+          cancelled,
+          truncated: buffer.truncated(),
+          stack
+        });
+      });
+    });
+  }
+
+  /**
+   * Strip types only; type errors don't stop a local run.
+   */
+  private transpile(code: string): string {
+    if (!this.typescript) {
+      try {
+        this.typescript = require('typescript') as typeof import('typescript');
+      } catch {
+        throw new Error('Running TypeScript locally needs the typescript package');
+      }
+    }
+
+    const ts = this.typescript;
+    return ts.transpileModule(code, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true
+      }
+    }).outputText;
+  }
+
+  private parseHeapLimit(limit?: string): number {
+    const match = limit?.match(/^(\d+)([kmg]?)$/i);
+    if (!match) return DEFAULT_HEAP_MB;
+
+    const value = parseInt(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'k': return Math.max(1, Math.round(value / 1024));
+      case 'g': return value * 1024;
+      case 'm': return value;
+      default: return Math.max(1, Math.round(value / (1024 * 1024)));
+    }
+  }
+}
+
+// Runs inside the worker. The program only sees what is put into its context.
+const WORKER_SOURCE = `'use strict';
+const { workerData } = require('worker_threads');
+const vm = require('vm');
+const path = require('path');
+const { createRequire } = require('module');
+
+const { code, cwd, filename } = workerData;
+
+function format(args) {
+  return args.map(arg => typeof arg === 'object' && arg !== null
+    ? (() => { try { return JSON.stringify(arg, null, 2); } catch (error) { return String(arg); } })()
+    : String(arg)
+  ).join(' ');
+}
+
+const sandboxConsole = {
+  log: (...args) => process.stdout.write(format(args) + '\\n'),
+  info: (...args) => process.stdout.write(format(args) + '\\n'),
+  debug: (...args) => process.stdout.write(format(args) + '\\n'),
+  warn: (...args) => process.stderr.write(format(args) + '\\n'),
+  error: (...args) => process.stderr.write(format(args) + '\\n')
+};
+
+const module = { exports: {} };
+const context = vm.createContext({
+  console: sandboxConsole,
+  require: createRequire(path.join(cwd, filename)),
+  module,
+  exports: module.exports,
+  __filename: path.join(cwd, filename),
+  __dirname: cwd,
+  process,
+  Buffer,
+  URL,
+  URLSearchParams,
+  TextEncoder,
+  TextDecoder,
+  setTimeout,
+  clearTimeout,
+  setInterval,
+  clearInterval,
+  setImmediate,
+  clearImmediate,
+  queueMicrotask
+});
+
+function compile(source) {
+  try {
+    return new vm.Script(source, { filename });
+  } catch (error) {
+    // Top-level await is only valid in modules; run the code as an async function instead
+    if (error instanceof SyntaxError && /await/.test(error.message)) {
+      return new vm.Script('(async () => {\\n' + source + '\\n})()', { filename, lineOffset: -1 });
+    }
+    throw error;
+  }
+}
+
+const completion = compile(code).runInContext(context);
+
+// Keep the worker alive until a returned promise settles
+if (completion && typeof completion.then === 'function') {
+  Promise.resolve(completion).catch(error => {
+    process.stderr.write((error && error.message ? error.message : String(error)) + '\\n');
+    process.exitCode = 1;
+  });
+}
+`;
@@ -0,0 +1,131 @@
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { JobQueue, JobQueueOptions } from './jobQueue';
+
+// An executor whose runs finish only when the test says so
+class ControlledExecutor {
+  started: ExecutionRequest[] = [];
+  private pending: Map<string, { resolve: (result: ExecutionResult) => void; reject: (error: Error) => void }> = new Map();
+
+  execute = (request: ExecutionRequest): Promise<ExecutionResult> => {
+    this.started.push(request);
+    return new Promise((resolve, reject) => this.pending.set(request.id, { resolve, reject }));
+  };
+
+  complete(id: string): void {
+    this.pending.get(id)!.resolve({ id, success: true, output: id, errors: [], exitCode: 0, executionTime: 1, memoryUsage: 0 });
+    this.pending.delete(id);
+  }
+
+  // Running jobs hold a timeout timer until they return
+  completeAll(): void {
+    Array.from(this.pending.keys()).forEach(id => this.complete(id));
+  }
+
+  fail(id: string, message: string): void {
+    this.pending.get(id)!.reject(new Error(message));
+    this.pending.delete(id);
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('JobQueue', () => {
+  let executor: ControlledExecutor;
+  let queue: JobQueue;
+
+  const createQueue = (options: Partial<JobQueueOptions> = {}) => {
+    queue = new JobQueue(executor.execute, { workers: 1, ...options });
+    return queue;
+  };
+
+  const submit = (id: string, priority?: number, timeout?: number) =>
+    queue.submit({ request: { id, language: 'python', code: '' }, priority, timeout });
+
+  beforeEach(() => {
+    executor = new ControlledExecutor();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    queue.shutdown();
+    executor.completeAll();
+    await flush();
+    jest.restoreAllMocks();
+  });
+
+  it('runs no more jobs at once than it has workers, higher priority first', async () => {
+    createQueue();
+    const first = submit('first');
+    submit('low', 0);
+    submit('high', 5);
+    submit('low-later', 0);
+
+    expect(queue.getStatus()).toMatchObject({ running: 1, queued: 3 });
+
+    for (const id of ['first', 'high', 'low', 'low-later']) {
+      await flush();
+      expect(executor.started[executor.started.length - 1].id).toBe(id);
+      executor.complete(id);
+    }
+
+    const finished = await queue.wait(first.id);
+    expect(finished).toMatchObject({ status: 'completed', executionId: 'first' });
+    expect(finished!.result!.output).toBe('first');
+  });
+
+  it('refuses submissions once the queue is full', () => {
+    createQueue({ maxQueued: 1 });
+    submit('running');
+    submit('queued');
+
+    expect(() => submit('refused')).toThrow('Job queue is full');
+  });
+
+  it('reports executor errors as failed jobs', async () => {
+    createQueue();
+    const job = submit('broken');
+    await flush();
+    executor.fail('broken', 'Docker daemon unreachable');
+
+    expect(await queue.wait(job.id)).toMatchObject({ status: 'failed', error: 'Docker daemon unreachable' });
+  });
+
+  it('times out a running job and keeps its worker until the engine returns', async () => {
+    createQueue();
+    const slow = submit('slow', 0, 20);
+    submit('next');
+
+    expect(await queue.wait(slow.id)).toMatchObject({ status: 'timed-out', error: 'Job exceeded 20ms' });
+    expect(executor.started.map(request => request.id)).toEqual(['slow']);
+    expect(executor.started[0].timeout).toBe(20);
+
+    executor.complete('slow');
+    await flush();
+    expect(executor.started.map(request => request.id)).toEqual(['slow', 'next']);
+    expect(queue.get(slow.id)!.status).toBe('timed-out');
+  });
+
+  it('cancels queued jobs before they start', async () => {
+    createQueue();
+    submit('running');
+    const queued = submit('queued');
+
+    expect(queue.cancel(queued.id)).toMatchObject({ status: 'cancelled' });
+    executor.complete('running');
+    await flush();
+
+    expect(executor.started.map(request => request.id)).toEqual(['running']);
+  });
+
+  it('shows and cancels a job only for the caller that submitted it', () => {
+    createQueue();
+    const job = queue.submit({ request: { id: 'mine', language: 'python', code: '', caller: 'alice' } });
+
+    expect(queue.get(job.id, 'bob')).toBeUndefined();
+    expect(queue.get(job.id, null)).toBeUndefined();
+    expect(queue.cancel(job.id, 'bob')).toBeUndefined();
+    expect(queue.get(job.id, 'alice')).toMatchObject({ caller: 'alice', status: 'running' });
+
+    expect(queue.cancel(job.id, 'alice')).toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * 📋 Job Queue
+ *
+ * Runs executions in the background with a fixed number of workers so a
+ * burst of requests can't start an unbounded number of containers or child
+ * processes. Jobs wait in a bounded queue ordered by priority (higher
+ * first, FIFO within a priority) and can be polled or cancelled by id.
+ *
+ * A job that times out or is cancelled while running is reported as such
+ * right away, but its worker stays busy until the engine actually returns,
+ * so the worker count remains a real limit on concurrent executions. The
+ * engine tracks the run under the job's `executionId`, which is how the
+ * server stops it when the job is cancelled.
+ *
+ * A job belongs to the caller that submitted it (the request's `caller`):
+ * looking one up or cancelling it under another caller finds nothing.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timed-out';
+
+export interface JobQueueOptions {
+  workers: number; // executions running at the same time
+  maxQueued: number; // jobs waiting for a worker before submissions are refused
+  defaultTimeout: number; // ms a job may run when it doesn't set its own timeout
+  retention: number; // ms finished jobs stay available for polling
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  workers: 2,
+  maxQueued: 100,
+  defaultTimeout: 5 * 60 * 1000,
+  retention: 60 * 60 * 1000
+};
+
+export interface JobSubmission {
+  request: ExecutionRequest;
+  priority?: number; // higher runs first, default 0
+  timeout?: number; // ms from start of execution
+}
+
+export interface Job {
+  id: string;
+  caller?: string;
+  status: JobStatus;
+  priority: number;
+  timeout: number;
+  language: string;
+  executionId: string; // the request's id, as tracked by the engine while it runs
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: ExecutionResult;
+  error?: string;
+}
+
+export type JobExecutor = (request: ExecutionRequest) => Promise<ExecutionResult>;
+
+interface QueuedJob {
+  job: Job;
+  request: ExecutionRequest;
+  sequence: number;
+  waiters: Array<(job: Job) => void>;
+}
+
+const FINISHED: JobStatus[] = ['completed', 'failed', 'cancelled', 'timed-out'];
+
+export class JobQueue {
+  private executor: JobExecutor;
+  private options: JobQueueOptions;
+  private jobs: Map<string, QueuedJob> = new Map();
+  private queue: QueuedJob[] = [];
+  private running = 0;
+  private sequence = 0;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(executor: JobExecutor, options: Partial<JobQueueOptions> = {}) {
+    this.executor = executor;
+    this.options = { ...DEFAULT_JOB_QUEUE_OPTIONS, ...options };
+
+    this.sweepTimer = setInterval(() => this.forgetExpired(), Math.min(this.options.retention, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Queue a job. Throws when the queue is full.
+   */
+  submit(submission: JobSubmission): Job {
+    if (this.queue.length >= this.options.maxQueued) {
+      throw new Error(`Job queue is full (${this.options.maxQueued} waiting)`);
+    }
+
+    const timeout = submission.timeout || this.options.defaultTimeout;
+    const executionId = submission.request.id || uuidv4();
+    const entry: QueuedJob = {
+      job: {
+        id: uuidv4(),
+        caller: submission.request.caller,
+        status: 'queued',
+        priority: submission.priority || 0,
+        timeout,
+        language: submission.request.language,
+        executionId,
+        createdAt: Date.now()
+      },
+      // Let the engine enforce the limit too, where it can
+      request: { ...submission.request, id: executionId, timeout: Math.min(submission.request.timeout || timeout, timeout) },
+      sequence: this.sequence++,
+      waiters: []
+    };
+
+    this.jobs.set(entry.job.id, entry);
+    this.enqueue(entry);
+    this.dispatch();
+
+    return { ...entry.job };
+  }
+
+  /**
+   * The job, if `caller` submitted it (null: submitted without a caller;
+   * left out: any caller).
+   */
+  get(id: string, caller?: string | null): Job | undefined {
+    const entry = this.find(id, caller);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * Resolve once the job has finished, whatever the outcome.
+   */
+  wait(id: string): Promise<Job | undefined> {
+    const entry = this.jobs.get(id);
+    if (!entry || FINISHED.includes(entry.job.status)) {
+      return Promise.resolve(entry ? { ...entry.job } : undefined);
+    }
+    return new Promise(resolve => entry.waiters.push(resolve));
+  }
+
+  /**
+   * Cancel a queued or running job. Finished jobs are left as they are.
+   */
+  cancel(id: string, caller?: string | null): Job | undefined {
+    const entry = this.find(id, caller);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.job.status === 'queued') {
+      this.queue = this.queue.filter(queued => queued !== entry);
+      this.finish(entry, 'cancelled');
+    } else if (entry.job.status === 'running') {
+      this.finish(entry, 'cancelled');
+    }
+
+    return { ...entry.job };
+  }
+
+  getStatus(): { queued: number; running: number; workers: number; maxQueued: number } {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      workers: this.options.workers,
+      maxQueued: this.options.maxQueued
+    };
+  }
+
+  shutdown(): void {
+    clearInterval(this.sweepTimer);
+    for (const entry of [...this.queue]) {
+      this.finish(entry, 'cancelled');
+    }
+    this.queue = [];
+  }
+
+  private find(id: string, caller?: string | null): QueuedJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry && (caller === undefined || entry.job.caller === (caller ?? undefined)) ? entry : undefined;
+  }
+
+  private enqueue(entry: QueuedJob): void {
+    // Keep the queue sorted: priority descending, then submission order
+    const index = this.queue.findIndex(queued =>
+      queued.job.priority < entry.job.priority ||
+      (queued.job.priority === entry.job.priority && queued.sequence > entry.sequence)
+    );
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.running < this.options.workers && this.queue.length > 0) {
+      const entry = this.queue.shift()!;
+      this.running++;
+      this.run(entry).finally(() => {
+        this.running--;
+        this.dispatch();
+      });
+    }
+  }
+
+  private async run(entry: QueuedJob): Promise<void> {
+    entry.job.status = 'running';
+    entry.job.startedAt = Date.now();
+    console.log(`📋 Job ${entry.job.id} started (${entry.job.language}, priority ${entry.job.priority})`);
+
+    const timer = setTimeout(() => this.finish(entry, 'timed-out', `Job exceeded ${entry.job.timeout}ms`), entry.job.timeout);
+
+    try {
+      const result = await this.executor(entry.request);
+      this.finish(entry, 'completed', undefined, result);
+    } catch (error) {
+      this.finish(entry, 'failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Record the outcome; the first one wins (a late result after a timeout or
+   * cancellation is discarded).
+   */
+  private finish(entry: QueuedJob, status: JobStatus, error?: string, result?: ExecutionResult): void {
+    if (FINISHED.includes(entry.job.status)) {
+      return;
+    }
+
+    entry.job.status = status;
+    entry.job.finishedAt = Date.now();
+    entry.job.error = error;
+    entry.job.result = result;
+    console.log(`📋 Job ${entry.job.id} ${status}`);
+
+    for (const waiter of entry.waiters.splice(0)) {
+      waiter({ ...entry.job });
+    }
+  }
+
+  private forgetExpired(): void {
+    const cutoff = Date.now() - this.options.retention;
+    for (const [id, entry] of this.jobs) {
+      if (entry.job.finishedAt !== undefined && entry.job.finishedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
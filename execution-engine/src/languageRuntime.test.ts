@@ -0,0 +1,98 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { LanguageRuntime, LanguageRuntimeRegistry } from './languageRuntime';
+
+describe('LanguageRuntimeRegistry', () => {
+  const go: LanguageRuntime = {
+    language: 'go',
+    extension: 'go',
+    image: 'golang:1.20-alpine',
+    install: 'go get {dependencies}',
+    compile: 'go build -o {binary} {entryDir}',
+    run: '{binary}',
+    local: { run: 'go run {entry}' }
+  };
+  const registry = () => new LanguageRuntimeRegistry([go], path.join(os.tmpdir(), 'no-runtimes-config.json'));
+  const context = { entrypoint: 'cmd/main.go', buildDir: '/workspace/.build' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('joins the steps into one script with quoted values', () => {
+    expect(registry().buildScript('go', { ...context, dependencies: ['github.com/x/y'], args: ["it's"] })).toBe(
+      "go get 'github.com/x/y' && go build -o '/workspace/.build/main' './cmd' && '/workspace/.build/main' 'it'\\''s'"
+    );
+  });
+
+  it('installs only when there are dependencies and uses local steps on the host', () => {
+    const runtimes = registry();
+    expect(runtimes.buildScript('go', context)).not.toContain('go get');
+    expect(runtimes.buildScript('go', context, true)).toBe("go run 'cmd/main.go'");
+  });
+
+  it('records phases and sends install and compile output to their logs', () => {
+    const script = registry().buildScript('go', { ...context, logDir: '/workspace/.codecontext' });
+
+    expect(script).toBe([
+      "echo compile > '/workspace/.codecontext/phase'",
+      "(go build -o '/workspace/.build/main' './cmd') > '/workspace/.codecontext/compile.log' 2>&1",
+      "echo run > '/workspace/.codecontext/phase'",
+      "'/workspace/.build/main'"
+    ].join(' && '));
+  });
+
+  it('leaves unknown placeholders alone', () => {
+    expect(registry().render('echo {entryStem} {unknown}', context)).toBe("echo 'cmd/main' {unknown}");
+  });
+
+  it('fingerprints the runtime definition', () => {
+    const runtimes = registry();
+    const before = runtimes.fingerprint('go');
+    runtimes.register({ ...go, image: 'golang:1.22-alpine' });
+
+    expect(runtimes.fingerprint('go')).not.toBe(before);
+  });
+
+  it('loads extra runtimes from the config file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runtimes-'));
+    const configFile = path.join(dir, 'runtimes.json');
+    await fs.writeJson(configFile, { runtimes: [{ language: 'lua', extension: 'lua', image: 'lua:5.4', run: 'lua {entry}' }] });
+
+    try {
+      const runtimes = new LanguageRuntimeRegistry([go], configFile);
+      expect(runtimes.list().map(runtime => runtime.language)).toEqual(['go', 'lua']);
+      expect(runtimes.getDefaultEntrypoint('lua')).toBe('main.lua');
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it('loads the example config', () => {
+    const runtimes = new LanguageRuntimeRegistry([], path.join(__dirname, '..', 'config', 'runtimes.example.json'));
+    const test = runtimes.get('lua').test;
+
+    expect(runtimes.list().map(runtime => runtime.language)).toEqual(['lua', 'kotlin']);
+    // Lua takes the first argument after the options as the script (arg[0]) and
+    // runs it after -e, so -e loads the entry, then the tests, and exits first
+    expect(test && 'command' in test && runtimes.render(test.command, { ...context, entrypoint: 'main.lua', testFile: '/t/test_0.lua' })).toBe(
+      "lua -e \"dofile(arg[0]); dofile(arg[1]); os.exit(true)\" 'main.lua' '/t/test_0.lua'"
+    );
+    expect(runtimes.buildScript('kotlin', { ...context, entrypoint: 'Main.kt' })).toBe(
+      "kotlinc 'Main.kt' -include-runtime -d '/workspace/.build'/main.jar && java -jar '/workspace/.build'/main.jar"
+    );
+  });
+
+  it('rejects incomplete runtimes and unknown languages', () => {
+    const runtimes = registry();
+
+    expect(() => runtimes.register({ ...go, language: 'zig', image: '' })).toThrow('Runtime zig is missing "image"');
+    expect(() => runtimes.register({ ...go, language: 'bad name' })).toThrow('Invalid runtime name');
+    expect(() => runtimes.get('cobol')).toThrow('Unsupported language: cobol');
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * 🧰 Language Runtimes
+ *
+ * Everything the engines need to know about a language lives in one
+ * LanguageRuntime: the default entrypoint, the Docker image, the package
+ * manager and the shell steps that install, prepare, compile, run and test
+ * a project. Steps are command templates, so runtimes can be declared in a
+ * JSON config file as well as in code:
+ *
+ *   {entry}        entrypoint, relative to the working directory
+ *   {entryDir}     directory of the entrypoint, relative to the working directory
+ *   {entryStem}    entrypoint without its extension
+ *   {entryClass}   entryStem with `/` replaced by `.` (Java main class)
+ *   {buildDir}     scratch directory for compiler output, inside the workspace
+ *   {binary}       {buildDir}/main
+ *   {dependencies} the request's dependencies, space separated
+ *   {testFile}     test file (test command only)
+ *
+ * Every substituted value is shell-quoted, and so are a request's
+ * arguments, which are appended to the run step (it must end with the
+ * program's invocation). Container steps run inside the runtime's image;
+ * `local` steps are what SimpleExecutionEngine runs on the host when they
+ * differ. Install and prepare make up the install phase;
+ * its output and the compile phase's go to log files (see diagnostics.ts)
+ * so stdout/stderr only carry the program's own output.
+ *
+ * Extra runtimes are read from CODECONTEXT_RUNTIMES_CONFIG (default
+ * config/runtimes.json) the first time the registry is used; a config entry
+ * with the name of a built-in runtime replaces it.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SupportedLanguage } from './executionEngine';
+import { PackageManager } from './dependencyCache';
+import { DiagnosticFormat, PHASE_FILE, PHASE_LOGS } from './diagnostics';
+import { shellQuote } from './workspace';
+
+// Harnesses built into TestRunner
+export type TestFramework = 'javascript' | 'typescript' | 'python' | 'go' | 'rust';
+
+export type LanguageTestStep =
+  | { framework: TestFramework }
+  // Each test is written to {testFile} and passes when the command exits 0
+  | { command: string; extension?: string };
+
+export interface RuntimeSteps {
+  install?: string; // only when the request has dependencies
+  prepare?: string;
+  compile?: string;
+  run: string;
+}
+
+export interface LanguageRuntime extends RuntimeSteps {
+  language: string;
+  extension: string; // for main.<extension>, the default entrypoint
+  defaultEntrypoint?: string; // when the language needs a specific file name
+  image: string;
+  packageManager?: PackageManager;
+  warmup?: string; // run once in a fresh pooled container
+  test?: LanguageTestStep;
+  diagnostics?: DiagnosticFormat[]; // output formats of the runtime's tools
+  local?: RuntimeSteps; // host commands for SimpleExecutionEngine, when not the same
+}
+
+export interface RuntimeCommandContext {
+  entrypoint: string; // relative to the working directory
+  buildDir: string; // absolute, as seen by the command
+  logDir?: string; // absolute; where phase markers and logs go
+  dependencies?: string[];
+  args?: string[]; // appended to the run step
+}
+
+export type RuntimeStep = keyof RuntimeSteps;
+
+// Default location of the config file, relative to the package root
+export const DEFAULT_RUNTIMES_CONFIG = 'config/runtimes.json';
+
+const BUILTIN_RUNTIMES: LanguageRuntime[] = [
+  {
+    language: 'javascript',
+    extension: 'js',
+    image: 'node:18-alpine',
+    packageManager: 'npm',
+    install: 'npm install',
+    run: 'node {entry}',
+    test: { framework: 'javascript' },
+    diagnostics: ['v8'],
+    local: { run: 'node {entry}' }
+  },
+  {
+    language: 'typescript',
+    extension: 'ts',
+    image: 'node:18-alpine',
+    packageManager: 'npm',
+    warmup: 'npm install -g typescript',
+    // Warm containers already have the compiler
+    prepare: '(command -v tsc >/dev/null || npm install -g typescript) && npm install',
+    compile: 'npx tsc --pretty false {entry}',
+    run: 'node {entryStem}.js',
+    test: { framework: 'typescript' },
+    diagnostics: ['tsc', 'v8'],
+    local: { run: 'ts-node {entry}' }
+  },
+  {
+    language: 'python',
+    extension: 'py',
+    image: 'python:3.11-alpine',
+    packageManager: 'pip',
+    prepare: 'if [ -f requirements.txt ]; then pip install -r requirements.txt; fi',
+    run: 'python {entry}',
+    test: { framework: 'python' },
+    diagnostics: ['python'],
+    local: { run: 'python {entry}' }
+  },
+  {
+    language: 'go',
+    extension: 'go',
+    image: 'golang:1.20-alpine',
+    packageManager: 'go',
+    prepare: '(go mod init main 2>/dev/null || true)',
+    install: 'go get {dependencies}',
+    // Build the whole package so sibling files are compiled too
+    compile: 'go build -o {binary} {entryDir}',
+    run: '{binary}',
+    test: { framework: 'go' },
+    diagnostics: ['go'],
+    local: {
+      prepare: '(go mod init main 2>/dev/null || true)',
+      compile: 'go build -o {binary} {entryDir}',
+      run: '{binary}'
+    }
+  },
+  {
+    language: 'rust',
+    extension: 'rs',
+    image: 'rust:1.70-alpine',
+    packageManager: 'cargo',
+    // Cargo.toml and the offline source replacement are written by the engine
+    compile: 'cargo build --offline --message-format=json',
+    run: 'cargo run --offline --quiet --',
+    test: { framework: 'rust' },
+    diagnostics: ['rustc-json'],
+    local: { compile: 'rustc --error-format=json {entry} -o {binary}', run: '{binary}' }
+  },
+  {
+    language: 'java',
+    extension: 'java',
+    defaultEntrypoint: 'Main.java',
+    image: 'eclipse-temurin:17-jdk-alpine',
+    compile: 'javac -d {buildDir} $(find . -name "*.java")',
+    run: 'java -cp {buildDir} {entryClass}',
+    diagnostics: ['gcc']
+  },
+  {
+    language: 'c',
+    extension: 'c',
+    image: 'gcc:13',
+    compile: 'gcc -O2 -o {binary} $(find . -name "*.c") -lm',
+    run: '{binary}',
+    diagnostics: ['gcc']
+  },
+  {
+    language: 'cpp',
+    extension: 'cpp',
+    image: 'gcc:13',
+    compile: 'g++ -O2 -std=c++17 -o {binary} $(find . -name "*.cpp")',
+    run: '{binary}',
+    diagnostics: ['gcc']
+  },
+  {
+    language: 'ruby',
+    extension: 'rb',
+    image: 'ruby:3.2-alpine',
+    run: 'ruby {entry}',
+    test: { command: 'ruby -e "load ARGV[0]; load ARGV[1]" {entry} {testFile}', extension: 'rb' }
+  },
+  {
+    language: 'bash',
+    extension: 'sh',
+    image: 'bash:5.2',
+    run: 'bash {entry}',
+    test: { command: 'bash -c \'source "$1"; source "$2"\' bash {entry} {testFile}', extension: 'sh' }
+  }
+];
+
+// Script phases and the steps that make them up
+const PHASES: Array<{ phase: 'install' | 'compile' | 'run'; steps: RuntimeStep[] }> = [
+  { phase: 'install', steps: ['install', 'prepare'] },
+  { phase: 'compile', steps: ['compile'] },
+  { phase: 'run', steps: ['run'] }
+];
+
+export class LanguageRuntimeRegistry {
+  private runtimes: Map<string, LanguageRuntime> = new Map();
+  private configFile?: string;
+  private configLoaded = false;
+
+  constructor(runtimes: LanguageRuntime[] = BUILTIN_RUNTIMES, configFile?: string) {
+    runtimes.forEach(runtime => this.runtimes.set(runtime.language, runtime));
+    this.configFile = configFile;
+  }
+
+  register(runtime: LanguageRuntime): void {
+    this.validate(runtime);
+    if (this.runtimes.has(runtime.language)) {
+      console.log(`🧰 Replacing ${runtime.language} runtime`);
+    }
+    this.runtimes.set(runtime.language, runtime);
+  }
+
+  get(language: SupportedLanguage | string): LanguageRuntime {
+    this.loadConfig();
+    const runtime = this.runtimes.get(language);
+    if (!runtime) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+    return runtime;
+  }
+
+  has(language: string): boolean {
+    this.loadConfig();
+    return this.runtimes.has(language);
+  }
+
+  list(): LanguageRuntime[] {
+    this.loadConfig();
+    return Array.from(this.runtimes.values());
+  }
+
+  /**
+   * The default entrypoint for a language, relative to the project root.
+   */
+  getDefaultEntrypoint(language: string): string {
+    const runtime = this.get(language);
+    return runtime.defaultEntrypoint || `main.${runtime.extension}`;
+  }
+
+  /**
+   * Short hash of a runtime's definition; changes when its image or any of
+   * its commands do.
+   */
+  fingerprint(language: string): string {
+    return crypto.createHash('sha256').update(JSON.stringify(this.get(language))).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Join the runtime's steps into one `sh -c` script. `local` selects the
+   * host commands (the container ones unless the runtime has its own);
+   * install only runs when there are dependencies. With a `logDir`, each
+   * phase records itself in the phase file and install/compile output goes
+   * to that phase's log.
+   */
+  buildScript(language: string, context: RuntimeCommandContext, local: boolean = false): string {
+    const runtime = this.get(language);
+    const steps = local ? runtime.local || runtime : runtime;
+
+    return PHASES
+      .map(({ phase, steps: phaseSteps }) => {
+        const commands = phaseSteps
+          .filter(step => step !== 'install' || (context.dependencies || []).length > 0)
+          .map(step => steps[step])
+          .filter((command): command is string => Boolean(command))
+          .map(command => this.render(command, context));
+        if (phase === 'run' && commands.length > 0 && (context.args || []).length > 0) {
+          commands[commands.length - 1] += ` ${context.args!.map(shellQuote).join(' ')}`;
+        }
+        if (commands.length === 0 || !context.logDir) {
+          return commands.join(' && ');
+        }
+
+        const marker = `echo ${phase} > ${shellQuote(path.posix.join(context.logDir, PHASE_FILE))}`;
+        const log = PHASE_LOGS[phase];
+        return log
+          ? `${marker} && (${commands.join(' && ')}) > ${shellQuote(path.posix.join(context.logDir, log))} 2>&1`
+          : `${marker} && ${commands.join(' && ')}`;
+      })
+      .filter(Boolean)
+      .join(' && ');
+  }
+
+  /**
+   * Fill in a command template.
+   */
+  render(template: string, context: RuntimeCommandContext & { testFile?: string }): string {
+    const entry = context.entrypoint;
+    const entryDir = path.posix.dirname(entry);
+    const entryStem = entry.replace(/\.[^./]+$/, '');
+    const values: Record<string, string> = {
+      entry: shellQuote(entry),
+      entryDir: shellQuote(entryDir === '.' ? '.' : `./${entryDir}`),
+      entryStem: shellQuote(entryStem),
+      entryClass: shellQuote(entryStem.split('/').join('.')),
+      buildDir: shellQuote(context.buildDir),
+      binary: shellQuote(path.posix.join(context.buildDir, 'main')),
+      dependencies: (context.dependencies || []).map(shellQuote).join(' '),
+      testFile: shellQuote(context.testFile || '')
+    };
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in values ? values[name] : placeholder
+    );
+  }
+
+  private loadConfig(): void {
+    if (this.configLoaded) return;
+    this.configLoaded = true;
+
+    const file = this.configFile || process.env.CODECONTEXT_RUNTIMES_CONFIG ||
+      path.join(__dirname, '..', DEFAULT_RUNTIMES_CONFIG);
+    if (!fs.existsSync(file)) return;
+
+    let config: { runtimes?: LanguageRuntime[] };
+    try {
+      config = fs.readJsonSync(file);
+    } catch (error) {
+      throw new Error(`Invalid runtimes config ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const runtime of config.runtimes || []) {
+      this.register(runtime);
+    }
+    console.log(`🧰 Loaded ${(config.runtimes || []).length} runtime(s) from ${file}`);
+  }
+
+  private validate(runtime: LanguageRuntime): void {
+    for (const field of ['language', 'extension', 'image', 'run'] as const) {
+      if (typeof runtime[field] !== 'string' || !runtime[field]) {
+        throw new Error(`Runtime ${runtime.language || '(unnamed)'} is missing "${field}"`);
+      }
+    }
+    if (!/^[a-z0-9+#._-]+$/i.test(runtime.language)) {
+      throw new Error(`Invalid runtime name: ${runtime.language}`);
+    }
+    if (runtime.local && typeof runtime.local.run !== 'string') {
+      throw new Error(`Runtime ${runtime.language} has local steps without "run"`);
+    }
+  }
+}
+
+export const runtimeRegistry = new LanguageRuntimeRegistry();
@@ -0,0 +1,51 @@
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { ExecutionMemoryManager } from './memoryIntegration';
+
+const failure = (id: string, caller?: string): [ExecutionRequest, ExecutionResult] => [
+  { id, language: 'python', code: 'print(totl)', caller },
+  {
+    id,
+    success: false,
+    output: '',
+    errors: ["NameError: name 'totl' is not defined"],
+    exitCode: 1,
+    executionTime: 10,
+    memoryUsage: 0
+  }
+];
+
+const success = (id: string, caller?: string): [ExecutionRequest, ExecutionResult] => [
+  { id, language: 'python', code: 'import json\nprint(json.dumps(1))', caller },
+  { id, success: true, output: '1', errors: [], exitCode: 0, executionTime: 10, memoryUsage: 1024 }
+];
+
+describe('ExecutionMemoryManager', () => {
+  let manager: ExecutionMemoryManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    manager = new ExecutionMemoryManager('/project', { databaseFile: ':memory:' });
+    await manager.initialize();
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    jest.restoreAllMocks();
+  });
+
+  it('draws patterns, errors and performance only from the caller\'s runs', async () => {
+    for (const [request, result] of [failure('ci-failed', 'ci'), success('ci-passed', 'ci'), failure('anonymous-failed')]) {
+      await manager.recordExecution(request, result, 'claude');
+    }
+
+    expect((await manager.getErrorPatterns('python', 'ci')).map(cluster => cluster.executions)).toEqual([1]);
+    expect((await manager.getErrorPatterns('python', null)).map(cluster => cluster.executions)).toEqual([1]);
+    expect((await manager.getErrorPatterns('python', 'other'))).toEqual([]);
+    expect((await manager.getErrorPatterns('python')).map(cluster => cluster.executions)).toEqual([2]);
+
+    expect(await manager.getCodePatterns('python', 'other')).toEqual([]);
+    expect((await manager.getCodePatterns('python', 'ci')).length).toBeGreaterThan(0);
+    expect(await manager.getPerformanceInsights('python', null)).toEqual([]);
+    expect((await manager.getPerformanceInsights('python', 'ci')).length).toBeGreaterThan(0);
+  });
+});
@@ -1,10 +1,16 @@
-import { ExecutionResult, ExecutionRequest } from './executionEngine';
-
-// Simplified memory engine interface for execution engine
-interface MemoryEngine {
-  initialize(): Promise<void>;
-  performInitialScan(): Promise<void>;
-}
+import * as path from 'path';
+import { Diagnostic, ExecutionResult, ExecutionRequest } from './executionEngine';
+import { codeAround, errorHeadline, errorSignature, frameSource, isUserFrame, stackFrames } from './errorSignatures';
+import { buildTimeline, ConversationTimeline } from './conversationTimeline';
+import {
+  ConversationPage,
+  ConversationQuery,
+  DEFAULT_MEMORY_DB,
+  ExecutionMemoryStore,
+  ExecutionPage,
+  ExecutionQuery
+} from './memoryStore';
+import { recommendationsFor, RiskFactor, SuccessModel } from './successModel';
 
 export interface ExecutionMemory {
   executionId: string;
@@ -14,6 +20,7 @@ export interface ExecutionMemory {
   result: ExecutionResult;
   aiAssistant: string;
   conversationId?: string;
+  caller?: string; // who asked for the run; history is only shown to them
   learningData: ExecutionLearningData;
 }
 
@@ -36,12 +43,35 @@ export interface CodePattern {
 export interface ErrorPattern {
   errorType: string;
   errorMessage: string;
+  signature?: string; // the message with paths, positions and names stripped (see errorSignatures)
   codeContext: string;
   frequency: number;
   solutions: string[];
   preventionTips: string[];
 }
 
+// Every recorded occurrence of one error signature
+export interface ErrorCluster extends ErrorPattern {
+  signature: string;
+  executions: number; // failed runs it occurred in
+  firstSeen: Date;
+  lastSeen: Date;
+  languages: string[];
+  codeContexts: string[]; // distinct code around the failing frame, most recent first
+}
+
+// Recorded runs the pattern, error and performance analyses look at
+const ANALYSIS_HISTORY_LIMIT = 1000;
+
+// Code excerpts kept per error cluster
+const MAX_CLUSTER_CONTEXTS = 3;
+
+// Latest attempts a conversation timeline shows
+const MAX_TIMELINE_ATTEMPTS = 500;
+
+// Recorded runs the success model replays on startup
+const MODEL_HISTORY_LIMIT = 5000;
+
 export interface PerformanceInsight {
   operation: string;
   averageTime: number;
@@ -56,21 +86,34 @@ export interface SuccessFactors {
   avoidedPitfalls: string[];
 }
 
+export interface ExecutionMemoryOptions {
+  databaseFile?: string; // default CODECONTEXT_MEMORY_DB, else .codecontext/execution-memory.db in the project
+}
+
 export class ExecutionMemoryManager {
-  private memoryEngine: MemoryEngine;
+  private store: ExecutionMemoryStore;
+  private model = new SuccessModel();
   private projectPath: string;
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, options: ExecutionMemoryOptions = {}) {
     this.projectPath = projectPath;
-    // Create a mock memory engine for now
-    this.memoryEngine = {
-      initialize: async () => { console.log('Memory engine initialized'); },
-      performInitialScan: async () => { console.log('Initial scan completed'); }
-    };
+    this.store = new ExecutionMemoryStore(
+      options.databaseFile || process.env.CODECONTEXT_MEMORY_DB || path.join(projectPath, DEFAULT_MEMORY_DB)
+    );
   }
 
   async initialize(): Promise<void> {
-    await this.memoryEngine.initialize();
+    await this.store.open();
+
+    // The model isn't stored; learning from the history again rebuilds it
+    const history = await this.queryExecutionMemory(this.buildExecutionQuery(undefined, false, MODEL_HISTORY_LIMIT));
+    for (const execution of history.reverse()) {
+      this.model.learn(execution.request, execution.result.success, execution.learningData.errorPatterns);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
   }
 
   async recordExecution(
@@ -87,6 +130,7 @@ export class ExecutionMemoryManager {
       result,
       aiAssistant,
       conversationId,
+      caller: request.caller,
       learningData: await this.extractLearningData(request, result)
     };
 
@@ -101,43 +145,88 @@ export class ExecutionMemoryManager {
       await this.linkExecutionToConversation(executionMemory, conversationId);
     }
 
+    this.model.learn(request, result.success, executionMemory.learningData.errorPatterns);
+
     console.log(`🧠 Execution memory recorded: ${result.success ? '✅ Success' : '❌ Failed'}`);
   }
 
   async getExecutionHistory(
     language?: string,
     successOnly?: boolean,
-    limit: number = 50
+    limit: number = 50,
+    caller?: string | null
   ): Promise<ExecutionMemory[]> {
     // Query execution history from memory
-    const query = this.buildExecutionQuery(language, successOnly, limit);
+    const query = this.buildExecutionQuery(language, successOnly, limit, caller);
     return await this.queryExecutionMemory(query);
   }
 
-  async getCodePatterns(language: string): Promise<CodePattern[]> {
-    const executions = await this.getExecutionHistory(language, true);
+  /**
+   * A page of this project's history, filtered and sorted as asked.
+   */
+  async queryHistory(query: Omit<ExecutionQuery, 'projectId'> = {}): Promise<ExecutionPage> {
+    return this.store.queryExecutionPage({ ...query, projectId: this.generateProjectId() });
+  }
+
+  /**
+   * The project's conversations with linked executions, most recently active first.
+   */
+  async getConversations(query: Omit<ConversationQuery, 'projectId'> = {}): Promise<ConversationPage> {
+    return this.store.queryConversations({ ...query, projectId: this.generateProjectId() });
+  }
+
+  /**
+   * The attempts of a conversation in order, with what changed between
+   * them; undefined when none of them is linked to it. With `caller`, only
+   * that caller's attempts count (null: those recorded without a caller).
+   */
+  async getConversationTimeline(conversationId: string, caller?: string | null): Promise<ConversationTimeline | undefined> {
+    const page = await this.queryHistory({ conversationId, caller, sort: 'time', order: 'desc', limit: MAX_TIMELINE_ATTEMPTS });
+    if (page.executions.length === 0) {
+      return undefined;
+    }
+    return buildTimeline(conversationId, page.executions, page.nextCursor !== undefined);
+  }
+
+  /**
+   * Code patterns of the project's runs of a language. With `caller`, as in
+   * the methods below, only that caller's runs count (null: those recorded
+   * without a caller).
+   */
+  async getCodePatterns(language: string, caller?: string | null): Promise<CodePattern[]> {
+    const executions = await this.getExecutionHistory(language, false, ANALYSIS_HISTORY_LIMIT, caller);
     return this.analyzeCodePatterns(executions);
   }
 
-  async getErrorPatterns(language: string): Promise<ErrorPattern[]> {
-    const executions = await this.getExecutionHistory(language, false);
+  /**
+   * What keeps breaking: the project's errors clustered by signature, most
+   * frequent first. Without a language, clusters span every language.
+   */
+  async getErrorPatterns(language?: string, caller?: string | null): Promise<ErrorCluster[]> {
+    const executions = await this.queryExecutionMemory({
+      ...this.buildExecutionQuery(language, false, ANALYSIS_HISTORY_LIMIT, caller),
+      success: false
+    });
     return this.analyzeErrorPatterns(executions);
   }
 
-  async getPerformanceInsights(language: string): Promise<PerformanceInsight[]> {
-    const executions = await this.getExecutionHistory(language, true);
+  async getPerformanceInsights(language: string, caller?: string | null): Promise<PerformanceInsight[]> {
+    const executions = await this.getExecutionHistory(language, true, ANALYSIS_HISTORY_LIMIT, caller);
     return this.analyzePerformancePatterns(executions);
   }
 
+  /**
+   * How likely the request is to succeed, according to a model of the
+   * project's history, and the features of it that make failure likelier.
+   */
   async predictExecutionSuccess(request: ExecutionRequest): Promise<{
     successProbability: number;
     potentialIssues: string[];
     recommendations: string[];
+    riskFactors: RiskFactor[];
+    basedOn: number; // recorded executions the model learned from
   }> {
-    const patterns = await this.getCodePatterns(request.language);
-    const errorPatterns = await this.getErrorPatterns(request.language);
-    
-    return this.analyzePredictiveFactors(request, patterns, errorPatterns);
+    return this.analyzePredictiveFactors(request);
   }
 
   async suggestImprovements(request: ExecutionRequest): Promise<{
@@ -196,14 +285,35 @@ export class ExecutionMemoryManager {
   }
 
   private extractErrorPatterns(request: ExecutionRequest, result: ExecutionResult): ErrorPattern[] {
-    if (result.success || result.errors.length === 0) {
+    if (result.success) {
       return [];
     }
 
+    // Structured diagnostics know their category and location
+    const errors = (result.diagnostics || []).filter(diagnostic => diagnostic.severity === 'error');
+    if (errors.length > 0) {
+      const stderr = result.errors.join('\n');
+      return errors.map(diagnostic => {
+        const errorMessage = diagnostic.code && !diagnostic.message.startsWith(diagnostic.code)
+          ? `${diagnostic.code}: ${diagnostic.message}`
+          : diagnostic.message;
+        return {
+          errorType: this.categorizeDiagnostic(diagnostic),
+          errorMessage,
+          signature: errorSignature(errorMessage),
+          codeContext: this.extractDiagnosticContext(request, diagnostic, stderr),
+          frequency: 1,
+          solutions: this.suggestSolutions(diagnostic.message, request.language),
+          preventionTips: this.generatePreventionTips(diagnostic.message, request.language)
+        };
+      });
+    }
+
     return result.errors.map(error => ({
       errorType: this.categorizeError(error),
-      errorMessage: error,
-      codeContext: this.extractErrorContext(request.code, error),
+      errorMessage: errorHeadline(error),
+      signature: errorSignature(error),
+      codeContext: this.extractErrorContext(request, error),
       frequency: 1,
       solutions: this.suggestSolutions(error, request.language),
       preventionTips: this.generatePreventionTips(error, request.language)
@@ -245,59 +355,163 @@ export class ExecutionMemoryManager {
   }
 
   private async storeExecutionMemory(executionMemory: ExecutionMemory): Promise<void> {
-    // Store in SQLite database through memory engine
-    // This would extend the memory engine schema to include execution data
-    console.log(`Storing execution memory for ${executionMemory.executionId}`);
+    await this.store.saveExecution(executionMemory);
   }
 
   private async updateProjectPatterns(executionMemory: ExecutionMemory): Promise<void> {
-    // Update project-wide patterns based on this execution
-    console.log(`Updating project patterns based on execution ${executionMemory.executionId}`);
+    await this.store.recordProjectPatterns(
+      executionMemory.projectId,
+      executionMemory.request.language,
+      executionMemory.learningData.codePatterns,
+      executionMemory.result.success,
+      executionMemory.timestamp
+    );
   }
 
   private async linkExecutionToConversation(
     executionMemory: ExecutionMemory,
     conversationId: string
   ): Promise<void> {
-    // Link this execution to a conversation in memory
-    console.log(`Linking execution ${executionMemory.executionId} to conversation ${conversationId}`);
+    await this.store.linkConversation(
+      executionMemory.executionId,
+      conversationId,
+      executionMemory.aiAssistant,
+      executionMemory.timestamp
+    );
   }
 
-  private buildExecutionQuery(language?: string, successOnly?: boolean, limit: number = 50): string {
-    // Build SQL query for execution history
-    return `SELECT * FROM executions WHERE 1=1 ${language ? `AND language = '${language}'` : ''} ${successOnly ? 'AND success = 1' : ''} ORDER BY timestamp DESC LIMIT ${limit}`;
+  private buildExecutionQuery(
+    language?: string,
+    successOnly?: boolean,
+    limit: number = 50,
+    caller?: string | null
+  ): ExecutionQuery {
+    // History is per project; the store binds every value as a parameter
+    return {
+      projectId: this.generateProjectId(),
+      caller,
+      language,
+      success: successOnly ? true : undefined,
+      limit
+    };
   }
 
-  private async queryExecutionMemory(query: string): Promise<ExecutionMemory[]> {
-    // Execute query against memory database
-    return [];
+  private async queryExecutionMemory(query: ExecutionQuery): Promise<ExecutionMemory[]> {
+    return this.store.queryExecutions(query);
   }
 
+  /**
+   * How often each code pattern was used and how runs using it went; the
+   * common errors are the signatures most often seen with it.
+   */
   private analyzeCodePatterns(executions: ExecutionMemory[]): CodePattern[] {
-    // Analyze patterns across multiple executions
-    return [];
-  }
+    const patterns: Map<string, CodePattern & { successes: number; errors: Map<string, number> }> = new Map();
+
+    for (const execution of executions) {
+      for (const used of execution.learningData.codePatterns) {
+        const pattern = patterns.get(used.pattern) ||
+          { ...used, frequency: 0, successRate: 0, commonErrors: [], bestPractices: [], successes: 0, errors: new Map() };
+        pattern.frequency++;
+        if (execution.result.success) pattern.successes++;
+        for (const error of execution.learningData.errorPatterns) {
+          const signature = error.signature || errorSignature(error.errorMessage);
+          pattern.errors.set(signature, (pattern.errors.get(signature) || 0) + 1);
+        }
+        pattern.bestPractices = [...new Set([...pattern.bestPractices, ...used.bestPractices])];
+        patterns.set(used.pattern, pattern);
+      }
+    }
+
+    return Array.from(patterns.values())
+      .map(({ successes, errors, ...pattern }) => ({
+        ...pattern,
+        successRate: successes / pattern.frequency,
+        commonErrors: Array.from(errors.entries()).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([signature]) => signature)
+      }))
+      .sort((a, b) => b.frequency - a.frequency);
+  }
+
+  /**
+   * Cluster the errors of `executions` by signature. The example message,
+   * context and advice of a cluster are those of its latest occurrence.
+   */
+  private analyzeErrorPatterns(executions: ExecutionMemory[]): ErrorCluster[] {
+    const clusters: Map<string, ErrorCluster & { executionIds: Set<string> }> = new Map();
+    const latestFirst = [...executions].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    for (const execution of latestFirst) {
+      for (const error of execution.learningData.errorPatterns) {
+        const signature = error.signature || errorSignature(error.errorMessage);
+        let cluster = clusters.get(signature);
+        if (!cluster) {
+          cluster = {
+            ...error,
+            signature,
+            frequency: 0,
+            executions: 0,
+            executionIds: new Set(),
+            firstSeen: execution.timestamp,
+            lastSeen: execution.timestamp,
+            languages: [],
+            codeContexts: []
+          };
+          clusters.set(signature, cluster);
+        }
+
+        cluster.frequency++;
+        cluster.executionIds.add(execution.executionId);
+        cluster.firstSeen = execution.timestamp;
+        if (!cluster.languages.includes(execution.request.language)) {
+          cluster.languages.push(execution.request.language);
+        }
+        if (error.codeContext && cluster.codeContexts.length < MAX_CLUSTER_CONTEXTS &&
+            !cluster.codeContexts.includes(error.codeContext)) {
+          cluster.codeContexts.push(error.codeContext);
+        }
+      }
+    }
 
-  private analyzeErrorPatterns(executions: ExecutionMemory[]): ErrorPattern[] {
-    // Analyze error patterns across multiple executions
-    return [];
+    return Array.from(clusters.values())
+      .map(({ executionIds, ...cluster }) => ({ ...cluster, executions: executionIds.size }))
+      .sort((a, b) => b.frequency - a.frequency || b.lastSeen.getTime() - a.lastSeen.getTime());
   }
 
+  /**
+   * Average time and memory of the runs that executed (cached results
+   * didn't), with the suggestions recorded for them.
+   */
   private analyzePerformancePatterns(executions: ExecutionMemory[]): PerformanceInsight[] {
-    // Analyze performance patterns across multiple executions
-    return [];
+    const runs = executions.filter(execution => !execution.result.cached);
+    if (runs.length === 0) {
+      return [];
+    }
+
+    const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+    const suggestions = runs.flatMap(execution =>
+      execution.learningData.performanceInsights.flatMap(insight => insight.optimizationSuggestions)
+    );
+    return [{
+      operation: 'code_execution',
+      averageTime: average(runs.map(execution => execution.result.executionTime)),
+      memoryUsage: average(runs.map(execution => execution.result.memoryUsage)),
+      optimizationSuggestions: [...new Set(suggestions)]
+    }];
   }
 
-  private analyzePredictiveFactors(
-    request: ExecutionRequest,
-    patterns: CodePattern[],
-    errorPatterns: ErrorPattern[]
-  ): { successProbability: number; potentialIssues: string[]; recommendations: string[] } {
-    // Use historical data to predict success
+  private analyzePredictiveFactors(request: ExecutionRequest): {
+    successProbability: number;
+    potentialIssues: string[];
+    recommendations: string[];
+    riskFactors: RiskFactor[];
+    basedOn: number;
+  } {
+    const prediction = this.model.predict(request);
     return {
-      successProbability: 0.85,
-      potentialIssues: [],
-      recommendations: []
+      successProbability: prediction.probability,
+      potentialIssues: prediction.riskFactors.map(factor => factor.description),
+      recommendations: recommendationsFor(prediction.riskFactors),
+      riskFactors: prediction.riskFactors,
+      basedOn: prediction.samples
     };
   }
 
@@ -321,9 +535,48 @@ export class ExecutionMemoryManager {
     return 'runtime';
   }
 
-  private extractErrorContext(code: string, error: string): string {
-    // Extract relevant code context around the error
-    return code.split('\n').slice(0, 5).join('\n');
+  private categorizeDiagnostic(diagnostic: Diagnostic): string {
+    const text = `${diagnostic.code || ''} ${diagnostic.message}`;
+
+    if (diagnostic.phase === 'install') return 'install';
+    if (/ImportError|ModuleNotFoundError|Cannot find module|TS2307|E043[23]|no required module|could not import/.test(text)) return 'import';
+    if (/SyntaxError|IndentationError|TS1\d{3}|expected|unexpected/i.test(text)) return 'syntax';
+    if (/ReferenceError|NameError|TS230[45]|E0425|undefined:|undeclared|was not declared/.test(text)) return 'reference';
+    if (/TypeError|TS2\d{3}|E0308|mismatched types|cannot use|incompatible/.test(text)) return 'type';
+    if (diagnostic.phase === 'compile') return 'compile';
+    if (diagnostic.phase === 'test') return 'test';
+    return 'runtime';
+  }
+
+  /**
+   * The lines around a diagnostic, when it points into the submitted code,
+   * else around the innermost submitted frame of the stack trace.
+   */
+  private extractDiagnosticContext(request: ExecutionRequest, diagnostic: Diagnostic, stderr: string): string {
+    if (diagnostic.file && diagnostic.line) {
+      const frame = { file: diagnostic.file, line: diagnostic.line };
+      const source = isUserFrame(frame) && frameSource(frame, request.code, request.files, request.entrypoint);
+      const context = source ? codeAround(source, diagnostic.line) : '';
+      if (context) {
+        return context;
+      }
+    }
+    return this.extractErrorContext(request, stderr);
+  }
+
+  /**
+   * The lines around the innermost stack frame that is in the submitted
+   * code, or the first lines of the code when the error has no such frame.
+   */
+  private extractErrorContext(request: ExecutionRequest, error: string): string {
+    for (const frame of stackFrames(error).filter(isUserFrame)) {
+      const source = frameSource(frame, request.code, request.files, request.entrypoint);
+      const context = source !== undefined ? codeAround(source, frame.line) : '';
+      if (context) {
+        return context;
+      }
+    }
+    return request.code.split('\n').slice(0, 5).join('\n');
   }
 
   private suggestSolutions(error: string, language: string): string[] {
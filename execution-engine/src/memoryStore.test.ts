@@ -0,0 +1,175 @@
+import { ExecutionMemory } from './memoryIntegration';
+import { ExecutionExistsError, ExecutionMemoryStore, InvalidCursorError } from './memoryStore';
+
+const memory = (id: string, overrides: Partial<ExecutionMemory> = {}): ExecutionMemory => ({
+  executionId: id,
+  projectId: 'project',
+  timestamp: new Date(1000),
+  request: { id, language: 'python', code: 'print(1)' },
+  result: { id, success: true, output: '1', errors: [], exitCode: 0, executionTime: 10, memoryUsage: 0 },
+  aiAssistant: 'claude',
+  learningData: {
+    codePatterns: [],
+    errorPatterns: [],
+    performanceInsights: [],
+    successFactors: { workingPatterns: [], optimalDependencies: [], bestPractices: [], avoidedPitfalls: [] }
+  },
+  ...overrides
+});
+
+describe('ExecutionMemoryStore', () => {
+  let store: ExecutionMemoryStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    store = new ExecutionMemoryStore(':memory:');
+    await store.open();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.restoreAllMocks();
+  });
+
+  it('migrates a new database to the latest schema', async () => {
+    expect(await store.getSchemaVersion()).toBe(4);
+  });
+
+  it('stores an execution with its error patterns and signatures', async () => {
+    await store.saveExecution(memory('failed', {
+      learningData: {
+        ...memory('failed').learningData,
+        errorPatterns: [{
+          errorType: 'NameError',
+          errorMessage: "NameError: name 'totl' is not defined",
+          codeContext: 'return totl',
+          frequency: 1,
+          solutions: ['Define the name'],
+          preventionTips: []
+        }]
+      }
+    }));
+
+    const stored = await store.getExecution('failed');
+    expect(stored).toMatchObject({ executionId: 'failed', projectId: 'project', aiAssistant: 'claude', timestamp: new Date(1000) });
+    expect(stored!.learningData.errorPatterns).toEqual([expect.objectContaining({
+      errorType: 'NameError',
+      signature: expect.any(String),
+      solutions: ['Define the name']
+    })]);
+    expect(await store.getExecution('missing')).toBeUndefined();
+  });
+
+  it('records the names of environment variables but not their values', async () => {
+    const context = { projectId: 'project', workingDirectory: '.', installedPackages: [], environmentVariables: { API_TOKEN: 'secret' } };
+    const saved = memory('with-env', { request: { id: 'with-env', language: 'python', code: 'print(1)', projectContext: context } });
+
+    await store.saveExecution(saved);
+
+    const stored = await store.getExecution('with-env');
+    expect(stored!.request.projectContext!.environmentVariables).toEqual({ API_TOKEN: '' });
+    expect(saved.request.projectContext!.environmentVariables).toEqual({ API_TOKEN: 'secret' });
+  });
+
+  it('refuses to store an id twice and keeps the first one linked', async () => {
+    await store.saveExecution(memory('run-1'));
+    await store.linkConversation('run-1', 'conversation', 'claude');
+
+    await expect(store.saveExecution(memory('run-1', { aiAssistant: 'other' }))).rejects.toThrow(ExecutionExistsError);
+
+    expect(await store.getExecution('run-1')).toMatchObject({ aiAssistant: 'claude', conversationId: 'conversation' });
+    expect((await store.getConversationLinks('conversation')).map(link => link.executionId)).toEqual(['run-1']);
+  });
+
+  it('pages through executions without skipping or repeating ties', async () => {
+    for (const [id, time] of [['a', 3000], ['b', 2000], ['c', 2000], ['d', 2000], ['e', 1000]] as const) {
+      await store.saveExecution(memory(id, { timestamp: new Date(time) }));
+    }
+
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.queryExecutionPage({ limit: 2, cursor });
+      ids.push(...page.executions.map(execution => execution.executionId));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+    await expect(store.queryExecutionPage({ cursor: 'not-a-cursor' })).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('filters and sorts executions', async () => {
+    await store.saveExecution(memory('slow', { result: { ...memory('slow').result, executionTime: 500 } }));
+    await store.saveExecution(memory('failed', { result: { ...memory('failed').result, success: false, exitCode: 1 } }));
+    await store.saveExecution(memory('elsewhere', { projectId: 'other' }));
+
+    const ids = async (query: Parameters<ExecutionMemoryStore['queryExecutions']>[0]) =>
+      (await store.queryExecutions(query)).map(execution => execution.executionId);
+
+    expect(await ids({ projectId: 'project', success: false })).toEqual(['failed']);
+    expect(await ids({ projectId: 'project', sort: 'duration', order: 'desc', limit: 1 })).toEqual(['slow']);
+  });
+
+  it('keeps the history of each caller apart', async () => {
+    await store.saveExecution(memory('mine', { caller: 'alice' }));
+    await store.saveExecution(memory('theirs', { caller: 'bob' }));
+    await store.saveExecution(memory('anonymous'));
+
+    const ids = async (caller: string | null) =>
+      (await store.queryExecutions({ caller })).map(execution => execution.executionId);
+
+    expect(await ids('alice')).toEqual(['mine']);
+    expect(await ids(null)).toEqual(['anonymous']);
+    expect((await store.getExecution('theirs'))!.caller).toBe('bob');
+  });
+
+  it('summarizes conversations, most recently active first', async () => {
+    await store.saveExecution(memory('first'));
+    await store.saveExecution(memory('second', { result: { ...memory('second').result, success: false, exitCode: 1 } }));
+    await store.saveExecution(memory('other'));
+    await store.linkConversation('first', 'older', 'claude', new Date(1000));
+    await store.linkConversation('second', 'older', 'copilot', new Date(2000));
+    await store.linkConversation('other', 'newer', 'claude', new Date(3000));
+
+    const page = await store.queryConversations({ limit: 1 });
+    expect(page.conversations.map(conversation => conversation.conversationId)).toEqual(['newer']);
+
+    const next = await store.queryConversations({ limit: 1, cursor: page.nextCursor });
+    expect(next.conversations).toEqual([expect.objectContaining({
+      conversationId: 'older',
+      executions: 2,
+      successes: 1,
+      failures: 1,
+      lastExecutionId: 'second',
+      lastSuccess: false
+    })]);
+    expect(next.conversations[0].aiAssistants.sort()).toEqual(['claude', 'copilot']);
+    expect(next.nextCursor).toBeUndefined();
+  });
+
+  it('summarizes only the caller\'s runs in a conversation', async () => {
+    await store.saveExecution(memory('mine', { caller: 'alice' }));
+    await store.saveExecution(memory('theirs', { caller: 'bob', result: { ...memory('theirs').result, success: false, exitCode: 1 } }));
+    await store.linkConversation('mine', 'shared', 'claude', new Date(1000));
+    await store.linkConversation('theirs', 'shared', 'claude', new Date(2000));
+
+    expect((await store.queryConversations({ caller: 'alice' })).conversations).toEqual([expect.objectContaining({
+      conversationId: 'shared',
+      executions: 1,
+      lastExecutionId: 'mine',
+      lastSuccess: true
+    })]);
+    expect((await store.queryConversations({ caller: null })).conversations).toEqual([]);
+    expect((await store.queryConversations({})).conversations[0]).toMatchObject({ executions: 2, lastExecutionId: 'theirs' });
+  });
+
+  it('counts project patterns once per execution', async () => {
+    const loop = { pattern: 'for-loop', language: 'python', frequency: 1, successRate: 1, commonErrors: [], bestPractices: [] };
+    await store.recordProjectPatterns('project', 'python', [loop, loop], true, new Date(1000));
+    await store.recordProjectPatterns('project', 'python', [loop], false, new Date(2000));
+
+    expect(await store.getProjectPatterns('project')).toEqual([
+      { pattern: 'for-loop', language: 'python', frequency: 2, successRate: 0.5, lastSeen: new Date(2000) }
+    ]);
+  });
+});
@@ -0,0 +1,710 @@
+/**
+ * 🗄️ Execution Memory Store
+ *
+ * Where ExecutionMemoryManager keeps what it learns: an embedded SQLite
+ * database (CODECONTEXT_MEMORY_DB, default .codecontext/execution-memory.db
+ * in the project) holding every recorded execution with the caller it ran
+ * for and its learning data, the error patterns found in it, links to the
+ * conversations it came from and per-project pattern counts. Environment
+ * variable values, which may hold credentials, are not recorded; only
+ * their names are.
+ *
+ * The schema is versioned: each migration below runs once, in order, in a
+ * transaction, and is recorded in `schema_migrations`. Never edit a
+ * migration that has shipped; add the next one. Every query takes its
+ * values as bound parameters.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { errorSignature } from './errorSignatures';
+import { CodePattern, ErrorPattern, ExecutionLearningData, ExecutionMemory } from './memoryIntegration';
+
+// Default location of the database, relative to the project
+export const DEFAULT_MEMORY_DB = '.codecontext/execution-memory.db';
+
+export interface ExecutionQuery {
+  projectId?: string;
+  caller?: string | null; // recorded for this caller; null for runs recorded without one
+  language?: string;
+  success?: boolean;
+  since?: Date;
+  until?: Date;
+  aiAssistant?: string;
+  conversationId?: string; // linked to the conversation
+  sort?: ExecutionSort; // default time
+  order?: 'asc' | 'desc'; // default desc
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export type ExecutionSort = 'time' | 'duration';
+
+export interface ExecutionPage {
+  executions: ExecutionMemory[];
+  nextCursor?: string; // absent on the last page
+}
+
+// Thrown for a cursor this store didn't hand out
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Thrown when an execution id is stored twice; stored executions are never replaced
+export class ExecutionExistsError extends Error {
+  constructor(executionId: string) {
+    super(`Execution ${executionId} is already stored`);
+    this.name = 'ExecutionExistsError';
+  }
+}
+
+export interface ConversationLink {
+  conversationId: string;
+  executionId: string;
+  aiAssistant: string;
+  linkedAt: Date;
+}
+
+export interface ConversationQuery {
+  projectId?: string;
+  caller?: string | null; // only this caller's executions count, as in ExecutionQuery
+  aiAssistant?: string; // conversations this assistant took part in
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface ConversationSummary {
+  conversationId: string;
+  aiAssistants: string[];
+  executions: number;
+  successes: number;
+  failures: number;
+  firstExecutionAt: Date;
+  lastExecutionAt: Date;
+  lastExecutionId: string;
+  lastSuccess: boolean; // whether the latest execution succeeded
+}
+
+export interface ConversationPage {
+  conversations: ConversationSummary[]; // most recently active first
+  nextCursor?: string;
+}
+
+export interface ProjectPattern {
+  pattern: string;
+  language: string;
+  frequency: number; // executions the pattern was seen in
+  successRate: number;
+  lastSeen: Date;
+}
+
+interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    statements: [
+      `CREATE TABLE executions (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        language TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        exit_code INTEGER NOT NULL,
+        execution_time INTEGER NOT NULL,
+        memory_usage INTEGER NOT NULL,
+        ai_assistant TEXT NOT NULL,
+        conversation_id TEXT,
+        created_at INTEGER NOT NULL,
+        request TEXT NOT NULL,
+        result TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_executions_project_time ON executions (project_id, created_at DESC)',
+      'CREATE INDEX idx_executions_language_success_time ON executions (language, success, created_at DESC)',
+      'CREATE INDEX idx_executions_time ON executions (created_at DESC)',
+      `CREATE TABLE execution_learning (
+        execution_id TEXT PRIMARY KEY REFERENCES executions (id) ON DELETE CASCADE,
+        code_patterns TEXT NOT NULL,
+        performance_insights TEXT NOT NULL,
+        success_factors TEXT NOT NULL
+      )`,
+      `CREATE TABLE execution_errors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT NOT NULL REFERENCES executions (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        error_type TEXT NOT NULL,
+        error_message TEXT NOT NULL,
+        code_context TEXT NOT NULL,
+        solutions TEXT NOT NULL,
+        prevention_tips TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_execution_errors_execution ON execution_errors (execution_id, position)',
+      'CREATE INDEX idx_execution_errors_type ON execution_errors (error_type)',
+      `CREATE TABLE conversation_links (
+        conversation_id TEXT NOT NULL,
+        execution_id TEXT NOT NULL REFERENCES executions (id) ON DELETE CASCADE,
+        ai_assistant TEXT NOT NULL,
+        linked_at INTEGER NOT NULL,
+        PRIMARY KEY (conversation_id, execution_id)
+      )`,
+      'CREATE INDEX idx_conversation_links_execution ON conversation_links (execution_id)',
+      `CREATE TABLE project_patterns (
+        project_id TEXT NOT NULL,
+        language TEXT NOT NULL,
+        pattern TEXT NOT NULL,
+        frequency INTEGER NOT NULL,
+        successes INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        PRIMARY KEY (project_id, language, pattern)
+      )`
+    ]
+  },
+  {
+    version: 2,
+    name: 'error signatures',
+    statements: [
+      'ALTER TABLE execution_errors ADD COLUMN signature TEXT',
+      'CREATE INDEX idx_execution_errors_signature ON execution_errors (signature)'
+    ]
+  },
+  {
+    version: 3,
+    name: 'history filters',
+    statements: [
+      'CREATE INDEX idx_executions_assistant_time ON executions (ai_assistant, created_at DESC)',
+      'CREATE INDEX idx_executions_project_duration ON executions (project_id, execution_time)'
+    ]
+  },
+  {
+    version: 4,
+    name: 'execution callers',
+    statements: [
+      'ALTER TABLE executions ADD COLUMN caller TEXT',
+      'CREATE INDEX idx_executions_caller_time ON executions (caller, created_at DESC)'
+    ]
+  }
+];
+
+const SORT_COLUMNS: Record<ExecutionSort, 'created_at' | 'execution_time'> = {
+  time: 'created_at',
+  duration: 'execution_time'
+};
+
+interface ExecutionRow {
+  id: string;
+  execution_time: number;
+  ai_assistant: string;
+  conversation_id: string | null;
+  caller: string | null;
+  project_id: string;
+  created_at: number;
+  request: string;
+  result: string;
+  code_patterns: string | null;
+  performance_insights: string | null;
+  success_factors: string | null;
+}
+
+interface ErrorRow {
+  execution_id: string;
+  error_type: string;
+  error_message: string;
+  signature: string | null;
+  code_context: string;
+  solutions: string;
+  prevention_tips: string;
+}
+
+export class ExecutionMemoryStore {
+  private file: string;
+  private db?: sqlite3.Database;
+  // Transactions share the one connection, so they take turns
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Open the database, creating it if needed, and bring the schema up to date.
+   */
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    if (this.file !== ':memory:') {
+      await fs.ensureDir(path.dirname(this.file));
+    }
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.file, (error) => error ? reject(error) : resolve(db));
+    });
+    await this.run('PRAGMA foreign_keys = ON');
+    await this.run('PRAGMA journal_mode = WAL');
+    await this.migrate();
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    if (!db) return;
+
+    this.db = undefined;
+    await this.transactions.catch(() => undefined);
+    await new Promise<void>((resolve, reject) => db.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Store an execution and its learning data. Throws ExecutionExistsError
+   * for an id already stored: replacing it would drop its conversation links.
+   */
+  async saveExecution(memory: ExecutionMemory): Promise<void> {
+    const { request, result, learningData } = memory;
+
+    await this.transaction(async () => {
+      if (await this.get('SELECT 1 FROM executions WHERE id = ?', [memory.executionId])) {
+        throw new ExecutionExistsError(memory.executionId);
+      }
+      await this.run(
+        `INSERT INTO executions (id, project_id, language, success, exit_code, execution_time, memory_usage,
+           ai_assistant, conversation_id, caller, created_at, request, result)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          memory.executionId,
+          memory.projectId,
+          request.language,
+          result.success ? 1 : 0,
+          result.exitCode,
+          result.executionTime,
+          result.memoryUsage,
+          memory.aiAssistant,
+          memory.conversationId ?? null,
+          memory.caller ?? null,
+          memory.timestamp.getTime(),
+          JSON.stringify(withoutEnvironmentValues(request)),
+          JSON.stringify(withoutArtifactContent(result))
+        ]
+      );
+      await this.run(
+        `INSERT INTO execution_learning (execution_id, code_patterns, performance_insights, success_factors)
+         VALUES (?, ?, ?, ?)`,
+        [
+          memory.executionId,
+          JSON.stringify(learningData.codePatterns),
+          JSON.stringify(learningData.performanceInsights),
+          JSON.stringify(learningData.successFactors)
+        ]
+      );
+
+      for (const [position, error] of learningData.errorPatterns.entries()) {
+        await this.run(
+          `INSERT INTO execution_errors (execution_id, position, error_type, error_message, signature, code_context, solutions, prevention_tips)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            memory.executionId,
+            position,
+            error.errorType,
+            error.errorMessage,
+            error.signature || errorSignature(error.errorMessage),
+            error.codeContext,
+            JSON.stringify(error.solutions),
+            JSON.stringify(error.preventionTips)
+          ]
+        );
+      }
+    });
+  }
+
+  async getExecution(executionId: string): Promise<ExecutionMemory | undefined> {
+    const rows = await this.all<ExecutionRow>(`${SELECT_EXECUTIONS} WHERE e.id = ?`, [executionId]);
+    return (await this.hydrate(rows))[0];
+  }
+
+  /**
+   * Executions matching every given filter, most recent first.
+   */
+  async queryExecutions(query: ExecutionQuery = {}): Promise<ExecutionMemory[]> {
+    return (await this.queryExecutionPage(query)).executions;
+  }
+
+  /**
+   * One page of the executions matching every given filter, in the given
+   * order. `nextCursor`, passed back as `cursor`, continues after the page.
+   */
+  async queryExecutionPage(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.projectId !== undefined) {
+      conditions.push('e.project_id = ?');
+      params.push(query.projectId);
+    }
+    if (query.caller !== undefined) {
+      conditions.push('e.caller IS ?');
+      params.push(query.caller);
+    }
+    if (query.language !== undefined) {
+      conditions.push('e.language = ?');
+      params.push(query.language);
+    }
+    if (query.success !== undefined) {
+      conditions.push('e.success = ?');
+      params.push(query.success ? 1 : 0);
+    }
+    if (query.since) {
+      conditions.push('e.created_at >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until) {
+      conditions.push('e.created_at < ?');
+      params.push(query.until.getTime());
+    }
+    if (query.aiAssistant !== undefined) {
+      conditions.push('e.ai_assistant = ?');
+      params.push(query.aiAssistant);
+    }
+    if (query.conversationId !== undefined) {
+      conditions.push('EXISTS (SELECT 1 FROM conversation_links c WHERE c.conversation_id = ? AND c.execution_id = e.id)');
+      params.push(query.conversationId);
+    }
+
+    // Ties on the sort column are broken by id, so pages neither skip nor repeat
+    const column = SORT_COLUMNS[query.sort || 'time'];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    if (query.cursor) {
+      const [value, id] = decodeCursor(query.cursor);
+      conditions.push(`(e.${column} ${direction === 'ASC' ? '>' : '<'} ? OR (e.${column} = ? AND e.id > ?))`);
+      params.push(value, value, id);
+    }
+
+    const limit = Math.max(1, Math.floor(query.limit ?? 50));
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.all<ExecutionRow>(
+      `${SELECT_EXECUTIONS}${where} ORDER BY e.${column} ${direction}, e.id LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      executions: await this.hydrate(page),
+      nextCursor: rows.length > limit ? encodeCursor(last[column], last.id) : undefined
+    };
+  }
+
+  async linkConversation(executionId: string, conversationId: string, aiAssistant: string, linkedAt: Date = new Date()): Promise<void> {
+    await this.transaction(async () => {
+      await this.run(
+        `INSERT INTO conversation_links (conversation_id, execution_id, ai_assistant, linked_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (conversation_id, execution_id) DO UPDATE SET ai_assistant = excluded.ai_assistant`,
+        [conversationId, executionId, aiAssistant, linkedAt.getTime()]
+      );
+      await this.run('UPDATE executions SET conversation_id = ? WHERE id = ?', [conversationId, executionId]);
+    });
+  }
+
+  /**
+   * The links of a conversation, in the order they were made.
+   */
+  async getConversationLinks(conversationId: string): Promise<ConversationLink[]> {
+    const rows = await this.all<{ conversation_id: string; execution_id: string; ai_assistant: string; linked_at: number }>(
+      `SELECT conversation_id, execution_id, ai_assistant, linked_at FROM conversation_links
+       WHERE conversation_id = ? ORDER BY linked_at, execution_id`,
+      [conversationId]
+    );
+    return rows.map(row => ({
+      conversationId: row.conversation_id,
+      executionId: row.execution_id,
+      aiAssistant: row.ai_assistant,
+      linkedAt: new Date(row.linked_at)
+    }));
+  }
+
+  /**
+   * One page of the conversations with linked executions, most recently
+   * active first.
+   */
+  async queryConversations(query: ConversationQuery = {}): Promise<ConversationPage> {
+    const scope: string[] = [];
+    const scopeParams: unknown[] = [];
+    const having: string[] = [];
+    const havingParams: unknown[] = [];
+
+    // The executions that count, for the totals and the latest attempt alike
+    if (query.projectId !== undefined) {
+      scope.push('project_id = ?');
+      scopeParams.push(query.projectId);
+    }
+    if (query.caller !== undefined) {
+      scope.push('caller IS ?');
+      scopeParams.push(query.caller);
+    }
+    const within = (alias: string) => scope.map(condition => ` AND ${alias}.${condition}`).join('');
+
+    if (query.aiAssistant !== undefined) {
+      having.push('SUM(c.ai_assistant = ?) > 0');
+      havingParams.push(query.aiAssistant);
+    }
+    if (query.cursor) {
+      const [lastAt, conversationId] = decodeCursor(query.cursor);
+      having.push('(MAX(c.linked_at) < ? OR (MAX(c.linked_at) = ? AND c.conversation_id > ?))');
+      havingParams.push(lastAt, lastAt, conversationId);
+    }
+
+    const limit = Math.max(1, Math.floor(query.limit ?? 50));
+    const rows = await this.all<{
+      conversation_id: string;
+      assistants: string;
+      executions: number;
+      successes: number;
+      first_at: number;
+      last_at: number;
+      last_execution_id: string;
+      last_success: number;
+    }>(
+      `SELECT c.conversation_id, GROUP_CONCAT(DISTINCT c.ai_assistant) AS assistants, COUNT(*) AS executions,
+         SUM(e.success) AS successes, MIN(c.linked_at) AS first_at, MAX(c.linked_at) AS last_at,
+         (SELECT l.execution_id FROM conversation_links l JOIN executions x ON x.id = l.execution_id
+          WHERE l.conversation_id = c.conversation_id${within('x')}
+          ORDER BY l.linked_at DESC, l.execution_id DESC LIMIT 1) AS last_execution_id,
+         (SELECT x.success FROM conversation_links l JOIN executions x ON x.id = l.execution_id
+          WHERE l.conversation_id = c.conversation_id${within('x')}
+          ORDER BY l.linked_at DESC, l.execution_id DESC LIMIT 1) AS last_success
+       FROM conversation_links c JOIN executions e ON e.id = c.execution_id
+       WHERE 1 = 1${within('e')}
+       GROUP BY c.conversation_id
+       ${having.length > 0 ? `HAVING ${having.join(' AND ')}` : ''}
+       ORDER BY last_at DESC, c.conversation_id LIMIT ?`,
+      [...scopeParams, ...scopeParams, ...scopeParams, ...havingParams, limit + 1]
+    );
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      conversations: page.map(row => ({
+        conversationId: row.conversation_id,
+        aiAssistants: row.assistants.split(','),
+        executions: row.executions,
+        successes: row.successes,
+        failures: row.executions - row.successes,
+        firstExecutionAt: new Date(row.first_at),
+        lastExecutionAt: new Date(row.last_at),
+        lastExecutionId: row.last_execution_id,
+        lastSuccess: row.last_success === 1
+      })),
+      nextCursor: rows.length > limit ? encodeCursor(last.last_at, last.conversation_id) : undefined
+    };
+  }
+
+  /**
+   * Count the patterns an execution used towards its project's totals.
+   */
+  async recordProjectPatterns(
+    projectId: string,
+    language: string,
+    patterns: CodePattern[],
+    success: boolean,
+    seenAt: Date = new Date()
+  ): Promise<void> {
+    const names = [...new Set(patterns.map(pattern => pattern.pattern))];
+    await this.transaction(async () => {
+      for (const name of names) {
+        await this.run(
+          `INSERT INTO project_patterns (project_id, language, pattern, frequency, successes, last_seen) VALUES (?, ?, ?, 1, ?, ?)
+           ON CONFLICT (project_id, language, pattern) DO UPDATE SET
+             frequency = frequency + 1,
+             successes = successes + excluded.successes,
+             last_seen = MAX(last_seen, excluded.last_seen)`,
+          [projectId, language, name, success ? 1 : 0, seenAt.getTime()]
+        );
+      }
+    });
+  }
+
+  async getProjectPatterns(projectId: string, language?: string): Promise<ProjectPattern[]> {
+    const rows = await this.all<{ pattern: string; language: string; frequency: number; successes: number; last_seen: number }>(
+      `SELECT pattern, language, frequency, successes, last_seen FROM project_patterns
+       WHERE project_id = ?${language !== undefined ? ' AND language = ?' : ''} ORDER BY frequency DESC, pattern`,
+      language !== undefined ? [projectId, language] : [projectId]
+    );
+    return rows.map(row => ({
+      pattern: row.pattern,
+      language: row.language,
+      frequency: row.frequency,
+      successRate: row.frequency > 0 ? row.successes / row.frequency : 0,
+      lastSeen: new Date(row.last_seen)
+    }));
+  }
+
+  /**
+   * Schema version the database is at.
+   */
+  async getSchemaVersion(): Promise<number> {
+    const row = await this.get<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations');
+    return row?.version ?? 0;
+  }
+
+  private async migrate(): Promise<void> {
+    await this.run(
+      'CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL)'
+    );
+    const current = await this.getSchemaVersion();
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    if (current > latest) {
+      throw new Error(`Execution memory ${this.file} is at schema version ${current}, newer than this engine (${latest})`);
+    }
+
+    for (const migration of MIGRATIONS.filter(migration => migration.version > current)) {
+      await this.transaction(async () => {
+        for (const statement of migration.statements) {
+          await this.run(statement);
+        }
+        await this.run(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, Date.now()]
+        );
+      });
+      console.log(`🗄️  Execution memory migrated to schema version ${migration.version} (${migration.name})`);
+    }
+  }
+
+  private async hydrate(rows: ExecutionRow[]): Promise<ExecutionMemory[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const errors = await this.all<ErrorRow>(
+      `SELECT execution_id, error_type, error_message, signature, code_context, solutions, prevention_tips FROM execution_errors
+       WHERE execution_id IN (${rows.map(() => '?').join(', ')}) ORDER BY execution_id, position`,
+      rows.map(row => row.id)
+    );
+    const errorsByExecution: Map<string, ErrorPattern[]> = new Map();
+    for (const row of errors) {
+      const list = errorsByExecution.get(row.execution_id) || [];
+      list.push({
+        errorType: row.error_type,
+        errorMessage: row.error_message,
+        signature: row.signature ?? errorSignature(row.error_message),
+        codeContext: row.code_context,
+        frequency: 1,
+        solutions: JSON.parse(row.solutions),
+        preventionTips: JSON.parse(row.prevention_tips)
+      });
+      errorsByExecution.set(row.execution_id, list);
+    }
+
+    return rows.map(row => {
+      const learningData: ExecutionLearningData = {
+        codePatterns: row.code_patterns ? JSON.parse(row.code_patterns) : [],
+        errorPatterns: errorsByExecution.get(row.id) || [],
+        performanceInsights: row.performance_insights ? JSON.parse(row.performance_insights) : [],
+        successFactors: row.success_factors
+          ? JSON.parse(row.success_factors)
+          : { workingPatterns: [], optimalDependencies: [], bestPractices: [], avoidedPitfalls: [] }
+      };
+      return {
+        executionId: row.id,
+        projectId: row.project_id,
+        timestamp: new Date(row.created_at),
+        request: JSON.parse(row.request) as ExecutionRequest,
+        result: JSON.parse(row.result) as ExecutionResult,
+        aiAssistant: row.ai_assistant,
+        conversationId: row.conversation_id ?? undefined,
+        caller: row.caller ?? undefined,
+        learningData
+      };
+    });
+  }
+
+  /**
+   * Run `work` inside BEGIN/COMMIT, rolling back if it throws.
+   */
+  private transaction<T>(work: () => Promise<T>): Promise<T> {
+    const next = this.transactions.catch(() => undefined).then(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const value = await work();
+        await this.run('COMMIT');
+        return value;
+      } catch (error) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+    this.transactions = next;
+    return next;
+  }
+
+  private connection(): sqlite3.Database {
+    if (!this.db) {
+      throw new Error('Execution memory store is not open');
+    }
+    return this.db;
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.connection().run(sql, params, (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  private get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.connection().get<T>(sql, params, (error, row) => error ? reject(error) : resolve(row));
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.connection().all<T>(sql, params, (error, rows) => error ? reject(error) : resolve(rows));
+    });
+  }
+}
+
+const SELECT_EXECUTIONS = `SELECT e.id, e.execution_time, e.project_id, e.ai_assistant, e.conversation_id, e.caller, e.created_at,
+    e.request, e.result,
+    l.code_patterns, l.performance_insights, l.success_factors
+  FROM executions e LEFT JOIN execution_learning l ON l.execution_id = e.id`;
+
+function encodeCursor(value: number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [number, string] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value === 'number' && typeof id === 'string') {
+      return [value, id];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError();
+}
+
+// Inline artifact contents can be megabytes; the memory only needs to know they existed
+function withoutArtifactContent(result: ExecutionResult): ExecutionResult {
+  return result.artifacts
+    ? { ...result, artifacts: result.artifacts.map(({ content, ...artifact }) => artifact) }
+    : result;
+}
+
+// Tokens and passwords reach programs as environment variables; keep the names only
+function withoutEnvironmentValues(request: ExecutionRequest): ExecutionRequest {
+  const context = request.projectContext;
+  return context?.environmentVariables
+    ? {
+      ...request,
+      projectContext: {
+        ...context,
+        environmentVariables: Object.fromEntries(Object.keys(context.environmentVariables).map(name => [name, '']))
+      }
+    }
+    : request;
+}
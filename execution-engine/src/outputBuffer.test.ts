@@ -0,0 +1,51 @@
+import { OutputChunk } from './executionEngine';
+import { OutputBuffer, resolveOutputLimits, truncationMarker } from './outputBuffer';
+
+describe('OutputBuffer', () => {
+  it('keeps each stream up to its limit and marks what was dropped', () => {
+    const forwarded: OutputChunk[] = [];
+    const buffer = new OutputBuffer({ stdout: 8, stderr: 100 }, chunk => forwarded.push(chunk));
+
+    buffer.push('stdout', 'hello ');
+    buffer.push('stdout', 'world');
+    buffer.push('stdout', 'again');
+    buffer.push('stderr', 'warning');
+
+    expect(buffer.text('stdout')).toBe('hello wo' + truncationMarker(8, 8));
+    expect(buffer.text('stderr')).toBe('warning');
+    expect(buffer.truncated()).toEqual({ stdout: 8 });
+    expect(forwarded).toEqual([
+      { stream: 'stdout', data: 'hello ' },
+      { stream: 'stdout', data: 'wo' },
+      { stream: 'stdout', data: truncationMarker(8) },
+      { stream: 'stderr', data: 'warning' }
+    ]);
+  });
+
+  it('reports nothing truncated when everything fit', () => {
+    const buffer = new OutputBuffer({ stdout: 8, stderr: 8 });
+    buffer.push('stdout', Buffer.from('12345678'));
+
+    expect(buffer.text('stdout')).toBe('12345678');
+    expect(buffer.truncated()).toBeUndefined();
+  });
+});
+
+describe('resolveOutputLimits', () => {
+  const saved = process.env.CODECONTEXT_MAX_OUTPUT_BYTES;
+
+  afterEach(() => {
+    if (saved === undefined) {
+      delete process.env.CODECONTEXT_MAX_OUTPUT_BYTES;
+    } else {
+      process.env.CODECONTEXT_MAX_OUTPUT_BYTES = saved;
+    }
+  });
+
+  it('takes positive requested limits up to the server maximum', () => {
+    process.env.CODECONTEXT_MAX_OUTPUT_BYTES = '4096';
+
+    expect(resolveOutputLimits({ stdout: 100, stderr: 1e9 })).toEqual({ stdout: 100, stderr: 4096 });
+    expect(resolveOutputLimits({ stdout: -1 })).toEqual({ stdout: 4096, stderr: 4096 });
+  });
+});
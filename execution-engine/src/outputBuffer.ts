@@ -0,0 +1,105 @@
+/**
+ * ✂️ Output Buffer
+ *
+ * Keeps a program's stdout and stderr up to a byte limit per stream, so a
+ * program printing in a loop can't grow the server's memory without bound.
+ * Output past the limit is counted but dropped, and a truncation marker
+ * takes its place both in the live stream and in the final text.
+ */
+
+import { OutputChunk, OutputListener, OutputStream } from './executionEngine';
+
+export interface OutputLimits {
+  stdout: number; // bytes
+  stderr: number;
+}
+
+export const DEFAULT_OUTPUT_LIMITS: OutputLimits = {
+  stdout: 1024 * 1024,
+  stderr: 1024 * 1024
+};
+
+// What a request may ask for, unless CODECONTEXT_MAX_OUTPUT_BYTES says otherwise
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
+/**
+ * The limits for a request: what it asked for, within the server maximum.
+ */
+export function resolveOutputLimits(requested: Partial<OutputLimits> = {}): OutputLimits {
+  const max = Number(process.env.CODECONTEXT_MAX_OUTPUT_BYTES) || MAX_OUTPUT_BYTES;
+  const limit = (stream: OutputStream): number => {
+    const value = Number(requested[stream]);
+    return Math.min(value > 0 ? Math.floor(value) : DEFAULT_OUTPUT_LIMITS[stream], max);
+  };
+
+  return { stdout: limit('stdout'), stderr: limit('stderr') };
+}
+
+export function truncationMarker(limit: number, dropped?: number): string {
+  return dropped === undefined
+    ? `\n[output truncated at ${limit} bytes]\n`
+    : `\n[output truncated at ${limit} bytes, ${dropped} bytes dropped]`;
+}
+
+export class OutputBuffer {
+  private limits: OutputLimits;
+  private onOutput?: OutputListener;
+  private kept: Record<OutputStream, Buffer[]> = { stdout: [], stderr: [] };
+  private bytes: Record<OutputStream, number> = { stdout: 0, stderr: 0 };
+  private dropped: Record<OutputStream, number> = { stdout: 0, stderr: 0 };
+
+  constructor(limits: OutputLimits, onOutput?: OutputListener) {
+    this.limits = limits;
+    this.onOutput = onOutput;
+  }
+
+  /**
+   * Record a chunk, forwarding the part that fits to the listener.
+   */
+  push(stream: OutputStream, data: Buffer | string): void {
+    const chunk = typeof data === 'string' ? Buffer.from(data) : data;
+    const room = this.limits[stream] - this.bytes[stream];
+
+    if (room <= 0) {
+      this.dropped[stream] += chunk.length;
+      return;
+    }
+
+    const kept = chunk.length > room ? chunk.subarray(0, room) : chunk;
+    this.kept[stream].push(kept);
+    this.bytes[stream] += kept.length;
+    this.forward({ stream, data: kept.toString() });
+
+    if (kept.length < chunk.length) {
+      this.dropped[stream] += chunk.length - kept.length;
+      this.forward({ stream, data: truncationMarker(this.limits[stream]) });
+    }
+  }
+
+  /**
+   * Everything kept for a stream, with a marker when some was dropped.
+   */
+  text(stream: OutputStream): string {
+    const text = Buffer.concat(this.kept[stream]).toString();
+    return this.dropped[stream] > 0
+      ? text + truncationMarker(this.limits[stream], this.dropped[stream])
+      : text;
+  }
+
+  /**
+   * Bytes dropped per stream, or undefined when nothing was.
+   */
+  truncated(): Partial<Record<OutputStream, number>> | undefined {
+    const truncated: Partial<Record<OutputStream, number>> = {};
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.dropped[stream] > 0) {
+        truncated[stream] = this.dropped[stream];
+      }
+    }
+    return Object.keys(truncated).length > 0 ? truncated : undefined;
+  }
+
+  private forward(chunk: OutputChunk): void {
+    this.onOutput?.(chunk);
+  }
+}
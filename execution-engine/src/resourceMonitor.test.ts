@@ -0,0 +1,80 @@
+import Docker from 'dockerode';
+import { PassThrough } from 'stream';
+import { ResourceMonitor } from './resourceMonitor';
+
+// A stats frame as `docker stats` streams it; v1 hosts count operations, v2 hosts only bytes
+const frame = (cpu: number, system: number, memory: number, io: { ops?: number; bytes: number }, txPackets: number, maxUsage?: number) => ({
+  cpu_stats: { cpu_usage: { total_usage: cpu }, system_cpu_usage: system, online_cpus: 2 },
+  precpu_stats: { cpu_usage: { total_usage: cpu - 100 }, system_cpu_usage: system - 1000 },
+  memory_stats: { usage: memory, max_usage: maxUsage },
+  blkio_stats: {
+    io_service_bytes_recursive: [{ op: 'read', value: io.bytes }, { op: 'write', value: io.bytes }],
+    io_serviced_recursive: io.ops === undefined ? null : [{ op: 'Read', value: io.ops }, { op: 'Write', value: io.ops }]
+  },
+  networks: { eth0: { rx_packets: 1, tx_packets: txPackets } }
+});
+
+// Just enough of a Docker container for the monitor: a one-off and a streamed stats call
+const container = (frames: object[], baseline?: object) => {
+  const stream = new PassThrough();
+  return {
+    stream,
+    container: {
+      async stats({ stream: streamed }: { stream: boolean }) {
+        if (!streamed) return baseline;
+        // Frames may be split anywhere
+        const text = frames.map(entry => JSON.stringify(entry) + '\n').join('');
+        setImmediate(() => {
+          stream.write(text.slice(0, 10));
+          stream.end(text.slice(10));
+        });
+        return stream;
+      }
+    } as unknown as Docker.Container
+  };
+};
+
+describe('ResourceMonitor', () => {
+  it('averages CPU over the frames that have a previous reading and keeps the memory peak (cgroup v1)', async () => {
+    const monitor = new ResourceMonitor();
+    await monitor.start(container([
+      { ...frame(100, 1000, 10, { ops: 1, bytes: 10 }, 2), precpu_stats: {} },
+      frame(300, 3000, 50, { ops: 3, bytes: 30 }, 4, 80),
+      frame(500, 4000, 20, { ops: 5, bytes: 50 }, 6)
+    ]).container);
+
+    const metrics = await monitor.stop();
+
+    // (100 / 1000) * 2 CPUs * 100 on both frames after the first
+    expect(metrics.cpuUsage).toBe(20);
+    expect(metrics.memoryPeak).toBe(80);
+    expect(metrics.ioOperations).toBe(10);
+    expect(metrics.networkCalls).toBe(6);
+    expect(metrics.samples!.map(sample => [sample.memoryUsage, sample.blockReadBytes, sample.blockWriteBytes])).toEqual([
+      [10, 10, 10], [50, 30, 30], [20, 50, 50]
+    ]);
+  });
+
+  it('counts bytes where the host reports no operations (cgroup v2)', async () => {
+    const monitor = new ResourceMonitor();
+    await monitor.start(container([frame(100, 1000, 10, { bytes: 4096 }, 1)]).container);
+
+    expect((await monitor.stop()).ioOperations).toBe(8192);
+  });
+
+  it('counts a shared container from its baseline and ignores its earlier peak', async () => {
+    const monitor = new ResourceMonitor();
+    const { container: shared, stream } = container(
+      [frame(100, 1000, 30, { ops: 12, bytes: 0 }, 15, 999)],
+      frame(0, 0, 0, { ops: 10, bytes: 0 }, 10)
+    );
+    await monitor.start(shared, true);
+    await new Promise(resolve => stream.on('end', resolve));
+
+    const metrics = await monitor.stop();
+
+    expect(metrics.ioOperations).toBe(4);
+    expect(metrics.networkCalls).toBe(5);
+    expect(metrics.memoryPeak).toBe(30);
+  });
+});
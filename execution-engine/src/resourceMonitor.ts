@@ -0,0 +1,203 @@
+/**
+ * 📊 Resource Monitor
+ *
+ * Streams `docker stats` for a container for as long as it runs and turns
+ * the samples into PerformanceMetrics. The stream has to be opened while the
+ * container is alive; stats requested after exit are empty or fail.
+ *
+ * Pooled containers outlive a single run, so for those the counters are
+ * taken relative to a baseline read at start and the stream is closed
+ * as soon as the run is over instead of waiting for it to end.
+ *
+ * On cgroup v2 hosts Docker reports block I/O in bytes only; ioOperations
+ * then counts bytes rather than staying at 0.
+ */
+
+import Docker from 'dockerode';
+import { PerformanceMetrics, ResourceSample } from './executionEngine';
+
+// Older samples are thinned out rather than dropped once this many are held
+const MAX_SAMPLES = 300;
+// The stats stream closes on its own when the container stops
+const STREAM_DRAIN_TIMEOUT = 2000;
+
+export class ResourceMonitor {
+  private stream?: NodeJS.ReadableStream;
+  private drained: Promise<void> = Promise.resolve();
+  private startedAt = 0;
+  private samples: ResourceSample[] = [];
+  private cpuTotal = 0;
+  private cpuReadings = 0;
+  private memoryPeak = 0;
+  private ioOperations = 0;
+  private networkPackets = 0;
+  private shared = false;
+  private baseline = { ioOperations: 0, networkPackets: 0 };
+
+  async start(container: Docker.Container, shared: boolean = false): Promise<void> {
+    this.startedAt = Date.now();
+    this.shared = shared;
+
+    if (shared) {
+      try {
+        const stats = await container.stats({ stream: false });
+        this.baseline = {
+          ioOperations: this.ioCount(stats),
+          networkPackets: this.networkTotals(stats).tx
+        };
+      } catch {
+        // Without a baseline the counters include earlier runs; still better than nothing
+      }
+    }
+
+    try {
+      this.stream = await container.stats({ stream: true });
+    } catch (error) {
+      console.log('📊 Could not stream container stats:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const stream = this.stream;
+    let buffered = '';
+
+    this.drained = new Promise<void>((resolve) => {
+      stream.on('data', (chunk: Buffer) => {
+        buffered += chunk.toString();
+
+        let newline: number;
+        while ((newline = buffered.indexOf('\n')) !== -1) {
+          const line = buffered.slice(0, newline).trim();
+          buffered = buffered.slice(newline + 1);
+          if (!line) continue;
+
+          try {
+            this.record(JSON.parse(line));
+          } catch {
+            // Partial or malformed frame, skip it
+          }
+        }
+      });
+
+      stream.on('end', () => resolve());
+      stream.on('close', () => resolve());
+      stream.on('error', () => resolve());
+    });
+  }
+
+  /**
+   * Wait briefly for the stream to drain, close it and summarise.
+   */
+  async stop(): Promise<PerformanceMetrics> {
+    if (!this.shared) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        this.drained,
+        new Promise<void>(resolve => { timer = setTimeout(resolve, STREAM_DRAIN_TIMEOUT); })
+      ]);
+      clearTimeout(timer);
+    }
+
+    const stream = this.stream as (NodeJS.ReadableStream & { destroy?: () => void }) | undefined;
+    stream?.destroy?.();
+    this.stream = undefined;
+
+    return this.getMetrics();
+  }
+
+  getMetrics(): PerformanceMetrics {
+    return {
+      cpuUsage: this.cpuReadings > 0 ? Math.round((this.cpuTotal / this.cpuReadings) * 100) / 100 : 0,
+      memoryPeak: this.memoryPeak,
+      ioOperations: this.ioOperations,
+      networkCalls: this.networkPackets,
+      executionProfile: [],
+      samples: [...this.samples]
+    };
+  }
+
+  private record(stats: Docker.ContainerStats): void {
+    const memoryUsage = stats.memory_stats?.usage || 0;
+    // cgroup v1 reports a high-water mark, cgroup v2 only the current usage;
+    // a shared container's high-water mark may belong to an earlier run
+    const memoryMax = this.shared ? 0 : (stats.memory_stats as { max_usage?: number } | undefined)?.max_usage || 0;
+    this.memoryPeak = Math.max(this.memoryPeak, memoryUsage, memoryMax);
+
+    const cpuPercent = this.cpuPercent(stats);
+    if (cpuPercent !== undefined) {
+      this.cpuTotal += cpuPercent;
+      this.cpuReadings++;
+    }
+
+    const blkio = this.blkio(stats);
+    const blockReadBytes = this.sumBlkio(blkio?.io_service_bytes_recursive, 'read');
+    const blockWriteBytes = this.sumBlkio(blkio?.io_service_bytes_recursive, 'write');
+    // Counters are cumulative for the container's lifetime
+    this.ioOperations = Math.max(this.ioOperations, this.ioCount(stats) - this.baseline.ioOperations);
+
+    const network = this.networkTotals(stats);
+    const networkRxPackets = network.rx;
+    const networkTxPackets = network.tx;
+    this.networkPackets = Math.max(this.networkPackets, networkTxPackets - this.baseline.networkPackets);
+
+    this.samples.push({
+      timestamp: Date.now() - this.startedAt,
+      cpuPercent: cpuPercent || 0,
+      memoryUsage,
+      blockReadBytes,
+      blockWriteBytes,
+      networkRxPackets,
+      networkTxPackets
+    });
+
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples = this.samples.filter((_, index) => index % 2 === 0);
+    }
+  }
+
+  private cpuPercent(stats: Docker.ContainerStats): number | undefined {
+    const cpu = stats.cpu_stats;
+    const previous = stats.precpu_stats;
+    if (!cpu?.cpu_usage || !previous?.cpu_usage || !previous.system_cpu_usage) {
+      return undefined; // the first frame has no previous reading to diff against
+    }
+
+    const cpuDelta = cpu.cpu_usage.total_usage - previous.cpu_usage.total_usage;
+    const systemDelta = cpu.system_cpu_usage - previous.system_cpu_usage;
+    if (cpuDelta < 0 || systemDelta <= 0) {
+      return undefined;
+    }
+
+    const onlineCpus = cpu.online_cpus || cpu.cpu_usage.percpu_usage?.length || 1;
+    return (cpuDelta / systemDelta) * onlineCpus * 100;
+  }
+
+  private blkio(stats: Docker.ContainerStats) {
+    return stats.blkio_stats as {
+      io_service_bytes_recursive?: Array<{ op: string; value: number }> | null;
+      io_serviced_recursive?: Array<{ op: string; value: number }> | null;
+    } | undefined;
+  }
+
+  // Operations where the host counts them (cgroup v1), else bytes (cgroup v2)
+  private ioCount(stats: Docker.ContainerStats): number {
+    const blkio = this.blkio(stats);
+    const entries = blkio?.io_serviced_recursive?.length ? blkio.io_serviced_recursive : blkio?.io_service_bytes_recursive;
+    return this.sumBlkio(entries, 'read') + this.sumBlkio(entries, 'write');
+  }
+
+  private networkTotals(stats: Docker.ContainerStats): { rx: number; tx: number } {
+    let rx = 0;
+    let tx = 0;
+    for (const network of Object.values(stats.networks || {})) {
+      rx += network.rx_packets || 0;
+      tx += network.tx_packets || 0;
+    }
+    return { rx, tx };
+  }
+
+  private sumBlkio(entries: Array<{ op: string; value: number }> | null | undefined, op: string): number {
+    return (entries || [])
+      .filter(entry => entry.op.toLowerCase() === op)
+      .reduce((total, entry) => total + entry.value, 0);
+  }
+}
@@ -0,0 +1,106 @@
+import { ExecutionRequest, ExecutionResult } from './executionEngine';
+import { ResultCache, ResultCacheOptions } from './resultCache';
+
+describe('ResultCache', () => {
+  let version: string;
+  let runs: number;
+
+  const request = (overrides: Partial<ExecutionRequest> = {}): ExecutionRequest =>
+    ({ id: `run-${runs}`, language: 'python', code: 'print(1)', cache: true, ...overrides });
+
+  const run = (overrides: Partial<ExecutionResult> = {}) => async (): Promise<ExecutionResult> => {
+    runs++;
+    return { id: `run-${runs}`, success: true, output: '1', errors: [], exitCode: 0, executionTime: 5, memoryUsage: 0, ...overrides };
+  };
+
+  const createCache = (options: Partial<ResultCacheOptions> = {}) => new ResultCache(async () => version, options);
+
+  beforeEach(() => {
+    version = 'image-1';
+    runs = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves a repeated request from the cache under its own id and replays its output', async () => {
+    const cache = createCache();
+    const output: string[] = [];
+
+    const first = await cache.execute(request({ id: 'first' }), run());
+    const second = await cache.execute(request({ id: 'second' }), run(), chunk => output.push(chunk.data));
+
+    expect(runs).toBe(1);
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ id: 'second', cached: true, output: '1' });
+    expect(output).toEqual(['1']);
+    expect(cache.getStatus()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('runs requests that differ in any input', async () => {
+    const cache = createCache();
+
+    await cache.execute(request(), run());
+    await cache.execute(request({ stdin: 'x' }), run());
+    await cache.execute(request({ files: { 'lib.py': '' } }), run());
+    await cache.execute(request({ policy: 'strict' }), run());
+
+    expect(runs).toBe(4);
+  });
+
+  it('keys ignore dependency order and undefined fields', () => {
+    const cache = createCache();
+
+    expect(cache.keyFor(request({ dependencies: ['a', 'b'], timeout: undefined }), 'v'))
+      .toBe(cache.keyFor(request({ dependencies: ['b', 'a'] }), 'v'));
+  });
+
+  it('stores only successful runs without download artifacts', async () => {
+    const cache = createCache();
+
+    await cache.execute(request(), run({ success: false }));
+    await cache.execute(request(), run({ success: false }));
+    await cache.execute(request({ artifactDelivery: 'download' }), run({ artifacts: [{ path: 'a.png', size: 1, mimeType: 'image/png', url: '/artifacts/x/a.png' }] }));
+    await cache.execute(request({ artifactDelivery: 'download' }), run());
+
+    expect(runs).toBe(4);
+  });
+
+  it('only caches when asked, or by default when enabled', async () => {
+    const optIn = createCache();
+    await optIn.execute(request({ cache: undefined }), run());
+    await optIn.execute(request({ cache: undefined }), run());
+    expect(runs).toBe(2);
+
+    const byDefault = createCache({ enabledByDefault: true });
+    await byDefault.execute(request({ cache: undefined }), run());
+    await byDefault.execute(request({ cache: undefined }), run());
+    await byDefault.execute(request({ cache: false }), run());
+    expect(runs).toBe(4);
+  });
+
+  it('drops a language\'s entries when its runtime changes', async () => {
+    const cache = createCache();
+    await cache.execute(request(), run());
+
+    version = 'image-2';
+    await cache.execute(request(), run());
+
+    expect(runs).toBe(2);
+  });
+
+  it('evicts the least recently used entry past maxEntries', async () => {
+    const cache = createCache({ maxEntries: 2 });
+    await cache.execute(request({ code: 'a' }), run());
+    await cache.execute(request({ code: 'b' }), run());
+    await cache.execute(request({ code: 'a' }), run()); // hit: a is now the most recent
+    await cache.execute(request({ code: 'c' }), run()); // evicts b
+
+    await cache.execute(request({ code: 'a' }), run());
+    await cache.execute(request({ code: 'b' }), run());
+
+    expect(runs).toBe(4);
+  });
+});
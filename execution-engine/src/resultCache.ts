@@ -0,0 +1,215 @@
+/**
+ * 🗃️ Result Cache
+ *
+ * Assistants often re-run the exact same snippet. With caching on, a
+ * request whose inputs hash to a stored key gets the stored ExecutionResult
+ * back with `cached: true` instead of costing a container or a process.
+ *
+ * The key covers everything that can change what a run produces: language,
+ * code and files, entrypoint, stdin and arguments, tests, dependencies, environment
+ * variables, limits, sandbox policy and allowed hosts, artifact patterns
+ * and the runtime version. The engine supplies the runtime version (the
+ * image ID for containers); when it changes, every entry for that language
+ * is dropped.
+ *
+ * Caching is opt-in per request (`cache: true`), or on for every request
+ * that doesn't say `cache: false` when the cache is enabled by default.
+ * Only successful runs are stored, and never ones with download artifacts,
+ * which expire before the entry would. Entries live for the TTL and the
+ * least recently used are evicted to stay within the entry and byte bounds.
+ */
+
+import * as crypto from 'crypto';
+import { ExecutionRequest, ExecutionResult, OutputListener } from './executionEngine';
+
+export interface ResultCacheOptions {
+  enabledByDefault: boolean; // cache requests that don't set `cache`
+  ttl: number; // ms an entry is served
+  maxEntries: number;
+  maxBytes: number; // serialized size of all stored results
+}
+
+export const DEFAULT_RESULT_CACHE_OPTIONS: ResultCacheOptions = {
+  enabledByDefault: false,
+  ttl: 10 * 60 * 1000,
+  maxEntries: 500,
+  maxBytes: 50 * 1024 * 1024
+};
+
+// Identifies the runtime a language runs on, e.g. an image ID
+export type RuntimeVersionResolver = (language: string) => Promise<string>;
+
+interface CacheEntry {
+  language: string;
+  result: ExecutionResult;
+  bytes: number;
+  storedAt: number;
+}
+
+export class ResultCache {
+  private resolveVersion: RuntimeVersionResolver;
+  private options: ResultCacheOptions;
+  // Insertion order doubles as recency: hits are moved to the end
+  private entries: Map<string, CacheEntry> = new Map();
+  private versions: Map<string, string> = new Map();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(resolveVersion: RuntimeVersionResolver, options: Partial<ResultCacheOptions> = {}) {
+    this.resolveVersion = resolveVersion;
+    this.options = { ...DEFAULT_RESULT_CACHE_OPTIONS, ...options };
+  }
+
+  /**
+   * Serve the request from the cache, or `run` it and store the result.
+   * A hit replays the stored output to `onOutput`.
+   */
+  async execute<T extends ExecutionResult>(
+    request: ExecutionRequest,
+    run: () => Promise<T>,
+    onOutput?: OutputListener
+  ): Promise<T> {
+    if (!(request.cache ?? this.options.enabledByDefault)) {
+      return run();
+    }
+
+    const version = await this.resolveVersion(request.language);
+    this.checkVersion(request.language, version);
+    const key = this.keyFor(request, version);
+
+    const entry = this.lookup(key);
+    if (entry) {
+      this.hits++;
+      console.log(`🗃️  Cache hit for ${request.language} (${key.substring(0, 12)})`);
+      if (entry.result.output) onOutput?.({ stream: 'stdout', data: entry.result.output });
+      if (entry.result.errors.length > 0) onOutput?.({ stream: 'stderr', data: entry.result.errors.join('\n') });
+      // The stored result is another run's; this one goes by the request's id
+      return { ...(entry.result as T), id: request.id, cached: true };
+    }
+
+    this.misses++;
+    const result = await run();
+    if (this.isCacheable(request, result)) {
+      this.store(key, request.language, result);
+    }
+    return { ...result, cached: false };
+  }
+
+  /**
+   * Drop every entry, or those of one language.
+   */
+  invalidate(language?: string): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!language || entry.language === language) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  getStatus(): { entries: number; bytes: number; hits: number; misses: number } & ResultCacheOptions {
+    return { entries: this.entries.size, bytes: this.bytes, hits: this.hits, misses: this.misses, ...this.options };
+  }
+
+  /**
+   * Hash of everything that can change the result of a run.
+   */
+  keyFor(request: ExecutionRequest, runtimeVersion: string): string {
+    const inputs = {
+      language: request.language,
+      runtimeVersion,
+      code: request.code,
+      files: request.files || {},
+      entrypoint: request.entrypoint,
+      workingDirectory: request.workingDirectory,
+      stdin: request.stdin,
+      args: request.args || [],
+      tests: request.tests || [],
+      dependencies: [...(request.dependencies || [])].sort(),
+      environment: request.projectContext?.environmentVariables || {},
+      timeout: request.timeout,
+      memoryLimit: request.memoryLimit,
+      policy: request.policy,
+      allowedHosts: request.allowedHosts || [],
+      outputLimits: request.outputLimits || {},
+      artifacts: request.artifacts || []
+    };
+    return crypto.createHash('sha256').update(stableStringify(inputs)).digest('hex');
+  }
+
+  private lookup(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.storedAt > this.options.ttl) {
+      this.remove(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private isCacheable(request: ExecutionRequest, result: ExecutionResult): boolean {
+    return result.success && !(request.artifactDelivery === 'download' && (result.artifacts || []).length > 0);
+  }
+
+  private store(key: string, language: string, result: ExecutionResult): void {
+    const bytes = Buffer.byteLength(JSON.stringify(result));
+    if (bytes > this.options.maxBytes) {
+      return;
+    }
+
+    this.remove(key);
+    this.entries.set(key, { language, result, bytes, storedAt: Date.now() });
+    this.bytes += bytes;
+
+    // Evict least recently used until within bounds
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+      this.remove(oldest);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * A new runtime version means stored results may no longer hold.
+   */
+  private checkVersion(language: string, version: string): void {
+    const previous = this.versions.get(language);
+    this.versions.set(language, version);
+    if (previous !== undefined && previous !== version) {
+      const removed = this.invalidate(language);
+      console.log(`🗃️  ${language} runtime changed, dropped ${removed} cached result(s)`);
+    }
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal inputs hash the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
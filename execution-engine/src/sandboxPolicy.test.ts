@@ -0,0 +1,127 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { effectiveLimits, parseMemorySize, PolicyViolationError, SandboxPolicyRegistry } from './sandboxPolicy';
+
+const policy = (overrides: Record<string, unknown> = {}) => ({
+  memory: '128m',
+  cpus: 1,
+  pidsLimit: 64,
+  readOnlyRootfs: true,
+  tmpfs: { '/tmp': '32m' },
+  capDrop: ['ALL'],
+  noNewPrivileges: true,
+  network: 'none',
+  timeout: 10000,
+  ...overrides
+});
+
+describe('SandboxPolicyRegistry', () => {
+  let dir: string;
+
+  const registry = async (config: Record<string, unknown>) => {
+    const file = path.join(dir, 'policies.json');
+    await fs.writeJson(file, config);
+    return new SandboxPolicyRegistry(file);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'policies-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+    jest.restoreAllMocks();
+  });
+
+  describe('authorize', () => {
+    const config = {
+      defaultPolicy: 'standard',
+      policies: { strict: policy(), standard: policy(), permissive: policy({ memory: '1g' }) },
+      callers: {
+        '*': { policies: ['strict', 'standard'] },
+        ci: { policies: ['strict', 'standard', 'permissive'], defaultPolicy: 'strict' }
+      }
+    };
+
+    it('gives callers the default policy, or their own default', async () => {
+      const policies = await registry(config);
+
+      expect(policies.authorize(undefined).name).toBe('standard');
+      expect(policies.authorize(undefined, 'ci').name).toBe('strict');
+    });
+
+    it('lets callers choose only from their policies', async () => {
+      const policies = await registry(config);
+
+      expect(policies.authorize('permissive', 'ci').name).toBe('permissive');
+      expect(() => policies.authorize('permissive')).toThrow(PolicyViolationError);
+      expect(() => policies.authorize('permissive', 'someone')).toThrow('not allowed for someone');
+      expect(() => policies.authorize('unknown', 'ci')).toThrow('Unknown sandbox policy: unknown');
+    });
+  });
+
+  describe('checkEgress', () => {
+    it('allows only the hosts the egress policy covers', async () => {
+      const policies = await registry({
+        defaultPolicy: 'none',
+        policies: { none: policy(), egress: policy({ network: 'egress', egressHosts: ['pypi.org', '*.pythonhosted.org'] }) }
+      });
+
+      expect(() => policies.checkEgress(policies.get('egress'), ['pypi.org', 'files.pythonhosted.org:443'])).not.toThrow();
+      expect(() => policies.checkEgress(policies.get('egress'), ['example.com'])).toThrow('does not allow egress to example.com');
+      expect(() => policies.checkEgress(policies.get('none'), ['pypi.org'])).toThrow('does not allow network egress');
+      expect(() => policies.checkEgress(policies.get('none'), [])).not.toThrow();
+    });
+  });
+
+  it.each([
+    [{ strict: policy({ memory: 'lots' }) }, 'invalid memory limit'],
+    [{ strict: policy({ timeout: 0 }) }, 'positive "timeout"'],
+    [{ strict: policy({ network: 'host' }) }, 'unsupported network mode'],
+    [{ strict: policy({ network: 'egress' }) }, 'egress without "egressHosts"'],
+    [{ strict: policy({ backends: [] }) }, 'empty or invalid "backends"'],
+    [{ other: policy() }, 'Default sandbox policy strict is not defined']
+  ])('rejects an invalid config (%#)', async (policies, message) => {
+    const invalid = await registry({ defaultPolicy: 'strict', policies });
+
+    expect(() => invalid.get()).toThrow(message);
+  });
+
+  it('loads the shipped config', () => {
+    const shipped = new SandboxPolicyRegistry();
+
+    expect(shipped.get().name).toBe('standard');
+    expect(shipped.list().map(entry => entry.name)).toEqual(['strict', 'standard', 'egress', 'permissive']);
+    expect(shipped.getSeccompProfile(shipped.get('strict'))).toContain('defaultAction');
+  });
+
+  it('rejects callers that refer to undefined policies', async () => {
+    const invalid = await registry({ defaultPolicy: 'strict', policies: { strict: policy() }, callers: { ci: { policies: ['gpu'] } } });
+
+    expect(() => invalid.list()).toThrow('Caller ci refers to undefined sandbox policies: gpu');
+  });
+});
+
+describe('effectiveLimits', () => {
+  const standard = { ...policy(), name: 'standard' } as Parameters<typeof effectiveLimits>[0];
+
+  it('lets a request lower the policy limits but never raise them', () => {
+    expect(effectiveLimits(standard, {})).toEqual({ memory: 128 * 1024 * 1024, timeout: 10000 });
+    expect(effectiveLimits(standard, { memoryLimit: '64m', timeout: 500 })).toEqual({ memory: 64 * 1024 * 1024, timeout: 500 });
+    expect(effectiveLimits(standard, { memoryLimit: '2g', timeout: 60000 })).toEqual({ memory: 128 * 1024 * 1024, timeout: 10000 });
+  });
+});
+
+describe('parseMemorySize', () => {
+  it.each([
+    ['512', 512],
+    ['64k', 64 * 1024],
+    ['128M', 128 * 1024 * 1024],
+    ['1g', 1024 * 1024 * 1024],
+    ['lots', 128 * 1024 * 1024]
+  ])('%s is %d bytes', (size, bytes) => {
+    expect(parseMemorySize(size)).toBe(bytes);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * 🛡️ Sandbox Policies
+ *
+ * Every resource and isolation setting of an execution comes from a named
+ * policy, declared in one config file (CODECONTEXT_POLICIES_CONFIG, default
+ * config/sandbox-policies.json) so the rules can be audited in one place:
+ *
+ *   memory          container memory limit, e.g. '128m'
+ *   cpus            CPU quota in cores
+ *   pidsLimit       processes and threads the container may have
+ *   readOnlyRootfs  mount the image read-only (the workspace stays writable)
+ *   tmpfs           mount point -> size of in-memory scratch space
+ *   seccompProfile  file next to the config; omitted means Docker's default
+ *   capDrop/capAdd  Linux capabilities, applied in that order
+ *   noNewPrivileges block setuid binaries from gaining privileges
+ *   network         'none', 'bridge', or 'egress': only the hosts a request
+ *                   allows, through the egress proxy (see egressProxy.ts)
+ *   egressHosts     host patterns requests may allow under 'egress'
+ *   timeout         ms of wall-clock time
+ *   backends        execution backends that can honour the policy; omitted
+ *                   means any (see executionBackend.ts)
+ *
+ * A request names a policy; the caller (X-CodeContext-Caller) may only
+ * choose from the policies listed for it, or for `*` when it isn't listed.
+ * The engine gets its own front door's word for who the caller is, so the
+ * header must be set by whatever authenticates requests before they get
+ * here. A request's own memoryLimit and timeout can only lower the policy's.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { matchesHostPattern } from './egressProxy';
+
+export type SandboxNetworkMode = 'none' | 'bridge' | 'egress';
+
+export interface SandboxPolicy {
+  name: string;
+  description?: string;
+  memory: string;
+  cpus: number;
+  pidsLimit: number;
+  readOnlyRootfs: boolean;
+  tmpfs: Record<string, string>;
+  seccompProfile?: string;
+  capDrop: string[];
+  capAdd?: string[];
+  noNewPrivileges: boolean;
+  network: SandboxNetworkMode;
+  egressHosts?: string[];
+  timeout: number;
+  backends?: string[];
+}
+
+export interface CallerPolicies {
+  policies: string[]; // policies the caller may choose
+  defaultPolicy?: string; // when the request doesn't choose; else the global default
+}
+
+interface SandboxPolicyConfig {
+  defaultPolicy: string;
+  policies: Record<string, Omit<SandboxPolicy, 'name'>>;
+  callers?: Record<string, CallerPolicies>;
+}
+
+// Default location of the config file, relative to the package root
+export const DEFAULT_POLICIES_CONFIG = 'config/sandbox-policies.json';
+
+// Callers without an entry of their own
+const ANY_CALLER = '*';
+
+const NETWORK_MODES: SandboxNetworkMode[] = ['none', 'bridge', 'egress'];
+
+export class PolicyViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export class SandboxPolicyRegistry {
+  private configFile?: string;
+  private config?: SandboxPolicyConfig;
+  private policies: Map<string, SandboxPolicy> = new Map();
+  private seccompProfiles: Map<string, string> = new Map();
+
+  constructor(configFile?: string) {
+    this.configFile = configFile;
+  }
+
+  /**
+   * A policy by name; the default policy when no name is given.
+   */
+  get(name?: string): SandboxPolicy {
+    const config = this.load();
+    const policy = this.policies.get(name || config.defaultPolicy);
+    if (!policy) {
+      throw new PolicyViolationError(`Unknown sandbox policy: ${name}`);
+    }
+    return policy;
+  }
+
+  list(): SandboxPolicy[] {
+    this.load();
+    return Array.from(this.policies.values());
+  }
+
+  /**
+   * The policy a caller gets for a request: the one it asked for, if it may
+   * use it, or its default. Throws PolicyViolationError otherwise.
+   */
+  authorize(requested: string | undefined, caller?: string): SandboxPolicy {
+    const config = this.load();
+    const callers = config.callers || {};
+    const allowed: CallerPolicies = (caller && callers[caller]) || callers[ANY_CALLER] ||
+      { policies: Array.from(this.policies.keys()) };
+    const name = requested || allowed.defaultPolicy || config.defaultPolicy;
+
+    if (!this.policies.has(name)) {
+      throw new PolicyViolationError(`Unknown sandbox policy: ${name}`);
+    }
+    if (!allowed.policies.includes(name)) {
+      throw new PolicyViolationError(
+        `Sandbox policy ${name} is not allowed for ${caller || 'this caller'} (allowed: ${allowed.policies.join(', ')})`
+      );
+    }
+    return this.policies.get(name)!;
+  }
+
+  /**
+   * Check the hosts a request wants to reach against its policy. Throws
+   * PolicyViolationError when the policy has no egress or doesn't cover one.
+   */
+  checkEgress(policy: SandboxPolicy, allowedHosts: string[] = []): void {
+    if (allowedHosts.length === 0) {
+      return;
+    }
+    if (policy.network !== 'egress') {
+      throw new PolicyViolationError(`Sandbox policy ${policy.name} does not allow network egress`);
+    }
+
+    const denied = allowedHosts.filter(entry => {
+      const host = String(entry).replace(/:\d+$/, '').toLowerCase();
+      return !(policy.egressHosts || []).some(pattern => matchesHostPattern(pattern, host));
+    });
+    if (denied.length > 0) {
+      throw new PolicyViolationError(`Sandbox policy ${policy.name} does not allow egress to ${denied.join(', ')}`);
+    }
+  }
+
+  /**
+   * Contents of a policy's seccomp profile, as Docker's SecurityOpt wants it.
+   */
+  getSeccompProfile(policy: SandboxPolicy): string | undefined {
+    if (!policy.seccompProfile) {
+      return undefined;
+    }
+
+    let profile = this.seccompProfiles.get(policy.seccompProfile);
+    if (!profile) {
+      const file = path.resolve(path.dirname(this.configPath()), policy.seccompProfile);
+      profile = JSON.stringify(fs.readJsonSync(file));
+      this.seccompProfiles.set(policy.seccompProfile, profile);
+    }
+    return profile;
+  }
+
+  private configPath(): string {
+    return this.configFile || process.env.CODECONTEXT_POLICIES_CONFIG ||
+      path.join(__dirname, '..', DEFAULT_POLICIES_CONFIG);
+  }
+
+  private load(): SandboxPolicyConfig {
+    if (this.config) return this.config;
+
+    const file = this.configPath();
+    let config: SandboxPolicyConfig;
+    try {
+      config = fs.readJsonSync(file);
+    } catch (error) {
+      throw new Error(`Invalid sandbox policies config ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const [name, policy] of Object.entries(config.policies || {})) {
+      this.validate({ ...policy, name });
+      this.policies.set(name, { ...policy, name });
+    }
+    if (!this.policies.has(config.defaultPolicy)) {
+      throw new Error(`Default sandbox policy ${config.defaultPolicy} is not defined in ${file}`);
+    }
+    for (const [caller, allowed] of Object.entries(config.callers || {})) {
+      const unknown = [...allowed.policies, allowed.defaultPolicy || config.defaultPolicy]
+        .filter(name => !this.policies.has(name));
+      if (unknown.length > 0) {
+        throw new Error(`Caller ${caller} refers to undefined sandbox policies: ${unknown.join(', ')}`);
+      }
+    }
+
+    this.config = config;
+    console.log(`🛡️  Loaded ${this.policies.size} sandbox policies from ${file}`);
+    return config;
+  }
+
+  private validate(policy: SandboxPolicy): void {
+    if (typeof policy.memory !== 'string' || !/^\d+[kmg]?$/i.test(policy.memory)) {
+      throw new Error(`Sandbox policy ${policy.name} has an invalid memory limit`);
+    }
+    for (const field of ['cpus', 'pidsLimit', 'timeout'] as const) {
+      if (typeof policy[field] !== 'number' || policy[field] <= 0) {
+        throw new Error(`Sandbox policy ${policy.name} is missing a positive "${field}"`);
+      }
+    }
+    if (!NETWORK_MODES.includes(policy.network)) {
+      throw new Error(`Sandbox policy ${policy.name} has an unsupported network mode: ${policy.network}`);
+    }
+    if (policy.network === 'egress' && !Array.isArray(policy.egressHosts)) {
+      throw new Error(`Sandbox policy ${policy.name} uses egress without "egressHosts"`);
+    }
+    if (!Array.isArray(policy.capDrop) || typeof policy.tmpfs !== 'object') {
+      throw new Error(`Sandbox policy ${policy.name} needs "capDrop" and "tmpfs"`);
+    }
+    if (policy.backends !== undefined && (!Array.isArray(policy.backends) || policy.backends.length === 0)) {
+      throw new Error(`Sandbox policy ${policy.name} has an empty or invalid "backends" list`);
+    }
+  }
+}
+
+export const sandboxPolicies = new SandboxPolicyRegistry();
+
+/**
+ * The memory (bytes) and timeout (ms) a run gets: the request's own, where
+ * it asks for less than the policy allows.
+ */
+export function effectiveLimits(
+  policy: SandboxPolicy,
+  request: { memoryLimit?: string; timeout?: number }
+): { memory: number; timeout: number } {
+  const memory = parseMemorySize(policy.memory);
+  return {
+    memory: request.memoryLimit ? Math.min(parseMemorySize(request.memoryLimit), memory) : memory,
+    timeout: request.timeout && request.timeout > 0 ? Math.min(request.timeout, policy.timeout) : policy.timeout
+  };
+}
+
+/**
+ * Bytes in a size such as '128m'; unparseable sizes count as 128MB.
+ */
+export function parseMemorySize(limit: string): number {
+  const match = limit.match(/^(\d+)([kmg]?)$/i);
+  if (!match) return 128 * 1024 * 1024;
+
+  const value = parseInt(match[1]);
+  switch (match[2].toLowerCase()) {
+    case 'k': return value * 1024;
+    case 'm': return value * 1024 * 1024;
+    case 'g': return value * 1024 * 1024 * 1024;
+    default: return value;
+  }
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { SecurityTracer } from './securityTracer';
+import { TEST_DIR } from './testRunner';
+
+// strace -f output of the script: the toolchain, the run phase marker, then the program
+const trace = (toolchain: string[], program: string[]) => [
+  '100 execve("/bin/sh", ["sh", "-c", "echo install > /workspace/.codecontext/phase && ..."], 0x7ffd /* 8 vars */) = 0',
+  '100 openat(AT_FDCWD, "/workspace/.codecontext/phase", O_WRONLY|O_CREAT|O_TRUNC, 0666) = 3',
+  ...toolchain,
+  '100 openat(AT_FDCWD, "/workspace/.codecontext/phase", O_WRONLY|O_CREAT|O_TRUNC, 0666) = 3',
+  '100 clone(child_stack=NULL, flags=CLONE_CHILD_CLEARTID|CLONE_CHILD_SETTID|SIGCHLD, child_tidptr=0x7f12) = 101',
+  ...program,
+  '101 openat(AT_FDCWD, "/etc/shadow", O_RDONLY|O_CLOEXEC) = -1 EACCES (Permission denied)',
+  '101 clone(child_stack=NULL, flags=CLONE_CHILD_CLEARTID|CLONE_CHILD_SETTID|SIGCHLD, child_tidptr=0x7f12) = 102',
+  '102 execve("/bin/sh", ["sh", "-c", "id"], 0x5581 /* 9 vars */) = 0',
+  ''
+].join('\n');
+
+// Reads the toolchain does, which must not be judged as the program's
+const PIP_INSTALL = [
+  '100 clone(child_stack=NULL, flags=SIGCHLD, child_tidptr=0x7f12) = 110',
+  '110 execve("/usr/local/bin/pip", ["pip", "install", "-r", "requirements.txt"], 0x5581 /* 9 vars */) = 0',
+  '110 openat(AT_FDCWD, "/root/.cache/pip/selfcheck.json", O_RDONLY) = 3'
+];
+
+describe('SecurityTracer', () => {
+  let envDir: string;
+  const tracer = new SecurityTracer();
+
+  const analyze = async (log: string, entrypoint: string, workingDirectory?: string) => {
+    await fs.outputFile(path.join(envDir, TEST_DIR, 'trace.log'), log);
+    return tracer.analyze(envDir, entrypoint, workingDirectory);
+  };
+
+  beforeEach(async () => {
+    envDir = await fs.mkdtemp(path.join(os.tmpdir(), 'security-tracer-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(envDir);
+  });
+
+  it('judges a root entrypoint and what it spawned, not the toolchain', async () => {
+    const report = await analyze(trace(PIP_INSTALL, [
+      '101 execve("/usr/local/bin/python", ["python", "main.py"], 0x5581 /* 9 vars */) = 0',
+      '101 openat(AT_FDCWD, "/usr/local/lib/python3.11/os.py", O_RDONLY|O_CLOEXEC) = 3',
+      '101 openat(AT_FDCWD, "out.txt", O_WRONLY|O_CREAT|O_TRUNC|O_CLOEXEC, 0666) = 4'
+    ]), 'main.py');
+
+    expect(report).toMatchObject({
+      traced: true,
+      riskLevel: 'high',
+      fileSystemAccess: ['/workspace/out.txt (write)'],
+      processSpawned: ['sh -c id']
+    });
+    expect(report.suspiciousOperations).toEqual([
+      '[high] Access to sensitive file: /etc/shadow',
+      '[medium] Shell spawned: sh -c id'
+    ]);
+  });
+
+  it('finds an entrypoint in a subdirectory by its file name', async () => {
+    const report = await analyze(trace([], [
+      '101 execve("/usr/local/bin/python", ["python", "src/app.py"], 0x5581 /* 9 vars */) = 0'
+    ]), 'src/app.py');
+
+    expect(report.riskLevel).toBe('high');
+    expect(report.processSpawned).toEqual(['sh -c id']);
+  });
+
+  it('resolves relative paths against the working directory', async () => {
+    const report = await analyze(trace([], [
+      '101 execve("/usr/local/bin/python", ["python", "app.py"], 0x5581 /* 9 vars */) = 0',
+      '101 openat(AT_FDCWD, "data/out.txt", O_WRONLY|O_CREAT|O_TRUNC|O_CLOEXEC, 0666) = 4',
+      '101 openat(AT_FDCWD, "../../../etc/cron.d/job", O_WRONLY|O_CREAT, 0666) = -1 EACCES (Permission denied)'
+    ]), 'app.py', 'services/api');
+
+    expect(report.fileSystemAccess).toEqual(['/workspace/services/api/data/out.txt (write)']);
+    expect(report.suspiciousOperations).toContain('[high] Write outside the workspace: /etc/cron.d/job');
+  });
+
+  it('finds a Java program by its entry class, not the compiler reading the source', async () => {
+    const report = await analyze(trace([
+      '100 clone(child_stack=NULL, flags=SIGCHLD, child_tidptr=0x7f12) = 110',
+      '110 execve("/opt/java/openjdk/bin/javac", ["javac", "-d", "/workspace/.codecontext/build", "./com/app/Main.java"], 0x5581 /* 9 vars */) = 0',
+      '110 openat(AT_FDCWD, "/root/.java/userPrefs", O_RDONLY) = 3'
+    ], [
+      '101 execve("/opt/java/openjdk/bin/java", ["java", "-cp", "/workspace/.codecontext/build", "com.app.Main"], 0x5581 /* 9 vars */) = 0'
+    ]), 'com/app/Main.java');
+
+    expect(report.suspiciousOperations).toHaveLength(2);
+    expect(report.processSpawned).toEqual(['sh -c id']);
+    expect(report.fileSystemAccess).not.toContain('/root/.java/userPrefs');
+  });
+
+  it('finds a compiled binary built from the entrypoint', async () => {
+    const report = await analyze(trace([], [
+      '101 execve("/workspace/.codecontext/build/main", ["/workspace/.codecontext/build/main"], 0x5581 /* 9 vars */) = 0'
+    ]), 'cmd/server.go');
+
+    expect(report.processSpawned).toEqual(['sh -c id']);
+  });
+
+  it('judges everything after the run marker when the program cannot be told apart', async () => {
+    const report = await analyze(trace(PIP_INSTALL, [
+      '101 execve("/usr/local/bin/python", ["python", "-m", "app"], 0x5581 /* 9 vars */) = 0'
+    ]), 'main.py');
+
+    expect(report.riskLevel).toBe('high');
+    expect(report.processSpawned).toEqual(['python -m app', 'sh -c id']);
+    expect(report.fileSystemAccess).not.toContain('/root/.cache/pip/selfcheck.json');
+  });
+
+  it('reports an untraced run when there is no trace', async () => {
+    expect(await tracer.analyze(envDir, 'main.py')).toMatchObject({ traced: false, riskLevel: 'low' });
+  });
+
+  it('joins calls that strace split across lines', () => {
+    const events = tracer.parseTrace([
+      '7 connect(3, {sa_family=AF_INET, sin_port=htons(443), <unfinished ...>',
+      '8 openat(AT_FDCWD, "/tmp/x", O_RDONLY) = 3',
+      '7 <... connect resumed> sin_addr=inet_addr("93.184.216.34")}, 16) = -1 ECONNREFUSED (Connection refused)'
+    ].join('\n'));
+
+    expect(events).toEqual([
+      { pid: 8, syscall: 'openat', path: '/tmp/x', write: false, failed: false },
+      { pid: 7, syscall: 'connect', address: '93.184.216.34:443', failed: true }
+    ]);
+  });
+});
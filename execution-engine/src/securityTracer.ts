@@ -0,0 +1,352 @@
+/**
+ * 🔍 Security Tracer
+ *
+ * Runs the program under strace inside its container and turns the recorded
+ * file opens, connect attempts and execve calls into a SecurityReport.
+ *
+ * The stock language images don't ship strace, so a static binary can be
+ * mounted from the host (CODECONTEXT_STRACE_PATH). Without one the program
+ * runs untraced and the report says so via `traced: false`.
+ *
+ * Only the program's own process tree is judged by the rules; the toolchain
+ * (npm, pip, go build, cargo...) opens and spawns far too much to be useful.
+ * When the program's exec can't be told apart, everything after the run
+ * phase marker is judged instead.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SecurityReport } from './executionEngine';
+import { PHASE_FILE } from './diagnostics';
+import { TEST_DIR } from './testRunner';
+import { CONTAINER_WORKSPACE } from './workspace';
+
+const TRACE_FILE = 'trace.log';
+const TRACE_PATH = path.posix.join(CONTAINER_WORKSPACE, TEST_DIR, TRACE_FILE);
+const PHASE_PATH = path.posix.join(CONTAINER_WORKSPACE, TEST_DIR, PHASE_FILE);
+// Compiled languages build to {buildDir}/main, cargo to target/*/main
+const BINARY_NAME = 'main';
+const MOUNTED_STRACE = '/opt/codecontext/bin/strace';
+const TRACED_SYSCALLS = 'open,openat,creat,connect,execve,clone,clone3,fork,vfork';
+const MAX_REPORTED_ENTRIES = 200;
+
+// Runtime and library loading that says nothing about what the program does
+const NOISE_PREFIXES = [
+  '/lib/', '/usr/lib/', '/usr/local/lib/', '/usr/share/', '/usr/local/go/', '/usr/local/cargo/',
+  '/usr/local/rustup/', '/etc/ld-musl', '/etc/ld.so', '/etc/localtime', '/dev/null', '/dev/urandom',
+  '/proc/self/', '/sys/fs/cgroup/', '/sys/devices/system/cpu'
+];
+
+const SHELLS = ['sh', 'ash', 'bash', 'dash', 'zsh', 'ksh'];
+const NETWORK_TOOLS = ['curl', 'wget', 'nc', 'ncat', 'netcat', 'socat', 'ssh', 'scp', 'telnet', 'ftp'];
+const PRIVILEGE_TOOLS = ['sudo', 'su', 'doas', 'chroot', 'mount', 'nsenter', 'setcap'];
+
+type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface TraceEvent {
+  pid: number;
+  syscall: string;
+  path?: string;
+  write?: boolean;
+  argv?: string[];
+  address?: string;
+  childPid?: number;
+  failed: boolean;
+}
+
+interface SecurityRule {
+  severity: Severity;
+  description: string;
+  matches(event: TraceEvent): string | undefined;
+}
+
+const SECURITY_RULES: SecurityRule[] = [
+  {
+    severity: 'critical',
+    description: 'Docker socket access',
+    matches: event => event.path === '/var/run/docker.sock' || event.address === 'unix:/var/run/docker.sock'
+      ? 'docker.sock' : undefined
+  },
+  {
+    severity: 'critical',
+    description: 'Tampering with the execution trace',
+    matches: event => event.path === TRACE_PATH ? event.path : undefined
+  },
+  {
+    severity: 'high',
+    description: 'Access to sensitive file',
+    matches: event => event.path && /^(\/etc\/(shadow|gshadow|sudoers|passwd|ssh\/)|\/root\/|\/home\/[^/]+\/\.ssh\/|\/proc\/\d+\/(environ|mem)|\/proc\/kcore)/.test(event.path)
+      ? event.path : undefined
+  },
+  {
+    severity: 'high',
+    description: 'Write outside the workspace',
+    matches: event => event.write && event.path && !isWritableLocation(event.path) ? event.path : undefined
+  },
+  {
+    severity: 'high',
+    description: 'Network tool executed',
+    matches: event => event.argv && NETWORK_TOOLS.includes(path.basename(event.path || '')) ? event.argv.join(' ') : undefined
+  },
+  {
+    severity: 'high',
+    description: 'Privilege or namespace tool executed',
+    matches: event => event.argv && PRIVILEGE_TOOLS.includes(path.basename(event.path || '')) ? event.argv.join(' ') : undefined
+  },
+  {
+    severity: 'medium',
+    description: 'Shell spawned',
+    matches: event => event.argv && SHELLS.includes(path.basename(event.path || '')) ? event.argv.join(' ') : undefined
+  },
+  {
+    severity: 'medium',
+    description: 'Outbound connection attempt',
+    matches: event => event.syscall === 'connect' && event.address && !event.address.startsWith('unix:')
+      ? event.address : undefined
+  }
+];
+
+function resolvePath(filePath: string, cwd: string): string {
+  return path.posix.isAbsolute(filePath) ? path.posix.normalize(filePath) : path.posix.join(cwd, filePath);
+}
+
+function isWritableLocation(filePath: string): boolean {
+  return filePath === CONTAINER_WORKSPACE || filePath.startsWith(`${CONTAINER_WORKSPACE}/`) ||
+    filePath.startsWith('/tmp/') || filePath.startsWith('/dev/');
+}
+
+export class SecurityTracer {
+  private straceBinary?: string;
+
+  constructor(straceBinary?: string) {
+    this.straceBinary = straceBinary;
+  }
+
+  /**
+   * Extra bind mounts the container needs for tracing.
+   */
+  getBinds(): string[] {
+    return this.straceBinary ? [`${this.straceBinary}:${MOUNTED_STRACE}:ro`] : [];
+  }
+
+  /**
+   * Wrap a command so it runs under strace when one is available. The
+   * command is passed as positional arguments, so nothing needs quoting.
+   */
+  wrap(command: string[]): string[] {
+    const script = [
+      `mkdir -p ${path.posix.dirname(TRACE_PATH)}`,
+      `if [ -x ${MOUNTED_STRACE} ]; then tracer=${MOUNTED_STRACE}; else tracer=$(command -v strace); fi`,
+      `if [ -n "$tracer" ]; then exec "$tracer" -f -qq -s 256 -e trace=${TRACED_SYSCALLS} -o ${TRACE_PATH} -- "$@"; fi`,
+      'exec "$@"'
+    ].join('\n');
+
+    return ['sh', '-c', script, 'sh', ...command];
+  }
+
+  /**
+   * Build the report from the trace the run left in the workspace.
+   * `entrypoint` is the path the program was started with, relative to
+   * `workingDirectory` (itself relative to the workspace root).
+   */
+  async analyze(envDir: string, entrypoint: string, workingDirectory: string = '.'): Promise<SecurityReport> {
+    let trace: string;
+    try {
+      trace = await fs.readFile(path.join(envDir, TEST_DIR, TRACE_FILE), 'utf8');
+    } catch {
+      return {
+        fileSystemAccess: [],
+        networkAccess: [],
+        processSpawned: [],
+        suspiciousOperations: [],
+        riskLevel: 'low',
+        traced: false
+      };
+    }
+
+    const events = this.parseTrace(trace, path.posix.join(CONTAINER_WORKSPACE, workingDirectory));
+    const programEvents = this.selectProgramEvents(events, entrypoint);
+    return this.buildReport(programEvents);
+  }
+
+  /**
+   * Read strace output; relative paths are resolved against `cwd`, the
+   * directory the program was started in.
+   */
+  parseTrace(trace: string, cwd: string = CONTAINER_WORKSPACE): TraceEvent[] {
+    const events: TraceEvent[] = [];
+    const pending = new Map<string, string>();
+
+    for (const rawLine of trace.split('\n')) {
+      const line = rawLine.match(/^(\d+)\s+(.*)$/);
+      if (!line) continue;
+
+      const pid = parseInt(line[1], 10);
+      let call = line[2];
+
+      // With -f, calls interrupted by another process are split over two lines
+      const unfinished = call.match(/^(\w+)\((.*) <unfinished \.\.\.>$/);
+      if (unfinished) {
+        pending.set(`${pid}:${unfinished[1]}`, unfinished[2]);
+        continue;
+      }
+      const resumed = call.match(/^<\.\.\. (\w+) resumed>(.*)$/);
+      if (resumed) {
+        const key = `${pid}:${resumed[1]}`;
+        call = `${resumed[1]}(${pending.get(key) || ''}${resumed[2]}`;
+        pending.delete(key);
+      }
+
+      const event = this.parseCall(pid, call, cwd);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  private parseCall(pid: number, call: string, cwd: string): TraceEvent | undefined {
+    const match = call.match(/^(\w+)\((.*)\)\s+=\s+(-?\d+|\?)(?:\s+(\w+))?/);
+    if (!match) return undefined;
+
+    const [, syscall, args, result] = match;
+    const failed = result.startsWith('-');
+
+    switch (syscall) {
+      case 'open':
+      case 'openat':
+      case 'creat': {
+        const file = args.match(/"((?:[^"\\]|\\.)*)"/);
+        if (!file) return undefined;
+        const write = syscall === 'creat' || /O_(WRONLY|RDWR|CREAT|TRUNC|APPEND)/.test(args);
+        return { pid, syscall, path: resolvePath(file[1], cwd), write, failed };
+      }
+      case 'execve': {
+        const file = args.match(/^"((?:[^"\\]|\\.)*)"/);
+        const argvList = args.match(/\[(.*?)\]/);
+        const argv = argvList ? Array.from(argvList[1].matchAll(/"((?:[^"\\]|\\.)*)"/g), m => m[1]) : [];
+        return { pid, syscall, path: file ? resolvePath(file[1], cwd) : undefined, argv, failed };
+      }
+      case 'connect': {
+        const address = this.parseAddress(args);
+        return address ? { pid, syscall, address, failed } : undefined;
+      }
+      case 'clone':
+      case 'clone3':
+      case 'fork':
+      case 'vfork':
+        return failed || result === '?' ? undefined : { pid, syscall, childPid: parseInt(result, 10), failed };
+      default:
+        return undefined;
+    }
+  }
+
+  private parseAddress(args: string): string | undefined {
+    const unix = args.match(/sun_path=@?"((?:[^"\\]|\\.)*)"/);
+    if (unix) return `unix:${unix[1]}`;
+
+    const port = args.match(/sin6?_port=htons\((\d+)\)/);
+    const ipv4 = args.match(/inet_addr\("([^"]+)"\)/);
+    if (ipv4) return `${ipv4[1]}:${port ? port[1] : '0'}`;
+
+    const ipv6 = args.match(/inet_pton\(AF_INET6, "([^"]+)"/);
+    if (ipv6) return `[${ipv6[1]}]:${port ? port[1] : '0'}`;
+
+    return undefined;
+  }
+
+  /**
+   * Keep only events from the program and whatever it spawned. The program
+   * is the first exec, after the run phase marker, of the entry file, of
+   * its Java class or of a binary built from it. Without one, every call
+   * after the marker is kept.
+   */
+  private selectProgramEvents(events: TraceEvent[], entrypoint: string): TraceEvent[] {
+    const stem = path.posix.basename(entrypoint, path.posix.extname(entrypoint));
+    const entryNames = [path.posix.basename(entrypoint), `${stem}.js`];
+    // As the java run step names it (see languageRuntime.ts)
+    const entryClass = entrypoint.replace(/\.[^./]+$/, '').split('/').join('.');
+    const isEntryArgument = (arg: string) => entryNames.includes(path.posix.basename(arg)) || arg === entryClass;
+    const isBinary = (file: string) =>
+      [stem, BINARY_NAME].includes(path.posix.basename(file)) && file.startsWith(`${CONTAINER_WORKSPACE}/`);
+    const isProgram = (event: TraceEvent) =>
+      event.syscall === 'execve' && !event.failed && (
+        isBinary(event.path || '') ||
+        (event.argv || []).slice(1).some(isEntryArgument)
+      );
+
+    // Forks are logged by the parent, sometimes after the child's first calls
+    const parents = new Map<number, number>();
+    for (const event of events) {
+      if (event.childPid !== undefined) parents.set(event.childPid, event.pid);
+    }
+
+    const programPids = new Set<number>();
+    const inProgram = (pid: number): boolean => {
+      for (let current: number | undefined = pid; current !== undefined; current = parents.get(current)) {
+        if (programPids.has(current)) return true;
+      }
+      return false;
+    };
+
+    // The toolchain (compilers reading the entry file too) is done once the script marks the run phase
+    const calls = events.filter(event => event.childPid === undefined);
+    const marker = calls.map(event => event.path === PHASE_PATH && event.write).lastIndexOf(true);
+    const runCalls = calls.slice(marker + 1);
+
+    const selected: TraceEvent[] = [];
+    for (const event of runCalls) {
+      if (!inProgram(event.pid) && isProgram(event)) {
+        programPids.add(event.pid);
+        continue; // the program's own exec is expected
+      }
+
+      if (inProgram(event.pid)) {
+        selected.push(event);
+      }
+    }
+
+    return programPids.size > 0 ? selected : runCalls;
+  }
+
+  private buildReport(events: TraceEvent[]): SecurityReport {
+    const fileSystemAccess = new Set<string>();
+    const networkAccess = new Set<string>();
+    const processSpawned = new Set<string>();
+    const suspiciousOperations = new Set<string>();
+    let riskLevel: Severity = 'low';
+
+    for (const event of events) {
+      if (event.path && event.syscall !== 'execve' && !event.failed &&
+          !NOISE_PREFIXES.some(prefix => event.path!.startsWith(prefix))) {
+        fileSystemAccess.add(event.write ? `${event.path} (write)` : event.path);
+      }
+      if (event.address) {
+        networkAccess.add(event.failed ? `${event.address} (blocked)` : event.address);
+      }
+      if (event.syscall === 'execve' && event.argv) {
+        processSpawned.add(event.argv.join(' '));
+      }
+
+      for (const rule of SECURITY_RULES) {
+        const detail = rule.matches(event);
+        if (!detail) continue;
+
+        suspiciousOperations.add(`[${rule.severity}] ${rule.description}: ${detail}`);
+        if (SEVERITY_ORDER.indexOf(rule.severity) > SEVERITY_ORDER.indexOf(riskLevel)) {
+          riskLevel = rule.severity;
+        }
+      }
+    }
+
+    return {
+      fileSystemAccess: Array.from(fileSystemAccess).slice(0, MAX_REPORTED_ENTRIES),
+      networkAccess: Array.from(networkAccess).slice(0, MAX_REPORTED_ENTRIES),
+      processSpawned: Array.from(processSpawned).slice(0, MAX_REPORTED_ENTRIES),
+      suspiciousOperations: Array.from(suspiciousOperations),
+      riskLevel,
+      traced: true
+    };
+  }
+}
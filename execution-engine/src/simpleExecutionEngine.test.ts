@@ -0,0 +1,69 @@
+import { readFileSync, unlinkSync } from 'fs';
+import { SimpleExecutionEngine } from './simpleExecutionEngine';
+
+describe('SimpleExecutionEngine', () => {
+  let engine: SimpleExecutionEngine;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    engine = new SimpleExecutionEngine();
+  });
+
+  afterAll(async () => {
+    await engine.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('runs JavaScript in a worker thread', async () => {
+    const result = await engine.executeCode({ id: 'simple-js', language: 'javascript', code: 'console.log(6 * 7)' });
+
+    expect(result.success).toBe(true);
+    expect(result.output.trim()).toBe('42');
+  });
+
+  it('runs other languages as host processes fed with stdin', async () => {
+    const result = await engine.executeCode({ id: 'simple-python', language: 'python', code: 'print(input()[::-1])', stdin: 'olleh' });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('hello');
+  });
+
+  it('stops the whole process group at the timeout', async () => {
+    const marker = `simple-group-${process.pid}`;
+    const result = await engine.executeCode({
+      id: 'simple-bash',
+      language: 'bash',
+      code: `sleep 30 & echo $! > /tmp/${marker}; wait`,
+      timeout: 500
+    });
+
+    expect(result).toMatchObject({ success: false, status: 'timed-out' });
+    const pid = Number(readFileSync(`/tmp/${marker}`, 'utf8'));
+    unlinkSync(`/tmp/${marker}`);
+    // Reaping the stopped child can lag the result slightly
+    let alive = true;
+    for (let attempt = 0; attempt < 250 && alive; attempt++) {
+      try {
+        process.kill(pid, 0);
+        await new Promise(resolve => setTimeout(resolve, 20));
+      } catch {
+        alive = false;
+      }
+    }
+    expect(alive).toBe(false);
+  });
+
+  it('refuses tests instead of skipping them', async () => {
+    const result = await engine.executeCode({
+      id: 'simple-tests',
+      language: 'javascript',
+      code: 'function add(a, b) { return a + b; }',
+      tests: ['assert.strictEqual(add(1, 2), 3)']
+    });
+
+    expect(engine.getCapabilities().tests).toBe(false);
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('does not run tests');
+    expect(result.testResults).toBeUndefined();
+  });
+});
@@ -8,45 +8,100 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { ExecutionRequest, ExecutionResult } from './executionEngine';
-import { spawn } from 'child_process';
+import { ExecutionRequest, ExecutionResult, OutputListener, SecurityReport } from './executionEngine';
+import { ChildProcess, spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as os from 'os';
 import { ExecutionMemoryManager } from './memoryIntegration';
+import { materializeWorkspace } from './workspace';
+import { SessionManager, SessionProcess } from './executionSession';
+import { JavaScriptRunner } from './javascriptRunner';
+import { runtimeRegistry } from './languageRuntime';
+import { TEST_DIR } from './testRunner';
+import { PhaseOutcome, diagnoseExecution, readPhaseOutcome } from './diagnostics';
+import { ArtifactStore, globToRegExp } from './artifacts';
+import { OutputBuffer, resolveOutputLimits } from './outputBuffer';
+import { ResultCache, ResultCacheOptions } from './resultCache';
+import { effectiveLimits, sandboxPolicies } from './sandboxPolicy';
+import { EgressConnection, EgressProxy, addToSecurityReport, proxyEnvironment } from './egressProxy';
+import { BackendCapabilities, BackendSecurityStatus, ExecutionBackend } from './executionBackend';
+import {
+  ExecutionStatus, ExecutionTracker, RunWatch, signalExitCode, stoppedResult, terminateProcess, withStatus
+} from './executionTracker';
 
-export class SimpleExecutionEngine {
+// What running a program on the host produced, before timing and the security report
+interface LocalRunResult extends Pick<
+  ExecutionResult, 'success' | 'output' | 'errors' | 'exitCode' | 'status' | 'exitReason' | 'truncated' | 'diagnostics' | 'artifacts'
+> {
+  egressConnections?: EgressConnection[];
+}
+
+export class SimpleExecutionEngine implements ExecutionBackend {
+  readonly name = 'simple';
   private memoryManager?: ExecutionMemoryManager;
+  readonly sessions: SessionManager;
+  readonly executions = new ExecutionTracker();
+  readonly artifacts = new ArtifactStore();
+  readonly resultCache: ResultCache;
+  private javascriptRunner = new JavaScriptRunner();
+  private egressProxy = new EgressProxy();
 
-  constructor(memoryManager?: ExecutionMemoryManager) {
+  constructor(memoryManager?: ExecutionMemoryManager, options: { resultCache?: Partial<ResultCacheOptions> } = {}) {
     this.memoryManager = memoryManager;
+    // Host tools have no image; the runtime definition stands in for the version
+    this.resultCache = new ResultCache(async language => runtimeRegistry.fingerprint(language), options.resultCache);
+    this.sessions = new SessionManager((request, onOutput, onExit) => this.startSessionProcess(request, onOutput, onExit));
     console.log('🚀 Simple execution engine initialized (no security barriers)');
   }
 
+  // Nothing to start: programs run as host processes
+  async initialize(): Promise<void> {}
+
   /**
-   * Execute code with minimal overhead
+   * Execute code with minimal overhead, or return the cached result. The run
+   * can be cancelled by its id through `executions` while it is in flight.
    */
-  async executeCode(request: ExecutionRequest): Promise<ExecutionResult & {
-    id: string;
-    performanceMetrics: any;
-    securityReport: any;
-    improvements?: any;
-  }> {
-    const executionId = uuidv4();
+  async executeCode(request: ExecutionRequest, onOutput?: OutputListener): Promise<ExecutionResult> {
+    const tracked = { ...request, id: request.id || uuidv4() };
+    const run = this.executions.start(tracked);
+    try {
+      return withStatus(await this.resultCache.execute(tracked, () => this.execute(tracked, onOutput, run.signal), onOutput));
+    } finally {
+      run.finish();
+    }
+  }
+
+  private async execute(request: ExecutionRequest, onOutput?: OutputListener, signal?: AbortSignal): Promise<ExecutionResult> {
+    const executionId = request.id;
     const startTime = Date.now();
 
     console.log(`🚀 Simple execution starting: ${executionId}`);
 
     try {
-      let result: any;
+      let result: LocalRunResult;
+
+      // Reject bad patterns, hosts and tests before anything runs
+      if ((request.tests || []).length > 0) {
+        throw new Error('The simple backend does not run tests; send them to a container backend ("backend": "docker")');
+      }
+      (request.artifacts || []).forEach(globToRegExp);
+      const policy = sandboxPolicies.get(request.policy);
+      sandboxPolicies.checkEgress(policy, request.allowedHosts);
 
-      if (request.language === 'javascript' || request.language === 'typescript') {
-        result = await this.executeJavaScript(request.code);
+      if ((request.files && Object.keys(request.files).length > 0) || (request.artifacts || []).length > 0 ||
+          policy.network === 'egress') {
+        // Multi-file projects, runs whose files are collected and runs behind
+        // the egress proxy need a directory on disk and their own process
+        result = await this.executeProject(request, executionId, onOutput, signal);
+      } else if ((request.language === 'javascript' || request.language === 'typescript') &&
+                 request.stdin === undefined && (request.args || []).length === 0) {
+        result = await this.executeJavaScript(request, onOutput, signal);
       } else if (request.language === 'python') {
-        result = await this.executePython(request.code);
+        result = await this.executePython(request, onOutput, signal);
       } else {
-        // For other languages, try to execute directly
-        result = await this.executeGeneric(request.code, request.language);
+        // For other languages (and JS reading stdin or arguments), run the runtime's local commands
+        result = await this.executeProject(request, executionId, onOutput, signal);
       }
 
       const executionTime = Date.now() - startTime;
@@ -59,6 +114,11 @@ export class SimpleExecutionEngine {
         output: result.output || '',
         errors: result.errors || [],
         exitCode: result.exitCode || 0,
+        status: result.status,
+        exitReason: result.exitReason,
+        diagnostics: result.diagnostics || [],
+        truncated: result.truncated,
+        artifacts: result.artifacts,
         executionTime,
         memoryUsage: process.memoryUsage().heapUsed,
         performanceMetrics: {
@@ -68,18 +128,10 @@ export class SimpleExecutionEngine {
           networkCalls: 0,
           executionProfile: []
         },
-        securityReport: {
-          fileSystemAccess: [],
-          networkAccess: [],
-          processSpawned: [],
-          suspiciousOperations: [],
-          riskLevel: 'low' as const,
-          securityScore: 100,
-          violations: []
-        }
+        securityReport: addToSecurityReport(untracedReport(), result.egressConnections || [])
       };
 
-    } catch (error: any) {
+    } catch (error) {
       const executionTime = Date.now() - startTime;
       
       console.log(`❌ Simple execution failed: ${executionId} (${executionTime}ms)`);
@@ -88,7 +140,7 @@ export class SimpleExecutionEngine {
         id: executionId,
         success: false,
         output: '',
-        errors: [error.message || 'Unknown error'],
+        errors: [error instanceof Error && error.message ? error.message : 'Unknown error'],
         exitCode: 1,
         executionTime,
         memoryUsage: process.memoryUsage().heapUsed,
@@ -99,195 +151,318 @@ export class SimpleExecutionEngine {
           networkCalls: 0,
           executionProfile: []
         },
-        securityReport: {
-          fileSystemAccess: [],
-          networkAccess: [],
-          processSpawned: [],
-          suspiciousOperations: [],
-          riskLevel: 'low' as const,
-          securityScore: 100,
-          violations: []
-        }
+        securityReport: untracedReport()
       };
     }
   }
 
   /**
-   * Execute JavaScript code using eval (no security)
+   * Execute JavaScript/TypeScript in a worker thread with a fresh vm context
    */
-  private async executeJavaScript(code: string): Promise<any> {
-    let output = '';
-    let errors: string[] = [];
-
-    // Capture console output
-    const originalConsoleLog = console.log;
-    const originalConsoleError = console.error;
-
-    console.log = (...args: any[]) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-      ).join(' ');
-      output += message + '\n';
-      originalConsoleLog(message); // Still log to actual console
-    };
+  private async executeJavaScript(request: ExecutionRequest, onOutput?: OutputListener, signal?: AbortSignal): Promise<LocalRunResult> {
+    // No container here, but the policy still bounds time and heap
+    const limits = effectiveLimits(sandboxPolicies.get(request.policy), request);
+    const result = await this.javascriptRunner.run(request.code, {
+      typescript: request.language === 'typescript',
+      timeout: limits.timeout,
+      memoryLimit: String(limits.memory),
+      outputLimits: request.outputLimits,
+      env: request.projectContext?.environmentVariables,
+      onOutput,
+      signal
+    });
 
-    console.error = (...args: any[]) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-      ).join(' ');
-      errors.push(message);
-      originalConsoleError(message); // Still log to actual console
-    };
+    // The runner already reported the stop in errors
+    const stopped: { status?: ExecutionStatus; exitReason?: string } = result.timedOut || result.cancelled
+      ? {
+          status: result.timedOut ? 'timed-out' : 'cancelled',
+          exitReason: result.timedOut ? `Execution timed out after ${limits.timeout}ms (worker terminated)` : 'Execution cancelled (worker terminated)'
+        }
+      : {};
+    return this.withDiagnostics(request, { ...result, errors: [result.stack || result.errors.join('\n')] }, { ...result, ...stopped });
+  }
+
+  /**
+   * Execute Python code using spawn
+   */
+  private async executePython(request: ExecutionRequest, onOutput?: OutputListener, signal?: AbortSignal): Promise<LocalRunResult> {
+    const result = await this.executeWithSpawn('python', ['-c', request.code, ...(request.args || [])], request, onOutput, signal);
+    return this.withDiagnostics(request, result, result);
+  }
+
+  /**
+   * Execute the request as a project in a temporary directory, collecting
+   * any requested artifacts before it is removed
+   */
+  private async executeProject(
+    request: ExecutionRequest,
+    executionId: string,
+    onOutput?: OutputListener,
+    signal?: AbortSignal
+  ): Promise<LocalRunResult> {
+    const project = await this.prepareProject(request, true);
+    // Not enforced here, unlike in a container: the program is only pointed at the proxy
+    const egress = sandboxPolicies.get(request.policy).network === 'egress'
+      ? await this.egressProxy.open(request.allowedHosts || [], { bindHost: '127.0.0.1', client: '127.0.0.1' })
+      : undefined;
 
     try {
-      // Simple eval execution
-      eval(code);
-      
-      return {
-        success: true,
-        output: output.trim(),
-        errors,
-        exitCode: 0
-      };
+      const result = await this.executeWithSpawn(
+        project.cmd,
+        project.args,
+        request,
+        onOutput,
+        signal,
+        project.cwd,
+        this.processEnvironment(request, egress?.url)
+      );
+      const outcome = await readPhaseOutcome(path.join(project.dir, TEST_DIR));
+      const artifacts = request.artifacts && request.artifacts.length > 0
+        ? await this.artifacts.collect(project.dir, request.artifacts, executionId, request.artifactDelivery, request.caller)
+        : undefined;
 
-    } catch (error: any) {
-      return {
-        success: false,
-        output: output.trim(),
-        errors: [...errors, error.message],
-        exitCode: 1
-      };
+      return this.withDiagnostics(request, result, { ...result, artifacts, egressConnections: egress?.connections }, outcome, {
+        roots: [project.dir],
+        cwd: project.workingDirectory
+      });
 
     } finally {
-      // Restore original console
-      console.log = originalConsoleLog;
-      console.error = originalConsoleError;
+      await egress?.close();
+
+      // Cleanup project directory
+      try {
+        await fs.remove(project.dir);
+      } catch {}
     }
   }
 
   /**
-   * Execute Python code using spawn
+   * Attach diagnostics parsed from `output` (stderr, or a stack trace) to
+   * `result`. Output of a failed install/compile phase is added to errors.
    */
-  private async executePython(code: string): Promise<any> {
-    return this.executeWithSpawn('python', ['-c', code]);
+  private withDiagnostics(
+    request: ExecutionRequest,
+    output: { errors: string[]; exitCode: number },
+    result: LocalRunResult,
+    outcome: PhaseOutcome = { phase: 'run', logs: {} },
+    options: { roots?: string[]; cwd?: string } = {}
+  ): LocalRunResult {
+    const diagnosis = diagnoseExecution({
+      formats: runtimeRegistry.get(request.language).diagnostics || [],
+      outcome,
+      stderr: output.errors.join(''),
+      exitCode: output.exitCode
+    }, options);
+
+    return {
+      ...result,
+      errors: diagnosis.failedPhaseOutput ? [diagnosis.failedPhaseOutput, ...result.errors] : result.errors,
+      diagnostics: diagnosis.diagnostics
+    };
   }
 
   /**
-   * Execute generic code by trying to run it with appropriate interpreter
+   * Write the request to a temporary project directory and work out how to
+   * run it. With `logPhases`, install/compile output goes to log files for
+   * diagnostics instead of the output streams.
    */
-  private async executeGeneric(code: string, language: string): Promise<any> {
-    // Create temp file
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(tempDir, `codecontext_${uuidv4()}.${this.getFileExtension(language)}`);
-    
+  private async prepareProject(
+    request: ExecutionRequest,
+    logPhases: boolean = false
+  ): Promise<{ dir: string; cwd: string; workingDirectory: string; cmd: string; args: string[] }> {
+    const projectDir = path.join(os.tmpdir(), `codecontext_${uuidv4()}`);
+
     try {
-      await fs.writeFile(tempFile, code);
-      
-      const command = this.getExecutionCommand(language, tempFile);
-      return await this.executeWithSpawn(command.cmd, command.args);
-      
-    } finally {
-      // Cleanup temp file
-      try {
-        await fs.unlink(tempFile);
-      } catch {}
+      const layout = await materializeWorkspace(projectDir, request, runtimeRegistry.getDefaultEntrypoint(request.language));
+      const cwd = path.join(projectDir, layout.workingDirectory);
+      const buildDir = path.join(projectDir, TEST_DIR, 'build');
+      await fs.ensureDir(buildDir);
+
+      const script = runtimeRegistry.buildScript(request.language, {
+        entrypoint: path.posix.relative(layout.workingDirectory, layout.entrypoint),
+        buildDir,
+        logDir: logPhases ? path.join(projectDir, TEST_DIR) : undefined,
+        dependencies: request.dependencies,
+        args: request.args
+      }, true);
+      return { dir: projectDir, cwd, workingDirectory: layout.workingDirectory, cmd: 'sh', args: ['-c', script] };
+
+    } catch (error) {
+      await fs.remove(projectDir).catch(() => undefined);
+      throw error;
     }
   }
 
   /**
-   * Execute command with spawn
+   * Start a long-lived process for an interactive session; its project
+   * directory is removed when the session is closed.
    */
-  private async executeWithSpawn(command: string, args: string[] = []): Promise<any> {
-    return new Promise((resolve) => {
-      let output = '';
-      let errors: string[] = [];
+  private async startSessionProcess(
+    request: ExecutionRequest,
+    onOutput: OutputListener,
+    onExit: (exitCode: number) => void
+  ): Promise<SessionProcess> {
+    const project = await this.prepareProject(request);
+    let child: ChildProcess;
 
-      const child = spawn(command, args, {
-        stdio: 'pipe',
-        timeout: 30000 // 30 second timeout
-      });
+    try {
+      child = spawn(project.cmd, project.args, { cwd: project.cwd, env: this.processEnvironment(request), stdio: 'pipe' });
+    } catch (error) {
+      await fs.remove(project.dir).catch(() => undefined);
+      throw error;
+    }
 
-      child.stdout?.on('data', (data) => {
-        output += data.toString();
-      });
+    child.stdout?.on('data', (data) => onOutput({ stream: 'stdout', data: data.toString() }));
+    child.stderr?.on('data', (data) => onOutput({ stream: 'stderr', data: data.toString() }));
+    // Writes after the program exited would otherwise crash the server
+    child.stdin?.on('error', () => undefined);
 
-      child.stderr?.on('data', (data) => {
-        errors.push(data.toString());
+    const exited = new Promise<void>((resolve) => {
+      child.on('close', (code) => {
+        onExit(code ?? 1);
+        resolve();
+      });
+      child.on('error', (error) => {
+        onOutput({ stream: 'stderr', data: error.message });
+        onExit(1);
+        resolve();
       });
+    });
 
-      child.on('close', (code) => {
-        resolve({
+    return {
+      write: (data: string) => {
+        child.stdin?.write(data);
+      },
+      closeInput: () => {
+        child.stdin?.end();
+      },
+      kill: async () => {
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill('SIGKILL');
+          await exited;
+        }
+        await fs.remove(project.dir).catch(() => undefined);
+      }
+    };
+  }
+
+  /**
+   * Execute command with spawn, feeding it the request's stdin and keeping
+   * output within the request's limits. Past the policy's timeout, or when
+   * `signal` is aborted, the process group is terminated.
+   */
+  private async executeWithSpawn(
+    command: string,
+    args: string[],
+    request: ExecutionRequest,
+    onOutput?: OutputListener,
+    signal?: AbortSignal,
+    cwd?: string,
+    env?: NodeJS.ProcessEnv
+  ): Promise<LocalRunResult> {
+    return new Promise((resolve) => {
+      const buffer = new OutputBuffer(resolveOutputLimits(request.outputLimits), onOutput);
+      const stderr = () => {
+        const text = buffer.text('stderr');
+        return text ? [text] : [];
+      };
+
+      // Its own process group, so whatever the program starts is stopped with it
+      const child = spawn(command, args, { cwd, env: env || this.processEnvironment(request), stdio: 'pipe', detached: true });
+      const { timeout } = effectiveLimits(sandboxPolicies.get(request.policy), request);
+      const watch = new RunWatch(timeout, signal, () => terminateProcess(child));
+
+      child.stdout?.on('data', (data: Buffer) => buffer.push('stdout', data));
+      child.stderr?.on('data', (data: Buffer) => buffer.push('stderr', data));
+
+      // Programs that exit without reading all of stdin close the pipe early
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(request.stdin);
+
+      child.on('close', (code, exitSignal) => {
+        watch.dispose();
+        const result = {
           success: code === 0,
-          output: output.trim(),
-          errors,
-          exitCode: code || 0
-        });
+          output: buffer.text('stdout').trim(),
+          errors: stderr(),
+          exitCode: code ?? signalExitCode(exitSignal) ?? 1,
+          truncated: buffer.truncated()
+        };
+        resolve(watch.reason ? stoppedResult(result, watch.reason, timeout) : result);
       });
 
       child.on('error', (error) => {
+        watch.dispose();
         resolve({
           success: false,
-          output: output.trim(),
-          errors: [...errors, error.message],
-          exitCode: 1
+          output: buffer.text('stdout').trim(),
+          errors: [...stderr(), error.message],
+          exitCode: 1,
+          truncated: buffer.truncated()
         });
       });
     });
   }
 
   /**
-   * Get file extension for language
+   * The server's environment plus the request's variables and, behind the
+   * egress proxy, the variables that point clients at it
    */
-  private getFileExtension(language: string): string {
-    switch (language.toLowerCase()) {
-      case 'javascript': return 'js';
-      case 'typescript': return 'ts';
-      case 'python': return 'py';
-      case 'go': return 'go';
-      case 'rust': return 'rs';
-      case 'java': return 'java';
-      case 'c': return 'c';
-      case 'cpp': return 'cpp';
-      default: return 'txt';
-    }
+  private processEnvironment(request: ExecutionRequest, proxyUrl?: string): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      ...request.projectContext?.environmentVariables,
+      ...(proxyUrl ? proxyEnvironment(proxyUrl) : {})
+    };
   }
 
   /**
-   * Get execution command for language
+   * Only time limits hold; the JavaScript heap limit is not a memory limit
+   * for the program's processes, and nothing keeps it off the network.
    */
-  private getExecutionCommand(language: string, filePath: string): { cmd: string; args: string[] } {
-    switch (language.toLowerCase()) {
-      case 'javascript':
-        return { cmd: 'node', args: [filePath] };
-      case 'typescript':
-        return { cmd: 'ts-node', args: [filePath] };
-      case 'python':
-        return { cmd: 'python', args: [filePath] };
-      case 'go':
-        return { cmd: 'go', args: ['run', filePath] };
-      case 'rust':
-        return { cmd: 'rustc', args: [filePath, '-o', filePath.replace('.rs', ''), '&&', filePath.replace('.rs', '')] };
-      default:
-        throw new Error(`Unsupported language: ${language}`);
-    }
+  getCapabilities(): BackendCapabilities {
+    return {
+      isolation: 'process',
+      resourceLimits: ['timeout'],
+      networkModes: [],
+      seccomp: false,
+      syscallTracing: false,
+      warmPool: false,
+      tests: false,
+      languages: runtimeRegistry.list().map(runtime => runtime.language)
+    };
   }
 
-  /**
-   * Get security status (always returns safe for simple engine)
-   */
-  getSecurityStatus(): any {
+  async getSecurityStatus(): Promise<BackendSecurityStatus> {
     return {
       securityEnabled: false,
       securityLevel: 'none',
       activeProtections: [],
+      available: true,
       status: 'Simple execution engine - no security barriers'
     };
   }
 
   /**
-   * Shutdown (no-op for simple engine)
+   * Shutdown, closing any open sessions
    */
   async shutdown(): Promise<void> {
+    this.executions.shutdown();
+    await this.sessions.shutdown();
+    await this.egressProxy.shutdown();
+    this.artifacts.shutdown();
     console.log('🛑 Simple execution engine shutdown');
   }
-}
\ No newline at end of file
+}
+
+// Host processes aren't traced; the report only carries what the engine saw itself
+function untracedReport(): SecurityReport {
+  return {
+    fileSystemAccess: [],
+    networkAccess: [],
+    processSpawned: [],
+    suspiciousOperations: [],
+    riskLevel: 'low',
+    traced: false
+  };
+}
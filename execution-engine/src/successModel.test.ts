@@ -0,0 +1,79 @@
+import { ExecutionRequest } from './executionEngine';
+import { codeAround, errorSignature } from './errorSignatures';
+import { importedModules, recommendationsFor, SuccessModel } from './successModel';
+
+const python = (code: string, overrides: Partial<ExecutionRequest> = {}): ExecutionRequest =>
+  ({ id: 'run', language: 'python', code, ...overrides });
+
+describe('SuccessModel', () => {
+  it('starts out undecided', () => {
+    expect(new SuccessModel().predict(python('print(1)'))).toEqual({ probability: 0.5, samples: 0, riskFactors: [] });
+  });
+
+  it('learns which features make failure likelier and names them as risks', () => {
+    const model = new SuccessModel();
+    for (let run = 0; run < 20; run++) {
+      model.learn(python('import numpy\nprint(numpy.zeros(3))'), false);
+      model.learn(python('import json\nprint(json.dumps({}))'), true);
+    }
+
+    const risky = model.predict(python('import numpy\nprint(1)'));
+    const safe = model.predict(python('import json\nprint(2)'));
+
+    expect(risky.samples).toBe(40);
+    expect(risky.probability).toBeLessThan(0.3);
+    expect(safe.probability).toBeGreaterThan(0.7);
+    expect(risky.riskFactors[0]).toMatchObject({ feature: 'import:numpy', seen: 20, failed: 20 });
+    expect(risky.riskFactors[0].description).toBe('Imports numpy (20 of 20 past runs with it failed)');
+    expect(safe.riskFactors).toEqual([]);
+  });
+
+  it('recognizes a line that failed before', () => {
+    const model = new SuccessModel();
+    const code = 'total = 0\nprint(totl + 1)';
+    const message = "NameError: name 'totl' is not defined";
+    model.learn(python(code), false, [{
+      errorType: 'NameError',
+      errorMessage: message,
+      signature: errorSignature(message),
+      codeContext: codeAround(code, 2),
+      frequency: 1,
+      solutions: [],
+      preventionTips: []
+    }]);
+
+    expect(model.features(python('x = 1\nprint(totl + 1)'))).toContain('known-failure:NameError: name <id> is not defined');
+  });
+
+  it('describes requests by language, size and inputs', () => {
+    const features = new SuccessModel().features(python('print(input())', {
+      dependencies: ['requests==2.31.0', '@scope/pkg@1.0.0'],
+      stdin: '',
+      tests: ['assert True']
+    }));
+
+    expect(features).toEqual(['language:python', 'dependency:requests', 'dependency:@scope/pkg', 'size:0-9', 'tests', 'stdin']);
+  });
+});
+
+describe('importedModules', () => {
+  it.each([
+    ['python', 'import os.path\nfrom collections import deque', ['os', 'collections']],
+    ['javascript', "const _ = require('lodash');\nimport { x } from '@scope/pkg/sub';\nimport './local';", ['lodash', '@scope/pkg']],
+    ['go', 'import (\n  "fmt"\n  str "strings"\n)', ['fmt', 'strings']],
+    ['rust', 'use serde::Deserialize;', ['serde']]
+  ])('finds the modules %s code imports', (language, code, modules) => {
+    expect(importedModules(code, language)).toEqual(modules);
+  });
+});
+
+describe('recommendationsFor', () => {
+  it('recommends once per kind of risk', () => {
+    const factor = (feature: string) => ({ feature, description: '', weight: -1, seen: 1, failed: 1 });
+
+    expect(recommendationsFor([factor('import:numpy'), factor('language:python'), factor('tests'), factor('tests')])).toEqual([
+      'Check that numpy is installed, or declare it in dependencies',
+      'Run the code without tests first to separate code and test failures'
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * 🔮 Success Prediction
+ *
+ * Will this snippet run? A logistic regression over features of the
+ * request, learned from the project's recorded executions:
+ *
+ *   language:python        the language
+ *   import:numpy           each module the code imports
+ *   dependency:lodash      each declared dependency
+ *   size:50-199            lines of code, bucketed
+ *   tests, stdin, files    whether the request has them
+ *   known-failure:<sig>    the code contains a line that failed before
+ *                          with that error signature
+ *
+ * The model learns online: one AdaGrad step per recorded execution, so
+ * recording a run retrains it, and starting up replays the stored history
+ * once. Trained on log loss, its output is a probability rather than a
+ * score; with little history it is pulled towards the observed success
+ * rate. The features pulling a prediction down the most are its risk
+ * factors.
+ */
+
+import { ExecutionRequest } from './executionEngine';
+import { markedLine } from './errorSignatures';
+import { ErrorPattern } from './memoryIntegration';
+
+export interface RiskFactor {
+  feature: string;
+  description: string;
+  weight: number; // log-odds contribution, negative
+  seen: number; // past runs with the feature
+  failed: number;
+}
+
+export interface SuccessPrediction {
+  probability: number;
+  samples: number; // executions the model has learned from
+  riskFactors: RiskFactor[]; // strongest first
+}
+
+export interface SuccessModelOptions {
+  learningRate: number; // AdaGrad base rate
+  regularization: number; // L2, per step
+  priorStrength: number; // pseudo-runs at the observed success rate mixed into each prediction
+  maxRiskFactors: number;
+  maxKnownFailures: number; // failing lines remembered
+}
+
+export const DEFAULT_SUCCESS_MODEL_OPTIONS: SuccessModelOptions = {
+  learningRate: 0.5,
+  regularization: 0.001,
+  priorStrength: 5,
+  maxRiskFactors: 5,
+  maxKnownFailures: 500
+};
+
+// Below this, a feature's weight is noise rather than risk
+const MIN_RISK_WEIGHT = 0.05;
+
+// Lines too generic to point at a known failure
+const MIN_FAILING_LINE_LENGTH = 6;
+
+const SIZE_BUCKETS = [10, 50, 200];
+
+// Key of the bias in the per-feature step sizes
+const BIAS = '';
+
+export class SuccessModel {
+  private options: SuccessModelOptions;
+  private weights: Map<string, number> = new Map();
+  private bias = 0;
+  private squaredGradients: Map<string, number> = new Map();
+  private stats: Map<string, { seen: number; failed: number }> = new Map();
+  private knownFailures: Map<string, string> = new Map(); // failing line -> error signature
+  private samples = 0;
+  private successes = 0;
+
+  constructor(options: Partial<SuccessModelOptions> = {}) {
+    this.options = { ...DEFAULT_SUCCESS_MODEL_OPTIONS, ...options };
+  }
+
+  get trainedOn(): number {
+    return this.samples;
+  }
+
+  /**
+   * Learn from one recorded execution.
+   */
+  learn(request: ExecutionRequest, success: boolean, errorPatterns: ErrorPattern[] = []): void {
+    const features = this.features(request);
+    const error = (success ? 1 : 0) - sigmoid(this.score(features));
+
+    this.bias += this.step(BIAS, error);
+    for (const feature of features) {
+      const weight = this.weights.get(feature) || 0;
+      this.weights.set(feature, weight + this.step(feature, error - this.options.regularization * weight));
+
+      const stats = this.stats.get(feature) || { seen: 0, failed: 0 };
+      stats.seen++;
+      if (!success) stats.failed++;
+      this.stats.set(feature, stats);
+    }
+
+    this.samples++;
+    if (success) this.successes++;
+    if (!success) {
+      this.rememberFailures(errorPatterns);
+    }
+  }
+
+  predict(request: ExecutionRequest): SuccessPrediction {
+    const features = this.features(request);
+    const { priorStrength, maxRiskFactors } = this.options;
+
+    // With no history, the observed rate is the uniform prior's 0.5
+    const observed = (this.successes + 1) / (this.samples + 2);
+    const modelled = sigmoid(this.score(features));
+    const probability = (this.samples * modelled + priorStrength * observed) / (this.samples + priorStrength);
+
+    const riskFactors = features
+      .map(feature => ({ feature, weight: this.weights.get(feature) || 0, ...(this.stats.get(feature) || { seen: 0, failed: 0 }) }))
+      .filter(factor => factor.weight < -MIN_RISK_WEIGHT && factor.failed > 0)
+      .sort((a, b) => a.weight - b.weight)
+      .slice(0, maxRiskFactors)
+      .map(factor => ({ ...factor, weight: round(factor.weight), description: this.describe(factor.feature, factor) }));
+
+    return { probability: round(probability), samples: this.samples, riskFactors };
+  }
+
+  /**
+   * The features of a request; each is present (1) or absent (0).
+   */
+  features(request: ExecutionRequest): string[] {
+    const code = request.code || '';
+    const lines = code.split('\n');
+    const features = new Set<string>([`language:${request.language}`]);
+
+    for (const module of importedModules(code, request.language)) {
+      features.add(`import:${module}`);
+    }
+    for (const dependency of request.dependencies || []) {
+      features.add(`dependency:${dependency.replace(/(?<=.)[@=<>~^].*$/, '')}`);
+    }
+
+    const bucket = SIZE_BUCKETS.findIndex(limit => lines.length < limit);
+    features.add(bucket === -1
+      ? `size:${SIZE_BUCKETS[SIZE_BUCKETS.length - 1]}+`
+      : `size:${bucket === 0 ? 0 : SIZE_BUCKETS[bucket - 1]}-${SIZE_BUCKETS[bucket] - 1}`);
+    if (request.tests?.length) features.add('tests');
+    if (request.stdin !== undefined) features.add('stdin');
+    if (request.files && Object.keys(request.files).length > 0) features.add('files');
+
+    for (const line of lines) {
+      const signature = this.knownFailures.get(line.trim());
+      if (signature) features.add(`known-failure:${signature}`);
+    }
+
+    return Array.from(features);
+  }
+
+  /**
+   * AdaGrad: a feature's steps shrink as it is seen, so rare features
+   * still learn quickly.
+   */
+  private step(feature: string, gradient: number): number {
+    const squared = (this.squaredGradients.get(feature) || 0) + gradient * gradient;
+    this.squaredGradients.set(feature, squared);
+    return (this.options.learningRate * gradient) / Math.sqrt(squared + 1e-8);
+  }
+
+  private score(features: string[]): number {
+    return features.reduce((sum, feature) => sum + (this.weights.get(feature) || 0), this.bias);
+  }
+
+  private rememberFailures(errorPatterns: ErrorPattern[]): void {
+    for (const error of errorPatterns) {
+      const line = markedLine(error.codeContext)?.trim();
+      if (!line || line.length < MIN_FAILING_LINE_LENGTH || !error.signature) continue;
+
+      this.knownFailures.delete(line); // re-inserted as the most recent
+      this.knownFailures.set(line, error.signature);
+      if (this.knownFailures.size > this.options.maxKnownFailures) {
+        this.knownFailures.delete(this.knownFailures.keys().next().value!);
+      }
+    }
+  }
+
+  private describe(feature: string, stats: { seen: number; failed: number }): string {
+    const [kind, value] = splitFeature(feature);
+    const history = `${stats.failed} of ${stats.seen} past runs with it failed`;
+    switch (kind) {
+      case 'import': return `Imports ${value} (${history})`;
+      case 'dependency': return `Depends on ${value} (${history})`;
+      case 'language': return `Written in ${value} (${history})`;
+      case 'size': return `Has ${value} lines of code (${history})`;
+      case 'known-failure': return `Contains a line that failed before with "${value}" (${history})`;
+      default: return `Uses ${kind} (${history})`;
+    }
+  }
+}
+
+/**
+ * Recommendations for the risk factors of a prediction.
+ */
+export function recommendationsFor(riskFactors: RiskFactor[]): string[] {
+  const recommendations = riskFactors.map(factor => {
+    const [kind, value] = splitFeature(factor.feature);
+    switch (kind) {
+      case 'import': return `Check that ${value} is installed, or declare it in dependencies`;
+      case 'dependency': return `Verify the ${value} dependency installs (pin a known-good version)`;
+      case 'known-failure': return `Fix the code that failed before with "${value}" before running`;
+      case 'size': return 'Run smaller parts of the program first';
+      case 'tests': return 'Run the code without tests first to separate code and test failures';
+      case 'stdin': return 'Check the program reads stdin in the format given';
+      case 'files': return 'Check the project files and entrypoint fit together';
+      default: return undefined;
+    }
+  });
+  return [...new Set(recommendations.filter((recommendation): recommendation is string => !!recommendation))];
+}
+
+/**
+ * Top-level modules the code imports, for the languages that say so in
+ * a recognisable way.
+ */
+export function importedModules(code: string, language?: string): string[] {
+  const modules = new Set<string>();
+  const patterns = [
+    /^\s*import\s+([\w.]+)/gm, // python, java
+    /^\s*from\s+([\w.]+)\s+import\b/gm, // python
+    /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g, // javascript
+    /^\s*import\s+(?:[\w*{}\s,$]+\s+from\s+)?['"]([^'"]+)['"]/gm, // javascript, typescript
+    /^\s*(?:pub\s+)?use\s+([\w]+)::/gm, // rust
+    /^\s*#include\s*[<"]([\w./]+)[>"]/gm // c, c++
+  ];
+  if (language === 'go') {
+    // A quoted path on its own line, inside or after `import`
+    patterns.push(/^\s*(?:import\s+)?(?:\w+\s+)?"([\w./-]+)"\s*$/gm);
+  }
+
+  for (const pattern of patterns) {
+    for (const match of code.matchAll(pattern)) {
+      const name = match[1];
+      if (name.startsWith('.')) continue; // local files
+      // Scoped npm packages keep their scope; everything else its first segment
+      modules.add(name.startsWith('@') ? name.split('/').slice(0, 2).join('/') : name.split(/[./]/)[0]);
+    }
+  }
+  return Array.from(modules);
+}
+
+function splitFeature(feature: string): [string, string] {
+  const separator = feature.indexOf(':');
+  return separator === -1 ? [feature, ''] : [feature.slice(0, separator), feature.slice(separator + 1)];
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
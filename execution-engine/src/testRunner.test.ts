@@ -0,0 +1,94 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { runtimeRegistry } from './languageRuntime';
+import { TEST_DIR, TestRunner } from './testRunner';
+
+describe('TestRunner', () => {
+  const runner = new TestRunner();
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runner-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspace);
+  });
+
+  const writeLog = (fileName: string, log: string) =>
+    fs.outputFile(path.join(workspace, TEST_DIR, fileName), log);
+
+  it('runs JavaScript tests against the entry file in the harness', async () => {
+    await fs.writeFile(path.join(workspace, 'main.js'), 'function add(a, b) { return a + b; }');
+    const tests = [
+      "it('adds', () => expect(add(1, 2)).toBe(3));\nit('fails', () => expect(add(1, 2)).toBe(4));",
+      "assert.strictEqual(add(2, 2), 4);"
+    ];
+
+    const command = await runner.prepare(workspace, runtimeRegistry.get('javascript'), tests, 'main.js');
+    expect(command).toContain(`/workspace/${TEST_DIR}/harness.js`);
+
+    // The harness finds its manifest and the entry file relative to itself
+    execFileSync(process.execPath, [path.join(workspace, TEST_DIR, 'harness.js')], { timeout: 10000 });
+    const results = await runner.collect(workspace, runtimeRegistry.get('javascript'), tests);
+
+    expect(results.map(result => [result.name, result.passed])).toEqual([
+      ['adds', true],
+      ['fails', false],
+      ['test_2', true]
+    ]);
+    expect(results[1].error).toContain('AssertionError');
+  });
+
+  it('reads go test -json events', async () => {
+    await writeLog('go-test.json', [
+      '# example [build output]',
+      JSON.stringify({ Action: 'run', Test: 'TestAdd' }),
+      JSON.stringify({ Action: 'output', Test: 'TestAdd', Output: '=== RUN   TestAdd\n' }),
+      JSON.stringify({ Action: 'pass', Test: 'TestAdd', Elapsed: 0.012 }),
+      JSON.stringify({ Action: 'output', Test: 'TestSub', Output: '    main_test.go:9: got 1, want 2\n' }),
+      JSON.stringify({ Action: 'fail', Test: 'TestSub', Elapsed: 0.003 }),
+      JSON.stringify({ Action: 'fail', Elapsed: 0.02 })
+    ].join('\n'));
+
+    const results = await runner.collect(workspace, runtimeRegistry.get('go'), ['', '']);
+
+    expect(results).toEqual([
+      { name: 'TestAdd', passed: true, output: '=== RUN   TestAdd\n', duration: 12 },
+      { name: 'TestSub', passed: false, output: '    main_test.go:9: got 1, want 2\n', error: 'main_test.go:9: got 1, want 2', duration: 3 }
+    ]);
+  });
+
+  it('reads cargo test output and strips the generated module', async () => {
+    await writeLog('cargo-test.log', [
+      'running 2 tests',
+      'test codecontext_tests::adds ... ok',
+      'test codecontext_tests::subtracts ... FAILED',
+      '',
+      'failures:',
+      '',
+      '---- codecontext_tests::subtracts stdout ----',
+      "thread 'codecontext_tests::subtracts' panicked at src/main.rs:12:5:",
+      'assertion `left == right` failed',
+      '',
+      'failures:',
+      '    codecontext_tests::subtracts'
+    ].join('\n'));
+
+    const results = await runner.collect(workspace, runtimeRegistry.get('rust'), ['', '']);
+
+    expect(results.map(result => [result.name, result.passed])).toEqual([['adds', true], ['subtracts', false]]);
+    expect(results[1].error).toBe('assertion `left == right` failed');
+  });
+
+  it('reports every test as failed when the test stage left no results', async () => {
+    await writeLog('tests.log', 'SyntaxError: Unexpected token');
+
+    const results = await runner.collect(workspace, runtimeRegistry.get('python'), ['a', 'b']);
+
+    expect(results).toHaveLength(2);
+    expect(results.every(result => !result.passed && result.output === 'SyntaxError: Unexpected token')).toBe(true);
+  });
+});
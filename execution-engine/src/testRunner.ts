@@ -0,0 +1,559 @@
+/**
+ * 🧪 Test Runner
+ *
+ * Turns the `tests` strings of an ExecutionRequest into something that runs
+ * inside the execution container, right after the code itself, and turns
+ * whatever the test stage left behind in the workspace into TestResults.
+ *
+ *   javascript / typescript → small assert/describe/it harness (node:vm)
+ *   python                  → pytest-style `test_*` functions
+ *   go                      → `go test -json`
+ *   rust                    → `cargo test` on a generated `#[cfg(test)]` module
+ *   command                 → the runtime's test command, once per test file
+ *
+ * Which one a language uses is part of its LanguageRuntime.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TestResult } from './executionEngine';
+import { LanguageRuntime, runtimeRegistry } from './languageRuntime';
+import { CONTAINER_WORKSPACE, shellQuote } from './workspace';
+
+// Everything the test stage writes lives here, relative to the workspace
+export const TEST_DIR = '.codecontext';
+
+// The test stage runs from the program's working directory, so commands use absolute paths
+const TEST_PATH = path.posix.join(CONTAINER_WORKSPACE, TEST_DIR);
+
+const RESULTS_FILE = 'test-results.json';
+const MANIFEST_FILE = 'tests.json';
+const LOG_FILE = 'tests.log';
+const GO_LOG_FILE = 'go-test.json';
+const CARGO_LOG_FILE = 'cargo-test.log';
+const COMMAND_RESULTS_FILE = 'command-results.txt';
+const RUST_TEST_MODULE = 'codecontext_tests';
+const DEFAULT_TEST_TIMEOUT = 5000;
+
+// One line of `go test -json` output
+interface GoTestEvent {
+  Action?: string;
+  Test?: string;
+  Output?: string;
+  Elapsed?: number; // seconds
+}
+
+export class TestRunner {
+  /**
+   * Write the harness and test files into the workspace and return the
+   * shell command that runs them. `entryFile` is relative to the workspace root.
+   */
+  async prepare(
+    envDir: string,
+    runtime: LanguageRuntime,
+    tests: string[],
+    entryFile: string
+  ): Promise<string> {
+    const testDir = path.join(envDir, TEST_DIR);
+    await fs.ensureDir(testDir);
+
+    if (runtime.test && 'command' in runtime.test) {
+      return this.prepareCommand(testDir, tests, entryFile, runtime.test.command, runtime.test.extension || runtime.extension);
+    }
+
+    switch (runtime.test?.framework) {
+      case 'javascript':
+        return this.prepareJavaScript(testDir, tests, entryFile);
+      case 'typescript':
+        return this.prepareTypeScript(testDir, tests, entryFile);
+      case 'python':
+        return this.preparePython(testDir, tests, entryFile);
+      case 'go':
+        return this.prepareGo(envDir, tests, entryFile);
+      case 'rust':
+        return this.prepareRust(envDir, tests, entryFile);
+      default:
+        throw new Error(`Tests are not supported for language: ${runtime.language}`);
+    }
+  }
+
+  /**
+   * Read back what the test stage produced. Tests that never reported are
+   * returned as failures so a broken test stage can't look like a pass.
+   */
+  async collect(envDir: string, runtime: LanguageRuntime, tests: string[]): Promise<TestResult[]> {
+    const testDir = path.join(envDir, TEST_DIR);
+    const framework = runtime.test && 'framework' in runtime.test ? runtime.test.framework : undefined;
+    let results: TestResult[] = [];
+
+    try {
+      if (runtime.test && 'command' in runtime.test) {
+        results = await this.readCommandResults(testDir);
+      }
+
+      switch (framework) {
+        case 'javascript':
+        case 'typescript':
+        case 'python':
+          results = await this.readHarnessResults(testDir);
+          break;
+        case 'go':
+          results = this.parseGoTestOutput(await this.readLog(testDir, GO_LOG_FILE));
+          break;
+        case 'rust':
+          results = this.parseCargoTestOutput(await this.readLog(testDir, CARGO_LOG_FILE));
+          break;
+      }
+    } catch (error) {
+      console.warn('⚠️  Could not read test results:', error);
+    }
+
+    if (results.length > 0) {
+      return results;
+    }
+
+    const log = await this.readLog(testDir, framework === 'go' ? GO_LOG_FILE : framework === 'rust' ? CARGO_LOG_FILE : LOG_FILE);
+    return tests.map((_, index) => ({
+      name: `test_${index + 1}`,
+      passed: false,
+      output: log,
+      error: 'Test stage produced no results',
+      duration: 0
+    }));
+  }
+
+  private async prepareJavaScript(testDir: string, tests: string[], entryFile: string): Promise<string> {
+    const files = await this.writeTestFiles(testDir, tests, 'js');
+    await this.writeManifest(testDir, entryFile, files);
+    await fs.writeFile(path.join(testDir, 'harness.js'), JS_HARNESS);
+    return `node ${TEST_PATH}/harness.js > ${TEST_PATH}/${LOG_FILE} 2>&1`;
+  }
+
+  private async prepareTypeScript(testDir: string, tests: string[], entryFile: string): Promise<string> {
+    const sources = await this.writeTestFiles(testDir, tests, 'ts');
+    // The harness runs the compiled output of both the entry file and the tests
+    const compiled = sources.map(file => file.replace(/\.ts$/, '.js'));
+    await this.writeManifest(testDir, entryFile.replace(/\.ts$/, '.js'), compiled);
+    await fs.writeFile(path.join(testDir, 'harness.js'), JS_HARNESS);
+
+    // Tests reference the entry file's globals, so type errors are expected; tsc still emits
+    const tscTargets = sources.map(file => `${TEST_PATH}/${file}`).join(' ');
+    return `(npx tsc ${tscTargets} || true) > ${TEST_PATH}/${LOG_FILE} 2>&1; ` +
+      `node ${TEST_PATH}/harness.js >> ${TEST_PATH}/${LOG_FILE} 2>&1`;
+  }
+
+  private async preparePython(testDir: string, tests: string[], entryFile: string): Promise<string> {
+    const files = await this.writeTestFiles(testDir, tests, 'py');
+    await this.writeManifest(testDir, entryFile, files);
+    await fs.writeFile(path.join(testDir, 'harness.py'), PYTHON_HARNESS);
+    return `python ${TEST_PATH}/harness.py > ${TEST_PATH}/${LOG_FILE} 2>&1`;
+  }
+
+  private async prepareGo(envDir: string, tests: string[], entryFile: string): Promise<string> {
+    // go test only picks up *_test.go files that sit next to the package sources
+    const packageDir = path.posix.dirname(entryFile);
+    for (const [index, test] of tests.entries()) {
+      await fs.writeFile(path.join(envDir, packageDir, `codecontext_${index + 1}_test.go`), this.toGoTestFile(test, index));
+    }
+    const packagePath = path.posix.join(CONTAINER_WORKSPACE, packageDir);
+    return `(cd ${shellQuote(packagePath)} && go test -json .) > ${TEST_PATH}/${GO_LOG_FILE} 2>&1`;
+  }
+
+  private async prepareRust(envDir: string, tests: string[], entryFile: string): Promise<string> {
+    // Unit tests need access to private items, so they are appended to the entry file
+    const testFns = tests.map((test, index) =>
+      /#\[test\]/.test(test) ? test : `#[test]\nfn test_${index + 1}() {\n${test}\n}`
+    );
+    const testModule = [
+      '',
+      '#[cfg(test)]',
+      `mod ${RUST_TEST_MODULE} {`,
+      '    #[allow(unused_imports)]',
+      '    use super::*;',
+      '',
+      testFns.join('\n\n'),
+      '}',
+      ''
+    ].join('\n');
+
+    await fs.appendFile(path.join(envDir, entryFile), testModule);
+    return `cargo test -- --test-threads=1 > ${TEST_PATH}/${CARGO_LOG_FILE} 2>&1`;
+  }
+
+  private async prepareCommand(
+    testDir: string,
+    tests: string[],
+    entryFile: string,
+    command: string,
+    extension: string
+  ): Promise<string> {
+    const files = await this.writeTestFiles(testDir, tests, extension);
+    const results = `${TEST_PATH}/${COMMAND_RESULTS_FILE}`;
+
+    // One line per test: "<file> <exit code>"; the entry file is given relative to the workspace root
+    const steps = files.map(file => {
+      const testCommand = runtimeRegistry.render(command, {
+        entrypoint: entryFile,
+        buildDir: path.posix.join(TEST_PATH, 'build'),
+        testFile: `${TEST_PATH}/${file}`
+      });
+      const log = `${TEST_PATH}/${file}.log`;
+      return `(${testCommand}) > ${log} 2>&1; echo "${file} $?" >> ${results}`;
+    });
+
+    return `(cd ${CONTAINER_WORKSPACE} && : > ${results}; ${steps.join('; ')})`;
+  }
+
+  private toGoTestFile(test: string, index: number): string {
+    let source = test;
+
+    if (!/func\s+Test\w*\s*\(/.test(source)) {
+      source = `func TestCase${index + 1}(t *testing.T) {\n${source}\n}`;
+    }
+    if (!/^\s*import\b/m.test(source)) {
+      source = `import "testing"\n\n${source}`;
+    }
+    if (!/^\s*package\s+\w+/m.test(source)) {
+      source = `package main\n\n${source}`;
+    }
+
+    return source;
+  }
+
+  private async writeTestFiles(testDir: string, tests: string[], extension: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const [index, test] of tests.entries()) {
+      const fileName = `test_${index + 1}.${extension}`;
+      await fs.writeFile(path.join(testDir, fileName), test);
+      files.push(fileName);
+    }
+    return files;
+  }
+
+  private async writeManifest(testDir: string, entry: string, tests: string[]): Promise<void> {
+    await fs.writeJson(path.join(testDir, MANIFEST_FILE), {
+      entry,
+      tests,
+      timeout: DEFAULT_TEST_TIMEOUT,
+      results: RESULTS_FILE
+    });
+  }
+
+  private async readHarnessResults(testDir: string): Promise<TestResult[]> {
+    const resultsPath = path.join(testDir, RESULTS_FILE);
+    if (!(await fs.pathExists(resultsPath))) {
+      return [];
+    }
+    return await fs.readJson(resultsPath);
+  }
+
+  private async readCommandResults(testDir: string): Promise<TestResult[]> {
+    const results: TestResult[] = [];
+
+    for (const line of (await this.readLog(testDir, COMMAND_RESULTS_FILE)).split('\n')) {
+      const match = line.match(/^(\S+) (\d+)$/);
+      if (!match) continue;
+
+      const output = (await this.readLog(testDir, `${match[1]}.log`)).trim();
+      const passed = match[2] === '0';
+      results.push({
+        name: match[1].replace(/\.[^.]+$/, ''),
+        passed,
+        output,
+        error: passed ? undefined : this.lastMeaningfulLine(output) || `Exited with code ${match[2]}`,
+        duration: 0
+      });
+    }
+
+    return results;
+  }
+
+  private async readLog(testDir: string, fileName: string): Promise<string> {
+    try {
+      return await fs.readFile(path.join(testDir, fileName), 'utf8');
+    } catch {
+      return '';
+    }
+  }
+
+  private parseGoTestOutput(log: string): TestResult[] {
+    const results = new Map<string, TestResult>();
+
+    for (const line of log.split('\n')) {
+      let event: GoTestEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        continue; // build errors and other non-JSON output
+      }
+      if (!event.Test) continue;
+
+      const result: TestResult = results.get(event.Test) || {
+        name: event.Test,
+        passed: false,
+        output: '',
+        duration: 0
+      };
+
+      if (event.Action === 'output') {
+        result.output += event.Output;
+      } else if (event.Action === 'pass' || event.Action === 'skip') {
+        result.passed = true;
+        result.duration = Math.round((event.Elapsed || 0) * 1000);
+      } else if (event.Action === 'fail') {
+        result.passed = false;
+        result.error = this.lastMeaningfulLine(result.output) || 'Test failed';
+        result.duration = Math.round((event.Elapsed || 0) * 1000);
+      }
+
+      results.set(event.Test, result);
+    }
+
+    return Array.from(results.values());
+  }
+
+  private parseCargoTestOutput(log: string): TestResult[] {
+    const results: TestResult[] = [];
+    const prefix = `${RUST_TEST_MODULE}::`;
+    const statusLine = /^test (\S+) \.\.\. (ok|FAILED|ignored)/;
+
+    for (const line of log.split('\n')) {
+      const match = line.match(statusLine);
+      if (!match) continue;
+
+      const fullName = match[1];
+      const failed = match[2] === 'FAILED';
+      const output = failed ? this.cargoFailureOutput(log, fullName) : '';
+
+      results.push({
+        name: fullName.startsWith(prefix) ? fullName.slice(prefix.length) : fullName,
+        passed: !failed,
+        output,
+        error: failed ? this.lastMeaningfulLine(output) || 'Test failed' : undefined,
+        // libtest on stable Rust does not report per-test timings
+        duration: 0
+      });
+    }
+
+    return results;
+  }
+
+  private cargoFailureOutput(log: string, fullName: string): string {
+    const header = `---- ${fullName} stdout ----`;
+    const start = log.indexOf(header);
+    if (start === -1) return '';
+
+    const rest = log.slice(start + header.length);
+    const end = rest.search(/\n(---- |failures:)/);
+    return (end === -1 ? rest : rest.slice(0, end)).trim();
+  }
+
+  private lastMeaningfulLine(output: string): string | undefined {
+    return output
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !/^(=== RUN|--- FAIL|FAIL|PASS|ok\s)/.test(line))
+      .pop();
+  }
+}
+
+/**
+ * Harness for JavaScript and (compiled) TypeScript. Every test file gets a
+ * fresh vm context in which the entry file runs first, so tests can use its
+ * top-level declarations without the code having to export anything.
+ */
+const JS_HARNESS = `'use strict';
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const assert = require('assert');
+const { createRequire } = require('module');
+
+const testDir = __dirname;
+const workspace = path.dirname(testDir);
+const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'tests.json'), 'utf8'));
+const entryPath = path.join(workspace, manifest.entry);
+const entrySource = fs.readFileSync(entryPath, 'utf8');
+
+function format(args) {
+  return args.map(arg => {
+    if (typeof arg === 'string') return arg;
+    try { return JSON.stringify(arg); } catch (error) { return String(arg); }
+  }).join(' ');
+}
+
+function describeError(error) {
+  if (error && error.stack) return String(error.stack).split('\\n').slice(0, 5).join('\\n');
+  return String(error);
+}
+
+function expect(actual) {
+  const fail = (message) => { throw new assert.AssertionError({ message, actual }); };
+  return {
+    toBe: (expected) => assert.strictEqual(actual, expected),
+    toEqual: (expected) => assert.deepStrictEqual(actual, expected),
+    toBeTruthy: () => { if (!actual) fail('Expected value to be truthy'); },
+    toBeFalsy: () => { if (actual) fail('Expected value to be falsy'); },
+    toContain: (item) => { if (!actual || !actual.includes(item)) fail('Expected value to contain ' + format([item])); },
+    toThrow: () => assert.throws(actual)
+  };
+}
+
+function withTimeout(value, ms) {
+  if (!value || typeof value.then !== 'function') return value;
+  let timer;
+  return Promise.race([
+    value,
+    new Promise((_, reject) => { timer = setTimeout(() => reject(new Error('Test timed out after ' + ms + 'ms')), ms); })
+  ]).finally(() => clearTimeout(timer));
+}
+
+async function runTestFile(file, index) {
+  const fallbackName = 'test_' + (index + 1);
+  const registered = [];
+  const suites = [];
+  let output = '';
+
+  const capture = (...args) => { output += format(args) + '\\n'; };
+  const register = (name, fn) => { registered.push({ name: suites.concat(name).join(' > '), fn }); };
+  const describe = (name, fn) => {
+    suites.push(name);
+    try { fn(); } finally { suites.pop(); }
+  };
+  const moduleObject = { exports: {} };
+
+  const context = vm.createContext({
+    console: { log: capture, info: capture, warn: capture, error: capture, debug: capture },
+    assert, expect, describe, it: register, test: register,
+    require: createRequire(entryPath),
+    module: moduleObject, exports: moduleObject.exports,
+    __filename: entryPath, __dirname: workspace,
+    process, Buffer, setTimeout, clearTimeout, setInterval, clearInterval, setImmediate, clearImmediate
+  });
+
+  const source = fs.readFileSync(path.join(testDir, file), 'utf8');
+  const loadStarted = Date.now();
+  try {
+    vm.runInContext(entrySource, context, { filename: manifest.entry });
+    await withTimeout(vm.runInContext(source, context, { filename: file }), manifest.timeout);
+  } catch (error) {
+    return [{ name: fallbackName, passed: false, output, error: describeError(error), duration: Date.now() - loadStarted }];
+  }
+
+  // A test file that registers nothing is a test in itself: it passes if it didn't throw
+  if (registered.length === 0) {
+    return [{ name: fallbackName, passed: true, output, duration: Date.now() - loadStarted }];
+  }
+
+  const results = [];
+  for (const entry of registered) {
+    output = '';
+    const started = Date.now();
+    try {
+      await withTimeout(entry.fn(), manifest.timeout);
+      results.push({ name: entry.name, passed: true, output, duration: Date.now() - started });
+    } catch (error) {
+      results.push({ name: entry.name, passed: false, output, error: describeError(error), duration: Date.now() - started });
+    }
+  }
+  return results;
+}
+
+(async () => {
+  const results = [];
+  for (const [index, file] of manifest.tests.entries()) {
+    results.push(...await runTestFile(file, index));
+  }
+  fs.writeFileSync(path.join(testDir, manifest.results), JSON.stringify(results));
+  process.exit(0);
+})();
+`;
+
+/**
+ * Harness for Python. The entry file is executed with __name__ set to
+ * "main" (so `if __name__ == "__main__"` blocks stay quiet), then each test
+ * file runs in that namespace and its new `test*` callables are collected.
+ */
+const PYTHON_HARNESS = `import contextlib
+import io
+import json
+import os
+import sys
+import time
+import traceback
+
+test_dir = os.path.dirname(os.path.abspath(__file__))
+workspace = os.path.dirname(test_dir)
+
+with open(os.path.join(test_dir, 'tests.json')) as handle:
+    manifest = json.load(handle)
+sys.path.insert(0, os.path.dirname(os.path.join(workspace, manifest['entry'])))
+with open(os.path.join(workspace, manifest['entry'])) as handle:
+    entry_source = handle.read()
+
+results = []
+
+
+def elapsed_ms(started):
+    return int((time.time() - started) * 1000)
+
+
+def record_failure(name, output, started):
+    error = ''.join(traceback.format_exception_only(*sys.exc_info()[:2])).strip()
+    results.append({
+        'name': name,
+        'passed': False,
+        'output': output + traceback.format_exc(),
+        'error': error,
+        'duration': elapsed_ms(started),
+    })
+
+
+def captured():
+    buffer = io.StringIO()
+    stack = contextlib.ExitStack()
+    stack.enter_context(contextlib.redirect_stdout(buffer))
+    stack.enter_context(contextlib.redirect_stderr(buffer))
+    return buffer, stack
+
+
+for index, test_file in enumerate(manifest['tests']):
+    fallback_name = 'test_%d' % (index + 1)
+    namespace = {'__name__': 'main', '__file__': os.path.join(workspace, manifest['entry'])}
+    with open(os.path.join(test_dir, test_file)) as handle:
+        test_source = handle.read()
+
+    buffer, stack = captured()
+    started = time.time()
+    try:
+        with stack:
+            exec(compile(entry_source, manifest['entry'], 'exec'), namespace)
+            baseline = {key: value for key, value in namespace.items()}
+            exec(compile(test_source, test_file, 'exec'), namespace)
+    except BaseException:
+        record_failure(fallback_name, buffer.getvalue(), started)
+        continue
+
+    tests = [
+        (name, value) for name, value in namespace.items()
+        if name.startswith('test') and callable(value) and baseline.get(name) is not value
+    ]
+
+    # A test file without test functions is a test in itself
+    if not tests:
+        results.append({'name': fallback_name, 'passed': True, 'output': buffer.getvalue(), 'duration': elapsed_ms(started)})
+        continue
+
+    for name, fn in tests:
+        buffer, stack = captured()
+        started = time.time()
+        try:
+            with stack:
+                fn()
+            results.append({'name': name, 'passed': True, 'output': buffer.getvalue(), 'duration': elapsed_ms(started)})
+        except BaseException:
+            record_failure(name, buffer.getvalue(), started)
+
+with open(os.path.join(test_dir, manifest['results']), 'w') as handle:
+    json.dump(results, handle)
+`;
@@ -0,0 +1,77 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { materializeWorkspace, resolveWorkspacePath, shellQuote } from './workspace';
+
+describe('resolveWorkspacePath', () => {
+  const root = path.resolve('/srv/workspace');
+
+  it('resolves relative paths inside the root', () => {
+    expect(resolveWorkspacePath(root, 'src/main.py')).toBe(path.join(root, 'src', 'main.py'));
+    expect(resolveWorkspacePath(root, './a/../b.txt')).toBe(path.join(root, 'b.txt'));
+  });
+
+  it.each([
+    ['/etc/passwd', 'must be relative'],
+    ['C:\\Windows', 'must be relative'],
+    ['../outside', 'escapes the workspace'],
+    ['src/../../outside', 'escapes the workspace'],
+    ['..\\outside', 'escapes the workspace'],
+    ['.codecontext/harness.js', 'reserved'],
+    ['bad\0name', 'Invalid workspace path']
+  ])('rejects %j', (relativePath, message) => {
+    expect(() => resolveWorkspacePath(root, relativePath)).toThrow(message);
+  });
+});
+
+describe('materializeWorkspace', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('writes code to the default entrypoint', async () => {
+    const layout = await materializeWorkspace(root, { id: 'single', language: 'python', code: 'print(1)' }, 'main.py');
+
+    expect(layout).toEqual({ entrypoint: 'main.py', workingDirectory: '' });
+    expect(await fs.readFile(path.join(root, 'main.py'), 'utf8')).toBe('print(1)');
+  });
+
+  it('writes a file tree and keeps a provided entrypoint', async () => {
+    const layout = await materializeWorkspace(root, {
+      id: 'project',
+      language: 'python',
+      code: 'ignored',
+      files: { 'app/main.py': 'from lib import x', 'app/lib.py': 'x = 1' },
+      entrypoint: 'app/main.py',
+      workingDirectory: 'app'
+    }, 'main.py');
+
+    expect(layout).toEqual({ entrypoint: 'app/main.py', workingDirectory: 'app' });
+    expect(await fs.readFile(path.join(root, 'app', 'main.py'), 'utf8')).toBe('from lib import x');
+    expect(await fs.pathExists(path.join(root, 'main.py'))).toBe(false);
+  });
+
+  it('rejects files outside the workspace', async () => {
+    await expect(materializeWorkspace(root, {
+      id: 'project',
+      language: 'python',
+      code: '',
+      files: { 'ok.py': '', '../escaped.py': '' }
+    }, 'main.py')).rejects.toThrow('escapes the workspace');
+    expect(await fs.pathExists(path.join(path.dirname(root), 'escaped.py'))).toBe(false);
+  });
+});
+
+describe('shellQuote', () => {
+  it('survives a round trip through sh', () => {
+    const arg = `it's "quoted" $HOME; rm -rf /`;
+    expect(execFileSync('sh', ['-c', `printf %s ${shellQuote(arg)}`]).toString()).toBe(arg);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 📁 Workspace
+ *
+ * Materializes an ExecutionRequest (a single `code` string or a whole
+ * `files` tree) into a directory on disk. Every path comes from the caller,
+ * so each one is resolved against the workspace root and rejected if it
+ * could land anywhere else.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ExecutionRequest } from './executionEngine';
+
+// Where the workspace is mounted inside execution containers
+export const CONTAINER_WORKSPACE = '/workspace';
+
+// Reserved for harness files, traces and results written by the engine
+const RESERVED_DIR = '.codecontext';
+const MAX_FILES = 500;
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024;
+
+export interface WorkspaceLayout {
+  entrypoint: string; // relative to the workspace root, posix separators
+  workingDirectory: string; // relative to the workspace root, '' for the root itself
+}
+
+/**
+ * Resolve a caller-supplied relative path inside `root`, throwing if it is
+ * absolute, escapes the root or points into the reserved directory.
+ */
+export function resolveWorkspacePath(root: string, relativePath: string): string {
+  if (typeof relativePath !== 'string' || relativePath.includes('\0')) {
+    throw new Error(`Invalid workspace path: ${JSON.stringify(relativePath)}`);
+  }
+
+  const normalized = relativePath.replace(/\\/g, '/');
+  if (path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error(`Workspace paths must be relative: ${relativePath}`);
+  }
+
+  const segments = path.posix.normalize(normalized).split('/');
+  if (segments.includes('..')) {
+    throw new Error(`Workspace path escapes the workspace: ${relativePath}`);
+  }
+  if (segments[0] === RESERVED_DIR) {
+    throw new Error(`Workspace path uses the reserved ${RESERVED_DIR} directory: ${relativePath}`);
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, ...segments);
+  if (resolved !== resolvedRoot && !resolved.startsWith(resolvedRoot + path.sep)) {
+    throw new Error(`Workspace path escapes the workspace: ${relativePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Write the request's files into `root`. `code` becomes the entrypoint's
+ * contents unless `files` already provides it.
+ */
+export async function materializeWorkspace(
+  root: string,
+  request: ExecutionRequest,
+  defaultEntrypoint: string
+): Promise<WorkspaceLayout> {
+  const files = request.files || {};
+  const filePaths = Object.keys(files);
+
+  if (filePaths.length > MAX_FILES) {
+    throw new Error(`Too many files in request: ${filePaths.length} (max ${MAX_FILES})`);
+  }
+
+  const totalBytes = filePaths.reduce((total, file) => total + Buffer.byteLength(String(files[file])), 0);
+  if (totalBytes > MAX_TOTAL_BYTES) {
+    throw new Error(`Request files exceed ${MAX_TOTAL_BYTES} bytes`);
+  }
+
+  const entrypoint = toPosix(root, resolveWorkspacePath(root, request.entrypoint || defaultEntrypoint));
+  const workingDirectory = request.workingDirectory
+    ? toPosix(root, resolveWorkspacePath(root, request.workingDirectory))
+    : '';
+
+  for (const file of filePaths) {
+    const target = resolveWorkspacePath(root, file);
+    await fs.ensureDir(path.dirname(target));
+    await fs.writeFile(target, String(files[file]));
+  }
+
+  const entryPath = resolveWorkspacePath(root, entrypoint);
+  if (!filePaths.some(file => resolveWorkspacePath(root, file) === entryPath)) {
+    await fs.ensureDir(path.dirname(entryPath));
+    await fs.writeFile(entryPath, request.code || '');
+  }
+
+  await fs.ensureDir(path.join(root, workingDirectory));
+
+  return { entrypoint, workingDirectory };
+}
+
+/**
+ * Quote a single argument for `sh -c` scripts.
+ */
+export function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function toPosix(root: string, absolutePath: string): string {
+  return path.relative(path.resolve(root), absolutePath).split(path.sep).join('/');
+}